@@ -13,6 +13,35 @@ export interface Config {
     adminEmail: string;
     mcpName: string;
     omitHandlers: string[];
+    transport: string;
+    stdioUserEmail: string;
+    shutdownTimeoutMs: number;
+  };
+  session: {
+    maxSessionsPerUser: string;
+    idleTimeoutMs: number;
+    maxAgeMs: number;
+    store: string;
+    eventStore: string;
+    eventRetentionMs: number;
+  };
+  audit: {
+    retentionDays: number;
+  };
+  metrics: {
+    token: string;
+  };
+  httpHandler: {
+    allowedHosts: string[];
+  };
+  scriptHandler: {
+    timeoutMs: number;
+    memoryMb: number;
+  };
+  tracing: {
+    otlpUrl: string;
+    otlpHeaders: Record<string, string>;
+    serviceName: string;
   };
   logging: {
     level: string;
@@ -24,6 +53,18 @@ export interface Config {
   };
 }
 
+// Parse "key=value,key2=value2" into a header map
+function parseHeaders(value?: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const pair of (value || "").split(",")) {
+    const index = pair.indexOf("=");
+    if (index > 0) {
+      headers[pair.slice(0, index).trim()] = pair.slice(index + 1).trim();
+    }
+  }
+  return headers;
+}
+
 // Create and validate the configuration
 function createConfig(): Config {
   return {
@@ -40,6 +81,52 @@ function createConfig(): Config {
       omitHandlers: process.env.OMIT_HANDLERS
         ? process.env.OMIT_HANDLERS.split(",").map((h) => h.trim())
         : [],
+      transport: process.env.MCP_TRANSPORT || "http",
+      stdioUserEmail: process.env.MCP_STDIO_USER_EMAIL || "",
+      shutdownTimeoutMs: parseInt(
+        process.env.MCP_SHUTDOWN_TIMEOUT_MS || "30000",
+        10,
+      ),
+    },
+    session: {
+      maxSessionsPerUser: process.env.MCP_MAX_SESSIONS_PER_USER || "",
+      idleTimeoutMs: parseInt(
+        process.env.MCP_SESSION_IDLE_TIMEOUT_MS || "3600000",
+        10,
+      ),
+      maxAgeMs: parseInt(process.env.MCP_SESSION_MAX_AGE_MS || "0", 10),
+      store: process.env.MCP_SESSION_STORE || "memory",
+      eventStore: process.env.MCP_EVENT_STORE || "memory",
+      eventRetentionMs: parseInt(
+        process.env.MCP_EVENT_RETENTION_MS || "300000",
+        10,
+      ),
+    },
+    audit: {
+      retentionDays: parseInt(
+        process.env.MCP_AUDIT_RETENTION_DAYS || "90",
+        10,
+      ),
+    },
+    metrics: {
+      token: process.env.MCP_METRICS_TOKEN || "",
+    },
+    httpHandler: {
+      allowedHosts: process.env.MCP_HTTP_ALLOWED_HOSTS
+        ? process.env.MCP_HTTP_ALLOWED_HOSTS.split(",").map((h) => h.trim())
+        : [],
+    },
+    scriptHandler: {
+      timeoutMs: parseInt(process.env.MCP_SCRIPT_TIMEOUT_MS || "5000", 10),
+      memoryMb: parseInt(process.env.MCP_SCRIPT_MEMORY_MB || "64", 10),
+    },
+    tracing: {
+      otlpUrl: process.env.MCP_TRACING_OTLP_URL || "",
+      otlpHeaders: parseHeaders(process.env.MCP_TRACING_OTLP_HEADERS),
+      serviceName:
+        process.env.MCP_TRACING_SERVICE_NAME ||
+        process.env.SERVER_NAME ||
+        "dynamic-mcp-server",
     },
     logging: {
       level: process.env.LOG_LEVEL || "info",
@@ -33,6 +33,7 @@ describe("connectToDatabase", () => {
     await connectToDatabase();
     expect(mongoose.connect).toHaveBeenCalledWith(process.env.MONGODB_URI, {
       dbName: process.env.MONGODB_DB,
+      monitorCommands: true,
     });
     expect(logger.info).toHaveBeenCalledWith("Connected to MongoDB");
   });
@@ -1,5 +1,7 @@
 import mongoose from "mongoose";
 import logger from "../utils/logger.js";
+import { instrumentMongoClient } from "../utils/metrics.js";
+import { traceMongoClient } from "../utils/tracing.js";
 
 let isConnected = false;
 
@@ -21,7 +23,14 @@ export async function connectToDatabase(): Promise<void> {
 
     await mongoose.connect(mongoUri, {
       dbName: process.env.MONGODB_DB || "dynamic-mcp-server",
+      // Command events feed the MongoDB latency metrics and spans
+      monitorCommands: true,
     });
+    const client = mongoose.connection?.getClient();
+    if (client) {
+      instrumentMongoClient(client);
+      traceMongoClient(client);
+    }
 
     isConnected = true;
     logger.info("Connected to MongoDB");
@@ -46,12 +55,30 @@ export async function disconnectFromDatabase(): Promise<void> {
   }
 }
 
-// Handle application shutdown
-type ShutdownHandler = () => Promise<void>;
-const shutdown: ShutdownHandler = async () => {
-  await disconnectFromDatabase();
-  process.exit(0);
-};
+/**
+ * Whether MongoDB is connected and answers a ping.
+ */
+export async function checkDatabaseConnection(): Promise<{
+  status: "ok" | "down";
+  message?: string;
+}> {
+  const state = mongoose.connection.readyState;
+  if (state !== mongoose.ConnectionStates.connected) {
+    return {
+      status: "down",
+      message: `MongoDB is ${mongoose.ConnectionStates[state]}`,
+    };
+  }
+  try {
+    await mongoose.connection.db!.admin().ping();
+    return { status: "ok" };
+  } catch (error) {
+    return {
+      status: "down",
+      message: `MongoDB ping failed: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    };
+  }
+}
 
-process.on("SIGINT", shutdown);
-process.on("SIGTERM", shutdown);
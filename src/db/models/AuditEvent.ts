@@ -0,0 +1,48 @@
+import mongoose from "mongoose";
+
+export type AuditOutcome = "success" | "error" | "denied";
+
+export interface IAuditEvent {
+  timestamp: Date;
+  userEmail: string;
+  tool: string;
+  /** Handler package that ran the tool, e.g. user-management */
+  handler?: string;
+  sessionId?: string;
+  clientName?: string;
+  clientVersion?: string;
+  /** namespacedName of the pipeline tool that called this tool as a step */
+  pipeline?: string;
+  /** Tool arguments with secrets redacted */
+  arguments?: Record<string, unknown>;
+  outcome: AuditOutcome;
+  error?: string;
+  durationMs: number;
+  expiresAt?: Date;
+}
+
+const auditEventSchema = new mongoose.Schema<IAuditEvent>({
+  timestamp: { type: Date, required: true },
+  userEmail: { type: String, required: true },
+  tool: { type: String, required: true },
+  handler: { type: String },
+  sessionId: { type: String },
+  clientName: { type: String },
+  clientVersion: { type: String },
+  pipeline: { type: String },
+  arguments: { type: Object },
+  outcome: { type: String, required: true },
+  error: { type: String },
+  durationMs: { type: Number, required: true },
+  // Removed by MongoDB once the retention window has passed; kept forever if unset
+  expiresAt: { type: Date, expires: 0 },
+});
+
+auditEventSchema.index({ timestamp: -1 });
+auditEventSchema.index({ userEmail: 1, timestamp: -1 });
+auditEventSchema.index({ tool: 1, timestamp: -1 });
+
+export const AuditEvent = mongoose.model<IAuditEvent>(
+  "AuditEvent",
+  auditEventSchema,
+);
@@ -0,0 +1,52 @@
+import mongoose from "mongoose";
+
+export interface IResource {
+  uri?: string; // Set for a single resource
+  uriTemplate?: string; // Set for a resource template
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  handler: {
+    type: string;
+    config: any;
+  };
+  creator: string; // user email, handler package name or 'system'
+  createdAt: Date;
+  updatedAt: Date;
+  rolesPermitted?: string[];
+}
+
+const resourceSchema = new mongoose.Schema<IResource>(
+  {
+    uri: { type: String },
+    uriTemplate: { type: String },
+    name: { type: String, required: true },
+    title: { type: String },
+    description: { type: String },
+    mimeType: { type: String },
+    handler: {
+      type: { type: String, required: true },
+      config: { type: Object, required: true },
+    },
+    creator: { type: String, required: true },
+    rolesPermitted: [{ type: String }],
+  },
+  { timestamps: true },
+);
+
+// A uri or uriTemplate identifies a resource across all creators
+resourceSchema.index(
+  { uri: 1 },
+  { unique: true, partialFilterExpression: { uri: { $type: "string" } } },
+);
+resourceSchema.index(
+  { uriTemplate: 1 },
+  { unique: true, partialFilterExpression: { uriTemplate: { $type: "string" } } },
+);
+
+resourceSchema.virtual("id").get(function (this: any) {
+  return this._id.toString();
+});
+
+export const Resource = mongoose.model<IResource>("Resource", resourceSchema);
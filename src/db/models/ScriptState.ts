@@ -0,0 +1,28 @@
+import mongoose from "mongoose";
+
+/** A value a script tool keeps for one user between calls */
+export interface IScriptState {
+  userEmail: string;
+  /** Namespaced name of the script tool, e.g. "a@example.com:word-count" */
+  tool: string;
+  key: string;
+  value: unknown;
+  updatedAt?: Date;
+}
+
+const scriptStateSchema = new mongoose.Schema<IScriptState>(
+  {
+    userEmail: { type: String, required: true },
+    tool: { type: String, required: true },
+    key: { type: String, required: true },
+    value: { type: mongoose.Schema.Types.Mixed },
+  },
+  { timestamps: { createdAt: false, updatedAt: true }, minimize: false },
+);
+
+scriptStateSchema.index({ userEmail: 1, tool: 1, key: 1 }, { unique: true });
+
+export const ScriptState = mongoose.model<IScriptState>(
+  "ScriptState",
+  scriptStateSchema,
+);
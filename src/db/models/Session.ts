@@ -0,0 +1,68 @@
+import mongoose from "mongoose";
+import { ApiKeyScope } from "./User.js";
+
+export interface ISession {
+  sessionId: string;
+  userEmail: string;
+  clientName: string;
+  clientVersion: string;
+  apiKeyScope?: ApiKeyScope;
+  apiKey?: {
+    name: string;
+    prefix: string;
+    expiresAt?: Date;
+  };
+  transport?: "streamable-http" | "sse";
+  createdAt: Date;
+  lastUsed: Date;
+  closed?: {
+    reason: "evicted" | "idle" | "max_age" | "revoked" | "key_expired";
+    message: string;
+  };
+  closedAt?: Date;
+}
+
+// How long closed sessions are kept to explain the closure to their clients
+const CLOSED_SESSION_TTL_SECONDS = 24 * 60 * 60;
+// Sessions nobody has used for this long are dropped even if no server closed them
+const ABANDONED_SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const sessionSchema = new mongoose.Schema<ISession>({
+  sessionId: { type: String, required: true, unique: true },
+  userEmail: { type: String, required: true, index: true },
+  clientName: { type: String, required: true },
+  clientVersion: { type: String, required: true },
+  apiKeyScope: {
+    tools: [{ type: String }],
+    handlers: [{ type: String }],
+  },
+  apiKey: {
+    type: new mongoose.Schema(
+      {
+        name: { type: String, required: true },
+        prefix: { type: String, required: true },
+        expiresAt: { type: Date },
+      },
+      { _id: false },
+    ),
+  },
+  transport: { type: String },
+  createdAt: { type: Date, required: true },
+  lastUsed: {
+    type: Date,
+    required: true,
+    expires: ABANDONED_SESSION_TTL_SECONDS,
+  },
+  closed: {
+    type: new mongoose.Schema(
+      {
+        reason: { type: String, required: true },
+        message: { type: String, required: true },
+      },
+      { _id: false },
+    ),
+  },
+  closedAt: { type: Date, expires: CLOSED_SESSION_TTL_SECONDS },
+});
+
+export const Session = mongoose.model<ISession>("Session", sessionSchema);
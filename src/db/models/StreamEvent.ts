@@ -0,0 +1,23 @@
+import mongoose from "mongoose";
+
+export interface IStreamEvent {
+  sessionId: string;
+  streamId: string;
+  message: any;
+  expiresAt: Date;
+}
+
+const streamEventSchema = new mongoose.Schema<IStreamEvent>({
+  sessionId: { type: String, required: true },
+  streamId: { type: String, required: true },
+  message: { type: Object, required: true },
+  // Removed by MongoDB once the retention window has passed
+  expiresAt: { type: Date, required: true, expires: 0 },
+});
+
+streamEventSchema.index({ sessionId: 1, streamId: 1, _id: 1 });
+
+export const StreamEvent = mongoose.model<IStreamEvent>(
+  "StreamEvent",
+  streamEventSchema,
+);
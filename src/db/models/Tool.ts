@@ -4,6 +4,7 @@ export interface ITool {
   name: string;
   description?: string;
   inputSchema: any;
+  outputSchema?: any;
   annotations?: any;
   handler: {
     type: string;
@@ -15,6 +16,7 @@ export interface ITool {
   lastUsed?: Date;
   rolesPermitted?: string[];
   alwaysVisible?: boolean;
+  timeoutMs?: number;
 }
 
 const toolSchema = new mongoose.Schema<ITool>(
@@ -22,6 +24,7 @@ const toolSchema = new mongoose.Schema<ITool>(
     name: { type: String, required: true },
     description: { type: String },
     inputSchema: { type: Object, required: true },
+    outputSchema: { type: Object },
     annotations: { type: Object },
     handler: {
       type: { type: String, required: true },
@@ -31,6 +34,7 @@ const toolSchema = new mongoose.Schema<ITool>(
     lastUsed: { type: Date },
     rolesPermitted: [{ type: String }],
     alwaysVisible: { type: Boolean },
+    timeoutMs: { type: Number, min: 1 },
   },
   { timestamps: true },
 );
@@ -0,0 +1,43 @@
+import mongoose from "mongoose";
+
+export type UsageKind = "tool" | "prompt";
+
+/** Usage counters of one tool or prompt by one user */
+export interface IUsageStat {
+  kind: UsageKind;
+  name: string;
+  /** Creator of the tool; tools are unique per (name, creator) */
+  creator?: string;
+  userEmail: string;
+  callCount: number;
+  errorCount: number;
+  totalDurationMs: number;
+  /** Calls per latency bucket, keyed by index into LATENCY_BUCKETS_MS */
+  latencyBuckets: Record<string, number>;
+  lastUsed: Date;
+}
+
+const usageStatSchema = new mongoose.Schema<IUsageStat>(
+  {
+    kind: { type: String, required: true },
+    name: { type: String, required: true },
+    creator: { type: String },
+    userEmail: { type: String, required: true },
+    callCount: { type: Number, default: 0 },
+    errorCount: { type: Number, default: 0 },
+    totalDurationMs: { type: Number, default: 0 },
+    latencyBuckets: { type: Object, default: {} },
+    lastUsed: { type: Date, required: true },
+  },
+  { minimize: false },
+);
+
+usageStatSchema.index(
+  { kind: 1, name: 1, creator: 1, userEmail: 1 },
+  { unique: true },
+);
+
+export const UsageStat = mongoose.model<IUsageStat>(
+  "UsageStat",
+  usageStatSchema,
+);
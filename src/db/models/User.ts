@@ -7,6 +7,31 @@ export interface SharedTool {
   sharedAt: Date;
 }
 
+export interface SharedResource {
+  uri: string; // Resource uri or uriTemplate
+  sharedBy: string;
+  sharedAt: Date;
+}
+
+/**
+ * Restricts an API key to certain tools and/or handler packages.
+ * A tool is in scope if it matches either list; an empty scope allows everything.
+ */
+export interface ApiKeyScope {
+  tools?: string[]; // Namespaced tool names (creator:name)
+  handlers?: string[]; // Handler package names (handler type)
+}
+
+export interface ApiKey {
+  name: string; // Unique per user, e.g. "laptop-cursor"
+  hash: string; // Salted hash of the key; never returned in JSON
+  prefix: string; // Leading characters of the key, used for lookup
+  createdAt: Date;
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  scope?: ApiKeyScope;
+}
+
 export interface IUser {
   email: string; // Primary identifier
   name?: string;
@@ -14,6 +39,7 @@ export interface IUser {
   updatedAt: Date;
   roles?: string[];
   sharedTools: SharedTool[];
+  sharedResources?: SharedResource[];
   hiddenTools?: string[];
   applicationAuthentication?: {
     [appKey: string]: any;
@@ -21,9 +47,17 @@ export interface IUser {
   applicationAuthorization?: {
     [appKey: string]: any;
   };
-  apiKey: string; // API key for authentication
+  apiKeys?: ApiKey[]; // Named API keys for authentication
 }
 
+/**
+ * A user together with the plaintext API key that was just issued.
+ * The plaintext key is only available at creation or reset time.
+ */
+export type IUserWithApiKey = IUser & { apiKey: string };
+
+export const DEFAULT_API_KEY_NAME = "default";
+
 export const ROLES = {
   ADMIN: "admin",
   POWER_USER: "power-user",
@@ -32,6 +66,22 @@ export const ROLES = {
 
 export type Role = (typeof ROLES)[keyof typeof ROLES];
 
+const apiKeySchema = new mongoose.Schema<ApiKey>(
+  {
+    name: { type: String, required: true },
+    hash: { type: String, required: true, select: false },
+    prefix: { type: String, required: true },
+    createdAt: { type: Date, default: Date.now },
+    expiresAt: { type: Date },
+    lastUsedAt: { type: Date },
+    scope: {
+      tools: { type: [String], default: undefined },
+      handlers: { type: [String], default: undefined },
+    },
+  },
+  { _id: false },
+);
+
 const userSchema = new mongoose.Schema<IUser>(
   {
     email: { type: String, required: true, unique: true },
@@ -45,6 +95,13 @@ const userSchema = new mongoose.Schema<IUser>(
         sharedAt: { type: Date, default: Date.now },
       },
     ],
+    sharedResources: [
+      {
+        uri: { type: String, required: true },
+        sharedBy: { type: String, required: true },
+        sharedAt: { type: Date, default: Date.now },
+      },
+    ],
     hiddenTools: [{ type: String }],
     applicationAuthentication: {
       type: mongoose.Schema.Types.Mixed,
@@ -54,18 +111,28 @@ const userSchema = new mongoose.Schema<IUser>(
       type: mongoose.Schema.Types.Mixed,
       default: undefined,
     },
-    apiKey: { type: String, required: true, unique: true, index: true },
+    apiKeys: { type: [apiKeySchema], default: [] },
   },
   { timestamps: true },
 );
 
+userSchema.index({ "apiKeys.prefix": 1 });
+
 // Add a virtual 'id' field that maps to '_id'
 userSchema.virtual("id").get(function (this: any) {
   return this._id.toString();
 });
 
-// Ensure virtuals are included in toJSON and toObject
-userSchema.set("toJSON", { virtuals: true });
+// Ensure virtuals are included in toJSON and toObject; never serialize key hashes
+userSchema.set("toJSON", {
+  virtuals: true,
+  transform: (_doc, ret: any) => {
+    if (Array.isArray(ret.apiKeys)) {
+      ret.apiKeys = ret.apiKeys.map(({ hash, ...key }: any) => key);
+    }
+    return ret;
+  },
+});
 userSchema.set("toObject", { virtuals: true });
 
 export const User = mongoose.model<IUser>("User", userSchema);
@@ -0,0 +1,74 @@
+import {
+  AuditEvent,
+  AuditOutcome,
+  IAuditEvent,
+} from "../models/AuditEvent.js";
+import { config } from "../../config/index.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AuditEventQuery {
+  userEmail?: string;
+  tool?: string;
+  handler?: string;
+  outcome?: AuditOutcome;
+  sessionId?: string;
+  since?: Date;
+  until?: Date;
+  skip?: number;
+  limit?: number;
+}
+
+export class AuditEventRepository {
+  private retentionDays: number;
+
+  /**
+   * @param retentionDays Days to keep events for; 0 keeps them forever
+   */
+  constructor(retentionDays: number = config.audit.retentionDays) {
+    this.retentionDays = retentionDays;
+  }
+
+  async record(event: Omit<IAuditEvent, "expiresAt">): Promise<void> {
+    await AuditEvent.create({
+      ...event,
+      ...(this.retentionDays > 0
+        ? {
+            expiresAt: new Date(
+              event.timestamp.getTime() + this.retentionDays * DAY_MS,
+            ),
+          }
+        : {}),
+    });
+  }
+
+  /**
+   * Find events matching the filters, newest first.
+   */
+  async query(
+    filters: AuditEventQuery,
+  ): Promise<{ events: IAuditEvent[]; total: number }> {
+    const { since, until, skip = 0, limit = 100, ...fields } = filters;
+    const query: Record<string, any> = {};
+    for (const [field, value] of Object.entries(fields)) {
+      if (value !== undefined) {
+        query[field] = value;
+      }
+    }
+    if (since || until) {
+      query.timestamp = {
+        ...(since ? { $gte: since } : {}),
+        ...(until ? { $lte: until } : {}),
+      };
+    }
+    const [events, total] = await Promise.all([
+      AuditEvent.find(query, { _id: 0, __v: 0, expiresAt: 0 })
+        .sort({ timestamp: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean<IAuditEvent[]>(),
+      AuditEvent.countDocuments(query),
+    ]);
+    return { events, total };
+  }
+}
@@ -118,7 +118,10 @@ export class PromptRepository {
   /**
    * Get a specific prompt for a user
    */
-  async getPromptForUser(userEmail: string, promptName: string): Promise<PromptDefinition | null> {
+  async getPromptForUser(
+    userEmail: string,
+    promptName: string,
+  ): Promise<(PromptDefinition & { createdBy: string }) | null> {
     try {
       const prompt = await Prompt.findOne({
         name: promptName,
@@ -141,6 +144,7 @@ export class PromptRepository {
         handler: prompt.handler,
         rolesPermitted: prompt.rolesPermitted,
         alwaysVisible: prompt.alwaysVisible,
+        createdBy: prompt.createdBy,
       };
     } catch (error) {
       logger.error(`Error getting prompt '${promptName}' for user '${userEmail}':`, error);
@@ -224,11 +228,15 @@ export class PromptRepository {
   }
   async deletePromptsByCreator(
     creator: string,
+    keepNames: string[] = [],
   ): Promise<{ deletedCount?: number }> {
     if (!creator) {
       throw new Error("Creator is required to delete prompts");
     }
-    const result = await Prompt.deleteMany({ createdBy: creator });
+    const result = await Prompt.deleteMany({
+      createdBy: creator,
+      ...(keepNames.length ? { name: { $nin: keepNames } } : {}),
+    });
     return { deletedCount: result.deletedCount };
   }
 }
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { Resource, IResource } from "../models/Resource.js";
+import { IUser } from "../models/User.js";
+
+export class ResourceRepository {
+  /**
+   * Add or replace a resource, identified by its uri or uriTemplate
+   */
+  async upsert(resource: Partial<IResource>): Promise<void> {
+    const key = resource.uri
+      ? { uri: resource.uri }
+      : { uriTemplate: resource.uriTemplate };
+    await Resource.updateOne(key, { $set: resource }, { upsert: true });
+  }
+
+  /**
+   * Find a resource by uri or uriTemplate
+   */
+  async findByUri(uri: string): Promise<IResource | null> {
+    return Resource.findOne({
+      $or: [{ uri }, { uriTemplate: uri }],
+    }).lean<IResource>();
+  }
+
+  /**
+   * Resources and resource templates a user may access: admins see all;
+   * others see resources shared with them, created by them or by the system,
+   * or permitted to one of their roles.
+   */
+  async getResourcesForUser(
+    user: Pick<IUser, "email" | "roles" | "sharedResources">,
+  ): Promise<IResource[]> {
+    if (user.roles?.includes("admin")) {
+      return Resource.find({}).lean<IResource[]>();
+    }
+    const sharedUris = (user.sharedResources || []).map((r) => r.uri);
+    const query: any = {
+      $or: [
+        { uri: { $in: sharedUris } },
+        { uriTemplate: { $in: sharedUris } },
+        { creator: user.email },
+        { creator: "system" },
+      ],
+    };
+    if (user.roles && user.roles.length > 0) {
+      query.$or.push({ rolesPermitted: { $in: user.roles } });
+    }
+    return Resource.find(query).lean<IResource[]>();
+  }
+
+  /**
+   * Delete a resource by uri or uriTemplate, optionally only if owned by creator.
+   * Returns whether a resource was deleted.
+   */
+  async deleteResource(uri: string, creator?: string): Promise<boolean> {
+    const filter: any = { $or: [{ uri }, { uriTemplate: uri }] };
+    if (creator) {
+      filter.creator = creator;
+    }
+    const result = await Resource.deleteOne(filter);
+    return result.deletedCount > 0;
+  }
+
+  async deleteResourcesByCreator(
+    creator: string,
+  ): Promise<{ deletedCount?: number }> {
+    if (!creator) {
+      throw new Error("Creator is required to delete resources");
+    }
+    const result = await Resource.deleteMany({ creator });
+    return { deletedCount: result.deletedCount };
+  }
+}
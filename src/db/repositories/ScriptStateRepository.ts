@@ -0,0 +1,44 @@
+import { IScriptState, ScriptState } from "../models/ScriptState.js";
+
+export class ScriptStateRepository {
+  /**
+   * The value a script tool stored for a user, or undefined if there is none
+   */
+  async getValue(
+    userEmail: string,
+    tool: string,
+    key: string,
+  ): Promise<unknown> {
+    const state = await ScriptState.findOne({ userEmail, tool, key }).lean<IScriptState>();
+    return state?.value;
+  }
+
+  async setValue(
+    userEmail: string,
+    tool: string,
+    key: string,
+    value: unknown,
+  ): Promise<void> {
+    await ScriptState.updateOne(
+      { userEmail, tool, key },
+      { $set: { value } },
+      { upsert: true },
+    );
+  }
+
+  async deleteValue(
+    userEmail: string,
+    tool: string,
+    key: string,
+  ): Promise<void> {
+    await ScriptState.deleteOne({ userEmail, tool, key });
+  }
+
+  /**
+   * Remove everything a script tool stored, e.g. when the tool is deleted
+   */
+  async deleteTool(tool: string): Promise<number> {
+    const result = await ScriptState.deleteMany({ tool });
+    return result.deletedCount ?? 0;
+  }
+}
@@ -0,0 +1,69 @@
+import { Session, ISession } from "../models/Session.js";
+import {
+  ClosedSessionInfo,
+  SessionStore,
+  StoredSession,
+} from "../../http/types.js";
+
+/**
+ * MongoDB-backed session store, shared by all server instances using the
+ * same database so that sessions survive restarts and load balancing.
+ */
+export class SessionRepository implements SessionStore {
+  async save(session: StoredSession): Promise<void> {
+    await Session.updateOne(
+      { sessionId: session.sessionId },
+      { $set: session },
+      { upsert: true },
+    );
+  }
+
+  async get(sessionId: string): Promise<StoredSession | null> {
+    const session = await Session.findOne({ sessionId }).lean<ISession>();
+    return session ? this.toStoredSession(session) : null;
+  }
+
+  async touch(sessionId: string, lastUsed: Date): Promise<void> {
+    await Session.updateOne(
+      { sessionId, closed: { $exists: false } },
+      { $max: { lastUsed } },
+    );
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await Session.deleteOne({ sessionId });
+  }
+
+  async markClosed(
+    sessionId: string,
+    closed: ClosedSessionInfo,
+  ): Promise<void> {
+    await Session.updateOne(
+      { sessionId, closed: { $exists: false } },
+      { $set: { closed, closedAt: new Date() } },
+    );
+  }
+
+  async listOpenByUser(userEmail: string): Promise<StoredSession[]> {
+    const sessions = await Session.find({
+      userEmail,
+      closed: { $exists: false },
+    }).lean<ISession[]>();
+    return sessions.map((session) => this.toStoredSession(session));
+  }
+
+  private toStoredSession(session: ISession): StoredSession {
+    return {
+      sessionId: session.sessionId,
+      userEmail: session.userEmail,
+      clientName: session.clientName,
+      clientVersion: session.clientVersion,
+      apiKeyScope: session.apiKeyScope,
+      apiKey: session.apiKey,
+      transport: session.transport,
+      createdAt: session.createdAt,
+      lastUsed: session.lastUsed,
+      closed: session.closed,
+    };
+  }
+}
@@ -0,0 +1,67 @@
+import mongoose from "mongoose";
+import {
+  EventId,
+  EventStore,
+  StreamId,
+} from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { StreamEvent } from "../models/StreamEvent.js";
+import { DEFAULT_EVENT_RETENTION_MS } from "../../http/services/eventStore.js";
+
+/**
+ * MongoDB-backed event store for a single session, so that a client can
+ * replay missed events on any server instance.
+ */
+export class StreamEventRepository implements EventStore {
+  private sessionId: string;
+  private retentionMs: number;
+
+  constructor(
+    sessionId: string,
+    retentionMs: number = DEFAULT_EVENT_RETENTION_MS,
+  ) {
+    this.sessionId = sessionId;
+    this.retentionMs = retentionMs;
+  }
+
+  async storeEvent(
+    streamId: StreamId,
+    message: JSONRPCMessage,
+  ): Promise<EventId> {
+    const event = await StreamEvent.create({
+      sessionId: this.sessionId,
+      streamId,
+      message,
+      expiresAt: new Date(Date.now() + this.retentionMs),
+    });
+    return event._id.toString();
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    {
+      send,
+    }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> },
+  ): Promise<StreamId> {
+    const lastEvent = mongoose.isValidObjectId(lastEventId)
+      ? await StreamEvent.findOne({
+          _id: lastEventId,
+          sessionId: this.sessionId,
+        }).lean()
+      : null;
+    if (!lastEvent) {
+      throw new Error(`Event ${lastEventId} is unknown or has expired`);
+    }
+    const events = await StreamEvent.find({
+      sessionId: this.sessionId,
+      streamId: lastEvent.streamId,
+      _id: { $gt: lastEvent._id },
+    })
+      .sort({ _id: 1 })
+      .lean();
+    for (const event of events) {
+      await send(event._id.toString(), event.message);
+    }
+    return lastEvent.streamId;
+  }
+}
@@ -66,11 +66,15 @@ export class ToolRepository {
 
   async deleteToolsByCreator(
     creator: string,
+    keepNames: string[] = [],
   ): Promise<{ deletedCount?: number }> {
     if (!creator) {
       throw new Error("Creator is required to delete tools");
     }
-    const result = await Tool.deleteMany({ creator });
+    const result = await Tool.deleteMany({
+      creator,
+      ...(keepNames.length ? { name: { $nin: keepNames } } : {}),
+    });
     return { deletedCount: result.deletedCount };
   }
 
@@ -120,9 +124,11 @@ export class ToolRepository {
         name: tool.name,
         description: tool.description,
         inputSchema: tool.inputSchema,
+        outputSchema: tool.outputSchema,
         annotations: tool.annotations,
         handler: tool.handler,
         rolesPermitted: tool.rolesPermitted,
+        timeoutMs: tool.timeoutMs,
       }));
   }
 
@@ -0,0 +1,156 @@
+import { IUsageStat, UsageKind, UsageStat } from "../models/UsageStat.js";
+import { Tool } from "../models/Tool.js";
+import { Prompt } from "../models/Prompt.js";
+import {
+  latencyBucket,
+  latencyPercentile,
+  mergeLatencyBuckets,
+} from "../../utils/usageStats.js";
+
+export interface UsageRecord {
+  kind: UsageKind;
+  name: string;
+  creator?: string;
+  userEmail: string;
+  durationMs: number;
+  error: boolean;
+}
+
+export interface UsageFilter {
+  kind?: UsageKind;
+  name?: string;
+  /** Only the tools or prompts with one of these names */
+  names?: string[];
+  creator?: string;
+  userEmail?: string;
+}
+
+export interface UserUsage {
+  userEmail: string;
+  callCount: number;
+  errorCount: number;
+  lastUsed: Date;
+}
+
+export interface UsageSummary {
+  kind: UsageKind;
+  name: string;
+  creator?: string;
+  callCount: number;
+  errorCount: number;
+  errorRate: number;
+  avgMs: number;
+  /** Estimated from a latency histogram: upper bound of the bucket */
+  p50Ms: number | null;
+  p95Ms: number | null;
+  lastUsed: Date;
+  users: number;
+  byUser?: UserUsage[];
+}
+
+export class UsageStatRepository {
+  /**
+   * Count a call of a tool or prompt by a user and update its lastUsed.
+   */
+  async recordUsage(usage: UsageRecord): Promise<void> {
+    const { kind, name, creator, userEmail, durationMs, error } = usage;
+    const now = new Date();
+    await UsageStat.updateOne(
+      { kind, name, userEmail, ...(creator ? { creator } : {}) },
+      {
+        $inc: {
+          callCount: 1,
+          errorCount: error ? 1 : 0,
+          totalDurationMs: durationMs,
+          [`latencyBuckets.${latencyBucket(durationMs)}`]: 1,
+        },
+        $max: { lastUsed: now },
+      },
+      { upsert: true },
+    );
+    // lastUsed is not a change to the definition, so leave updatedAt alone
+    if (kind === "tool") {
+      await Tool.updateOne(
+        { name, ...(creator ? { creator } : {}) },
+        { $max: { lastUsed: now } },
+        { timestamps: false },
+      );
+    } else {
+      await Prompt.updateOne(
+        { name, ...(creator ? { createdBy: creator } : {}) },
+        { $max: { lastUsed: now } },
+        { timestamps: false },
+      );
+    }
+  }
+
+  /**
+   * Usage per tool or prompt across users, busiest first.
+   * @param byUser Include the counters of each user
+   */
+  async getUsage(
+    filter: UsageFilter = {},
+    byUser: boolean = false,
+  ): Promise<UsageSummary[]> {
+    const { names, ...fields } = filter;
+    const query: Record<string, any> = {};
+    for (const [field, value] of Object.entries(fields)) {
+      if (value !== undefined) {
+        query[field] = value;
+      }
+    }
+    if (names) {
+      query.name = { $in: names };
+    }
+    const stats = await UsageStat.find(query).lean<IUsageStat[]>();
+
+    const groups = new Map<string, IUsageStat[]>();
+    for (const stat of stats) {
+      const key = `${stat.kind}|${stat.creator ?? ""}|${stat.name}`;
+      if (!groups.has(key)) {
+        groups.set(key, []);
+      }
+      groups.get(key)!.push(stat);
+    }
+
+    return Array.from(groups.values())
+      .map((group) => this.summarize(group, byUser))
+      .sort((a, b) => b.callCount - a.callCount);
+  }
+
+  private summarize(stats: IUsageStat[], byUser: boolean): UsageSummary {
+    const { kind, name, creator } = stats[0];
+    const callCount = stats.reduce((sum, s) => sum + s.callCount, 0);
+    const errorCount = stats.reduce((sum, s) => sum + s.errorCount, 0);
+    const totalDurationMs = stats.reduce((sum, s) => sum + s.totalDurationMs, 0);
+    const buckets = mergeLatencyBuckets(stats.map((s) => s.latencyBuckets));
+    const lastUsed = new Date(
+      Math.max(...stats.map((s) => new Date(s.lastUsed).getTime())),
+    );
+    return {
+      kind,
+      name,
+      ...(creator ? { creator } : {}),
+      callCount,
+      errorCount,
+      errorRate: callCount ? errorCount / callCount : 0,
+      avgMs: callCount ? Math.round(totalDurationMs / callCount) : 0,
+      p50Ms: latencyPercentile(buckets, 50),
+      p95Ms: latencyPercentile(buckets, 95),
+      lastUsed,
+      users: stats.length,
+      ...(byUser
+        ? {
+            byUser: stats
+              .map((s) => ({
+                userEmail: s.userEmail,
+                callCount: s.callCount,
+                errorCount: s.errorCount,
+                lastUsed: s.lastUsed,
+              }))
+              .sort((a, b) => b.callCount - a.callCount),
+          }
+        : {}),
+    };
+  }
+}
@@ -1,6 +1,19 @@
-import { User, IUser } from "../models/User.js";
+import {
+  User,
+  IUser,
+  IUserWithApiKey,
+  ApiKey,
+  ApiKeyScope,
+  DEFAULT_API_KEY_NAME,
+} from "../models/User.js";
 import { Tool } from "../models/Tool.js";
-import { randomUUID } from "crypto";
+import {
+  generateApiKey,
+  getApiKeyPrefix,
+  hashApiKey,
+  isApiKeyExpired,
+  verifyApiKey,
+} from "../../utils/apiKeys.js";
 import { sendEmail } from "../../services/EmailService.js";
 import { config } from "../../config/index.js";
 
@@ -10,17 +23,143 @@ export class UserRepository {
     return doc ? doc.toJSON() : null;
   }
 
-  async create(user: Partial<IUser>): Promise<IUser> {
+  /**
+   * Create a user with a freshly generated default API key.
+   * Only the hash is stored; the plaintext key is returned once to the caller.
+   */
+  async create(user: Partial<IUser>): Promise<IUserWithApiKey> {
     if (!user.email) {
       throw new Error("User email is required");
     }
-    // Auto-generate apiKey if not provided
-    if (!user.apiKey) {
-      user.apiKey = randomUUID();
-    }
-    const newUser = new User(user);
+    const apiKey = generateApiKey();
+    const newUser = new User({
+      ...user,
+      apiKeys: [await buildApiKey(DEFAULT_API_KEY_NAME, apiKey)],
+    });
     const saved = await newUser.save();
-    return saved.toJSON();
+    return { ...saved.toJSON(), apiKey };
+  }
+
+  /**
+   * Revoke all of a user's API keys and issue a single new default key.
+   * Returns the user with the new plaintext key, or null if the user does not exist.
+   */
+  async resetApiKey(
+    email: string,
+    apiKey: string = generateApiKey(),
+  ): Promise<IUserWithApiKey | null> {
+    const doc = await User.findOneAndUpdate(
+      { email },
+      { $set: { apiKeys: [await buildApiKey(DEFAULT_API_KEY_NAME, apiKey)] } },
+      { new: true },
+    );
+    return doc ? { ...doc.toJSON(), apiKey } : null;
+  }
+
+  /**
+   * Replace the user's default API key, leaving their named keys alone.
+   */
+  async setDefaultApiKey(email: string, apiKey: string): Promise<void> {
+    const key = await buildApiKey(DEFAULT_API_KEY_NAME, apiKey);
+    // MongoDB cannot pull from and push to the same array in one update
+    await User.updateOne(
+      { email },
+      { $pull: { apiKeys: { name: DEFAULT_API_KEY_NAME } } },
+    );
+    await User.updateOne({ email }, { $push: { apiKeys: key } });
+  }
+
+  /**
+   * Add a named API key for a user. Returns the key metadata and the
+   * plaintext key, which is not retrievable afterwards.
+   */
+  async createApiKey(
+    email: string,
+    options: { name: string; expiresAt?: Date; scope?: ApiKeyScope },
+  ): Promise<{ apiKey: string; key: Omit<ApiKey, "hash"> }> {
+    const apiKey = generateApiKey();
+    const { hash, ...key } = await buildApiKey(
+      options.name,
+      apiKey,
+      options.expiresAt,
+      options.scope,
+    );
+    const doc = await User.findOneAndUpdate(
+      { email, "apiKeys.name": { $ne: options.name } },
+      { $push: { apiKeys: { ...key, hash } } },
+      { new: true },
+    );
+    if (!doc) {
+      if (await User.exists({ email })) {
+        throw new Error(`An API key named '${options.name}' already exists`);
+      }
+      throw new Error(`User '${email}' not found`);
+    }
+    return { apiKey, key };
+  }
+
+  /**
+   * List a user's API keys (never including hashes).
+   */
+  async listApiKeys(email: string): Promise<Omit<ApiKey, "hash">[] | null> {
+    const user = await this.findByEmail(email);
+    return user ? user.apiKeys || [] : null;
+  }
+
+  /**
+   * Remove a named API key. Returns false if no such key exists.
+   */
+  async revokeApiKey(email: string, name: string): Promise<boolean> {
+    const result = await User.updateOne(
+      { email, "apiKeys.name": name },
+      { $pull: { apiKeys: { name } } },
+    );
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Whether the user still holds the key with this name and prefix. A key
+   * reissued under the same name (e.g. by reset-api-key) has another prefix.
+   */
+  async hasApiKey(email: string, name: string, prefix: string): Promise<boolean> {
+    const doc = await User.exists({
+      email,
+      apiKeys: { $elemMatch: { name, prefix } },
+    });
+    return !!doc;
+  }
+
+  /**
+   * Find the user and key matching a plaintext API key, including expired keys
+   * so that callers can report expiry.
+   */
+  async findApiKey(
+    apiKey: string,
+  ): Promise<{ user: IUser; key: Omit<ApiKey, "hash"> } | null> {
+    const prefix = getApiKeyPrefix(apiKey);
+    const candidates = await User.find({ "apiKeys.prefix": prefix }).select(
+      "+apiKeys.hash",
+    );
+    for (const doc of candidates) {
+      for (const [index, key] of (doc.apiKeys || []).entries()) {
+        if (key.prefix === prefix && (await verifyApiKey(apiKey, key.hash))) {
+          // toJSON leaves the hashes out
+          const user: IUser = doc.toJSON();
+          return { user, key: user.apiKeys![index] };
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Record that a key was just used to authenticate.
+   */
+  async touchApiKey(email: string, name: string): Promise<void> {
+    await User.updateOne(
+      { email, "apiKeys.name": name },
+      { $set: { "apiKeys.$.lastUsedAt": new Date() } },
+    );
   }
 
   async updateUser(
@@ -115,41 +254,140 @@ export class UserRepository {
     return doc ? doc.toJSON() : null;
   }
 
-  static async ensureAdminUser(email: string, logger: any): Promise<void> {
-    const existing = await User.findOne({ email });
+  /**
+   * Share a resource (uri or uriTemplate) with a user
+   */
+  async shareResource(
+    email: string,
+    uri: string,
+    sharedBy: string,
+  ): Promise<IUser | null> {
+    const doc = await User.findOneAndUpdate(
+      { email, "sharedResources.uri": { $ne: uri } },
+      { $push: { sharedResources: { uri, sharedBy, sharedAt: new Date() } } },
+      { new: true },
+    );
+    return doc ? doc.toJSON() : this.findByEmail(email);
+  }
+
+  async unshareResource(email: string, uri: string): Promise<IUser | null> {
+    const doc = await User.findOneAndUpdate(
+      { email },
+      { $pull: { sharedResources: { uri } } },
+      { new: true },
+    );
+    return doc ? doc.toJSON() : null;
+  }
+
+  /**
+   * Create the admin user if missing.
+   * If initialApiKey is given (MCP_ADMIN_API_KEY), the admin's default key is
+   * set to it unless one of their keys already matches; named keys are kept.
+   * Otherwise a key is generated on creation and delivered by email.
+   */
+  static async ensureAdminUser(
+    email: string,
+    logger: any,
+    initialApiKey?: string,
+  ): Promise<void> {
+    const repo = new UserRepository();
+    const existing = await User.findOne({ email }).select("+apiKeys.hash");
     if (!existing) {
-      await User.findOneAndUpdate(
-        { email },
-        {
-          $setOnInsert: {
-            email,
-            roles: ["admin"],
-            name: "Admin User",
-          },
-        },
-        { upsert: true, new: true },
-      );
+      const adminUser = await repo.create({
+        email,
+        roles: ["admin"],
+        name: "Admin User",
+      });
+      if (initialApiKey) {
+        await repo.setDefaultApiKey(email, initialApiKey);
+      }
       logger.info(`Admin user created: ${email}`);
-      // Send connection instructions email to the admin
-      const adminUser = await User.findOne({ email });
-      if (adminUser) {
-        // Use the instance method, so create a temp instance
-        const repo = new UserRepository();
-        await repo.sendConnectionInstructionsEmail(
-          adminUser,
-          "Welcome! Your admin account has been created. Here are your credentials and instructions to connect to the MCP server.",
-        );
+      if (!initialApiKey) {
+        // The generated key is only ever shown in this email
+        let sent = false;
+        try {
+          sent = await repo.sendConnectionInstructionsEmail(
+            adminUser,
+            "Welcome! Your admin account has been created. Here are your credentials and instructions to connect to the MCP server.",
+          );
+        } catch (error) {
+          logger.error(`Failed to email the admin API key to ${email}: ${error}`);
+        }
+        if (!sent) {
+          // Otherwise the key would be lost; show it this once, outside the logs
+          process.stderr.write(
+            `\nThe admin API key could not be emailed. It is shown only this once; store it now.\n` +
+              `Admin: ${email}\nAPI key: ${adminUser.apiKey}\n\n`,
+          );
+        }
       }
     } else {
       logger.info(`Admin user exists: ${email}`);
+      if (initialApiKey) {
+        let matches = false;
+        for (const key of existing.apiKeys || []) {
+          if (await verifyApiKey(initialApiKey, key.hash)) {
+            matches = true;
+            break;
+          }
+        }
+        if (!matches) {
+          await repo.setDefaultApiKey(email, initialApiKey);
+          logger.info(`[AUTH] Admin API key set from MCP_ADMIN_API_KEY: ${email}`);
+        }
+      }
     }
-    // Log the admin user's apiKey for admin visibility
-    const adminUser = await User.findOne({ email });
-    if (adminUser) {
-      logger.info(
-        `[AUTH] Admin user: email=${adminUser.email}, apiKey=${adminUser.apiKey}`,
+  }
+
+  /**
+   * Move API keys stored by earlier versions into the apiKeys array as the
+   * "default" key: plaintext `apiKey` values are hashed, single
+   * `apiKeyHash`/`apiKeyPrefix` pairs are moved as-is. Also drops the old
+   * unique index on the plaintext field.
+   */
+  static async migrateLegacyApiKeys(logger: any): Promise<number> {
+    const collection = User.db.collection<LegacyUser>(
+      User.collection.collectionName,
+    );
+    try {
+      if (await collection.indexExists("apiKey_1")) {
+        await collection.dropIndex("apiKey_1");
+        logger.info("[AUTH] Dropped legacy apiKey index");
+      }
+    } catch (error) {
+      logger.warn(`[AUTH] Could not drop legacy apiKey index: ${error}`);
+    }
+
+    let migrated = 0;
+    const legacyUsers = collection.find({
+      $or: [
+        { apiKey: { $type: "string" } },
+        { apiKeyHash: { $type: "string" } },
+      ],
+    });
+    for await (const legacy of legacyUsers) {
+      const key =
+        typeof legacy.apiKey === "string"
+          ? await buildApiKey(DEFAULT_API_KEY_NAME, legacy.apiKey)
+          : {
+              name: DEFAULT_API_KEY_NAME,
+              hash: legacy.apiKeyHash!,
+              prefix: legacy.apiKeyPrefix!,
+              createdAt: new Date(),
+            };
+      await collection.updateOne(
+        { _id: legacy._id },
+        {
+          $push: { apiKeys: key },
+          $unset: { apiKey: "", apiKeyHash: "", apiKeyPrefix: "" },
+        },
       );
+      migrated++;
+    }
+    if (migrated > 0) {
+      logger.info(`[AUTH] Migrated ${migrated} legacy API key(s)`);
     }
+    return migrated;
   }
 
   async removeUser(email: string): Promise<boolean> {
@@ -229,9 +467,15 @@ export class UserRepository {
     });
   }
 
+  /**
+   * Find the user owning a valid (unexpired) API key.
+   */
   async findByApiKey(apiKey: string): Promise<IUser | null> {
-    const doc = await User.findOne({ apiKey });
-    return doc ? doc.toJSON() : null;
+    const match = await this.findApiKey(apiKey);
+    if (!match || isApiKeyExpired(match.key)) {
+      return null;
+    }
+    return match.user;
   }
 
   /**
@@ -267,11 +511,12 @@ export class UserRepository {
    * Send an email to the user with MCP server connection details and a custom message.
    * @param user The user object (must have email, name, apiKey)
    * @param customMessage A custom message to display at the top of the email
+   * @returns Whether the email was sent
    */
   async sendConnectionInstructionsEmail(
     user: { email: string; name?: string; apiKey: string },
     customMessage: string,
-  ) {
+  ): Promise<boolean> {
     const mcpName = config.server.mcpName;
     const serverUrl =
       config.server.url || "http(s)://<your-mcp-server-host>:<port>";
@@ -307,7 +552,8 @@ export class UserRepository {
       <p>If you have any questions, ${contactLine}</p>
       <p>Thank you!</p>
     `;
-    await sendEmail({ to: user.email, subject, html });
+    const result = await sendEmail({ to: user.email, subject, html });
+    return "ErrorCode" in result && result.ErrorCode === 0;
   }
   /**
    * Remove a tool from hiddenTools arrays of users who had access to it.
@@ -352,3 +598,26 @@ export class UserRepository {
     );
   }
 }
+
+// A user document as stored by versions before named API keys
+type LegacyUser = IUser & {
+  apiKey?: string;
+  apiKeyHash?: string;
+  apiKeyPrefix?: string;
+};
+
+async function buildApiKey(
+  name: string,
+  apiKey: string,
+  expiresAt?: Date,
+  scope?: ApiKeyScope,
+): Promise<ApiKey> {
+  return {
+    name,
+    hash: await hashApiKey(apiKey),
+    prefix: getApiKeyPrefix(apiKey),
+    createdAt: new Date(),
+    ...(expiresAt ? { expiresAt } : {}),
+    ...(scope ? { scope } : {}),
+  };
+}
@@ -0,0 +1,65 @@
+import { jest } from "@jest/globals";
+import { AuditEventRepository } from "../AuditEventRepository.js";
+import { AuditEvent } from "../../models/AuditEvent.js";
+
+describe("AuditEventRepository (mocked)", () => {
+  const event = {
+    timestamp: new Date("2026-01-01T00:00:00.000Z"),
+    userEmail: "a@example.com",
+    tool: "list-users",
+    outcome: "success" as const,
+    durationMs: 5,
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("sets the expiry from the retention period", async () => {
+    const create = jest
+      .spyOn(AuditEvent, "create")
+      .mockResolvedValue({} as any);
+    await new AuditEventRepository(30).record(event);
+    expect(create).toHaveBeenCalledWith({
+      ...event,
+      expiresAt: new Date("2026-01-31T00:00:00.000Z"),
+    });
+  });
+
+  it("keeps events forever with a retention of 0", async () => {
+    const create = jest
+      .spyOn(AuditEvent, "create")
+      .mockResolvedValue({} as any);
+    await new AuditEventRepository(0).record(event);
+    expect(create).toHaveBeenCalledWith(event);
+  });
+
+  it("queries by the given filters, newest first", async () => {
+    const limit = jest.fn(() => ({ lean: async () => [event] }));
+    const skip = jest.fn(() => ({ limit }));
+    const sort = jest.fn(() => ({ skip }));
+    const find = jest
+      .spyOn(AuditEvent, "find")
+      .mockReturnValue({ sort } as any);
+    jest.spyOn(AuditEvent, "countDocuments").mockResolvedValue(42 as never);
+    const since = new Date("2026-01-01T00:00:00.000Z");
+
+    const result = await new AuditEventRepository().query({
+      userEmail: "a@example.com",
+      outcome: "denied",
+      tool: undefined,
+      since,
+      limit: 10,
+    });
+
+    expect(find).toHaveBeenCalledWith({
+      userEmail: "a@example.com",
+      outcome: "denied",
+      timestamp: { $gte: since },
+    }, { _id: 0, __v: 0, expiresAt: 0 });
+    expect(sort).toHaveBeenCalledWith({ timestamp: -1 });
+    expect(skip).toHaveBeenCalledWith(0);
+    expect(limit).toHaveBeenCalledWith(10);
+    expect(result).toEqual({ events: [event], total: 42 });
+  });
+});
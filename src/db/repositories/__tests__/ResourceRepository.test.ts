@@ -0,0 +1,60 @@
+import { jest } from "@jest/globals";
+import { ResourceRepository } from "../ResourceRepository.js";
+import { Resource } from "../../models/Resource.js";
+
+describe("ResourceRepository (mocked)", () => {
+  const mockFind = () => {
+    const lean = jest.fn(async () => []);
+    const find = jest
+      .spyOn(Resource, "find")
+      .mockReturnValue({ lean } as any);
+    return find;
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("applies the tool access rules: shared, own, system and permitted roles", async () => {
+    const find = mockFind();
+    await new ResourceRepository().getResourcesForUser({
+      email: "a@example.com",
+      roles: ["user"],
+      sharedResources: [
+        { uri: "docs://shared", sharedBy: "b@example.com", sharedAt: new Date() },
+      ],
+    });
+    expect(find).toHaveBeenCalledWith({
+      $or: [
+        { uri: { $in: ["docs://shared"] } },
+        { uriTemplate: { $in: ["docs://shared"] } },
+        { creator: "a@example.com" },
+        { creator: "system" },
+        { rolesPermitted: { $in: ["user"] } },
+      ],
+    });
+  });
+
+  it("gives admins every resource", async () => {
+    const find = mockFind();
+    await new ResourceRepository().getResourcesForUser({
+      email: "admin@example.com",
+      roles: ["admin"],
+    });
+    expect(find).toHaveBeenCalledWith({});
+  });
+
+  it("upserts by uri or uriTemplate", async () => {
+    const updateOne = jest
+      .spyOn(Resource, "updateOne")
+      .mockResolvedValue({} as any);
+    const repo = new ResourceRepository();
+    const handler = { type: "docs", config: {} };
+    await repo.upsert({ uri: "docs://a", name: "a", handler, creator: "docs" });
+    await repo.upsert({ uriTemplate: "docs://{p}", name: "p", handler, creator: "docs" });
+    expect(updateOne.mock.calls.map((call) => call[0])).toEqual([
+      { uri: "docs://a" },
+      { uriTemplate: "docs://{p}" },
+    ]);
+  });
+});
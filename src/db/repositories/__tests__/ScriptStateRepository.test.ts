@@ -0,0 +1,51 @@
+import { jest } from "@jest/globals";
+import { ScriptStateRepository } from "../ScriptStateRepository.js";
+import { ScriptState } from "../../models/ScriptState.js";
+
+describe("ScriptStateRepository (mocked)", () => {
+  const repo = new ScriptStateRepository();
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("reads a value, or undefined when none is stored", async () => {
+    const lean = jest.fn<() => Promise<any>>().mockResolvedValueOnce({ value: { n: 1 } });
+    const findOne = jest
+      .spyOn(ScriptState, "findOne")
+      .mockReturnValue({ lean } as any);
+
+    await expect(repo.getValue("a@example.com", "b@example.com:counter", "n")).resolves.toEqual({ n: 1 });
+    expect(findOne).toHaveBeenCalledWith({
+      userEmail: "a@example.com",
+      tool: "b@example.com:counter",
+      key: "n",
+    });
+
+    lean.mockResolvedValueOnce(null);
+    await expect(repo.getValue("a@example.com", "b@example.com:counter", "n")).resolves.toBeUndefined();
+  });
+
+  it("upserts a value", async () => {
+    const updateOne = jest
+      .spyOn(ScriptState, "updateOne")
+      .mockResolvedValue({} as any);
+
+    await repo.setValue("a@example.com", "b@example.com:counter", "n", 2);
+
+    expect(updateOne).toHaveBeenCalledWith(
+      { userEmail: "a@example.com", tool: "b@example.com:counter", key: "n" },
+      { $set: { value: 2 } },
+      { upsert: true },
+    );
+  });
+
+  it("deletes all the values of a tool", async () => {
+    const deleteMany = jest
+      .spyOn(ScriptState, "deleteMany")
+      .mockResolvedValue({ deletedCount: 4 } as any);
+
+    await expect(repo.deleteTool("b@example.com:counter")).resolves.toBe(4);
+    expect(deleteMany).toHaveBeenCalledWith({ tool: "b@example.com:counter" });
+  });
+});
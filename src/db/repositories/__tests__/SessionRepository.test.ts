@@ -0,0 +1,64 @@
+import { jest } from "@jest/globals";
+import { SessionRepository } from "../SessionRepository.js";
+import { Session } from "../../models/Session.js";
+
+describe("SessionRepository (mocked)", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("only closes and touches sessions that are still open", async () => {
+    const updateOne = jest
+      .spyOn(Session, "updateOne")
+      .mockResolvedValue({} as any);
+    const repo = new SessionRepository();
+
+    await repo.touch("s1", new Date(1000));
+    await repo.markClosed("s1", { reason: "idle", message: "expired" });
+
+    expect(updateOne).toHaveBeenNthCalledWith(
+      1,
+      { sessionId: "s1", closed: { $exists: false } },
+      { $max: { lastUsed: new Date(1000) } },
+    );
+    expect(updateOne).toHaveBeenNthCalledWith(
+      2,
+      { sessionId: "s1", closed: { $exists: false } },
+      {
+        $set: {
+          closed: { reason: "idle", message: "expired" },
+          closedAt: expect.any(Date),
+        },
+      },
+    );
+  });
+
+  it("maps stored documents to sessions", async () => {
+    const doc = {
+      _id: "abc",
+      sessionId: "s1",
+      userEmail: "a@example.com",
+      clientName: "cursor",
+      clientVersion: "1.0.0",
+      createdAt: new Date(0),
+      lastUsed: new Date(0),
+    };
+    jest
+      .spyOn(Session, "findOne")
+      .mockReturnValue({ lean: async () => doc } as any);
+
+    const session = await new SessionRepository().get("s1");
+
+    expect(session).toEqual({
+      sessionId: "s1",
+      userEmail: "a@example.com",
+      clientName: "cursor",
+      clientVersion: "1.0.0",
+      apiKeyScope: undefined,
+      apiKey: undefined,
+      createdAt: new Date(0),
+      lastUsed: new Date(0),
+      closed: undefined,
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { jest } from "@jest/globals";
+import mongoose from "mongoose";
+import { StreamEventRepository } from "../StreamEventRepository.js";
+import { StreamEvent } from "../../models/StreamEvent.js";
+
+describe("StreamEventRepository (mocked)", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("stores events with an expiry based on the retention window", async () => {
+    const id = new mongoose.Types.ObjectId();
+    const create = jest
+      .spyOn(StreamEvent, "create")
+      .mockResolvedValue({ _id: id } as any);
+    const repo = new StreamEventRepository("session-1", 60 * 1000);
+
+    const eventId = await repo.storeEvent("_GET_stream", {
+      jsonrpc: "2.0",
+      method: "notifications/tools/list_changed",
+    });
+
+    expect(eventId).toBe(id.toString());
+    const [doc] = create.mock.calls[0] as any[];
+    expect(doc).toMatchObject({ sessionId: "session-1", streamId: "_GET_stream" });
+    expect(doc.expiresAt.getTime()).toBeGreaterThan(Date.now() + 59 * 1000);
+  });
+
+  it("only replays events of its own session", async () => {
+    const findOne = jest
+      .spyOn(StreamEvent, "findOne")
+      .mockReturnValue({ lean: async () => null } as any);
+    const repo = new StreamEventRepository("session-1");
+    const eventId = new mongoose.Types.ObjectId().toString();
+
+    await expect(
+      repo.replayEventsAfter(eventId, { send: async () => {} }),
+    ).rejects.toThrow(/unknown or has expired/);
+    expect(findOne).toHaveBeenCalledWith({
+      _id: eventId,
+      sessionId: "session-1",
+    });
+    await expect(
+      repo.replayEventsAfter("not-an-id", { send: async () => {} }),
+    ).rejects.toThrow(/unknown or has expired/);
+  });
+});
@@ -0,0 +1,133 @@
+import { jest } from "@jest/globals";
+import { UsageStatRepository } from "../UsageStatRepository.js";
+import { UsageStat } from "../../models/UsageStat.js";
+import { Tool } from "../../models/Tool.js";
+import { Prompt } from "../../models/Prompt.js";
+
+describe("UsageStatRepository (mocked)", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("increments the counters and the tool's lastUsed", async () => {
+    const updateStat = jest
+      .spyOn(UsageStat, "updateOne")
+      .mockResolvedValue({} as any);
+    const updateTool = jest
+      .spyOn(Tool, "updateOne")
+      .mockResolvedValue({} as any);
+
+    await new UsageStatRepository().recordUsage({
+      kind: "tool",
+      name: "list-users",
+      creator: "system",
+      userEmail: "a@example.com",
+      durationMs: 40,
+      error: true,
+    });
+
+    expect(updateStat).toHaveBeenCalledWith(
+      {
+        kind: "tool",
+        name: "list-users",
+        userEmail: "a@example.com",
+        creator: "system",
+      },
+      {
+        $inc: {
+          callCount: 1,
+          errorCount: 1,
+          totalDurationMs: 40,
+          "latencyBuckets.2": 1,
+        },
+        $max: { lastUsed: expect.any(Date) },
+      },
+      { upsert: true },
+    );
+    expect(updateTool).toHaveBeenCalledWith(
+      { name: "list-users", creator: "system" },
+      { $max: { lastUsed: expect.any(Date) } },
+      { timestamps: false },
+    );
+  });
+
+  it("updates the lastUsed of the creator's prompt for prompts", async () => {
+    jest.spyOn(UsageStat, "updateOne").mockResolvedValue({} as any);
+    const updatePrompt = jest
+      .spyOn(Prompt, "updateOne")
+      .mockResolvedValue({} as any);
+    await new UsageStatRepository().recordUsage({
+      kind: "prompt",
+      name: "summarize",
+      creator: "b@example.com",
+      userEmail: "a@example.com",
+      durationMs: 5,
+      error: false,
+    });
+    expect(updatePrompt).toHaveBeenCalledWith(
+      { name: "summarize", createdBy: "b@example.com" },
+      { $max: { lastUsed: expect.any(Date) } },
+      { timestamps: false },
+    );
+  });
+
+  it("sums the counters of all users per tool, busiest first", async () => {
+    const stat = (name: string, userEmail: string, callCount: number) => ({
+      kind: "tool",
+      name,
+      creator: "system",
+      userEmail,
+      callCount,
+      errorCount: 1,
+      totalDurationMs: callCount * 20,
+      latencyBuckets: { 1: callCount },
+      lastUsed: new Date(`2026-01-0${callCount}T00:00:00.000Z`),
+    });
+    const lean = jest.fn(async () => [
+      stat("list-users", "a@example.com", 1),
+      stat("add-user", "a@example.com", 2),
+      stat("add-user", "b@example.com", 3),
+    ]);
+    const find = jest
+      .spyOn(UsageStat, "find")
+      .mockReturnValue({ lean } as any);
+
+    const [addUser, listUsers] = await new UsageStatRepository().getUsage(
+      { kind: "tool", name: undefined },
+      true,
+    );
+
+    expect(find).toHaveBeenCalledWith({ kind: "tool" });
+    expect(listUsers.name).toBe("list-users");
+    expect(addUser).toMatchObject({
+      name: "add-user",
+      creator: "system",
+      callCount: 5,
+      errorCount: 2,
+      errorRate: 0.4,
+      avgMs: 20,
+      p50Ms: 25,
+      p95Ms: 25,
+      lastUsed: new Date("2026-01-03T00:00:00.000Z"),
+      users: 2,
+    });
+    expect(addUser.byUser!.map((u) => u.userEmail)).toEqual([
+      "b@example.com",
+      "a@example.com",
+    ]);
+  });
+
+  it("looks up only the named tools", async () => {
+    const find = jest
+      .spyOn(UsageStat, "find")
+      .mockReturnValue({ lean: async () => [] } as any);
+    await new UsageStatRepository().getUsage({
+      kind: "tool",
+      names: ["add-user", "list-users"],
+    });
+    expect(find).toHaveBeenCalledWith({
+      kind: "tool",
+      name: { $in: ["add-user", "list-users"] },
+    });
+  });
+});
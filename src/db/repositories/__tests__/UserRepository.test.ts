@@ -1,6 +1,7 @@
 import { jest } from "@jest/globals";
 import { UserRepository } from "../UserRepository.js";
-import { IUser } from "../../models/User.js";
+import { IUser, User } from "../../models/User.js";
+import { hashApiKey } from "../../../utils/apiKeys.js";
 
 describe("UserRepository (mocked)", () => {
   const now = new Date();
@@ -11,7 +12,6 @@ describe("UserRepository (mocked)", () => {
     updatedAt: now,
     roles: ["user"],
     sharedTools: [],
-    apiKey: "test-key",
     hiddenTools: [],
   });
 
@@ -22,7 +22,7 @@ describe("UserRepository (mocked)", () => {
   it("should create, find, update, and delete a user", async () => {
     const repo = new UserRepository();
     const user = minimalUser("test@example.com");
-    jest.spyOn(repo, "create").mockResolvedValue(user);
+    jest.spyOn(repo, "create").mockResolvedValue({ ...user, apiKey: "mcp_test" });
     const findByEmailMock = jest
       .spyOn(repo, "findByEmail")
       .mockResolvedValue(user);
@@ -51,12 +51,12 @@ describe("UserRepository (mocked)", () => {
         {
           toolId: "baz",
           sharedBy: "b@example.com",
-          accessLevel: "read",
+          accessLevel: "read" as const,
           sharedAt: now,
         },
       ],
     };
-    jest.spyOn(repo, "create").mockResolvedValue(user);
+    jest.spyOn(repo, "create").mockResolvedValue({ ...user, apiKey: "mcp_test" });
     jest.spyOn(repo, "updateUser").mockResolvedValue(updatedUser);
     jest.spyOn(repo, "findByEmail").mockResolvedValue(updatedUser);
     await repo.create(user);
@@ -75,7 +75,7 @@ describe("UserRepository (mocked)", () => {
         {
           toolId: "bar",
           sharedBy: "d@example.com",
-          accessLevel: "read",
+          accessLevel: "read" as const,
           sharedAt: now,
         },
       ],
@@ -111,11 +111,64 @@ describe("UserRepository (mocked)", () => {
     );
   });
 
+  it("should show a generated admin key once when it cannot be emailed", async () => {
+    jest.restoreAllMocks();
+    const logger = { info: jest.fn(), error: jest.fn() };
+    jest
+      .spyOn(User, "findOne")
+      .mockReturnValue({ select: async () => null } as any);
+    jest.spyOn(UserRepository.prototype, "create").mockResolvedValue({
+      ...minimalUser("admin@example.com"),
+      roles: ["admin"],
+      apiKey: "generated-key",
+    });
+    const sendEmail = jest
+      .spyOn(UserRepository.prototype, "sendConnectionInstructionsEmail")
+      .mockResolvedValueOnce(true)
+      .mockResolvedValueOnce(false);
+    const stderr = jest
+      .spyOn(process.stderr, "write")
+      .mockImplementation(() => true);
+
+    await UserRepository.ensureAdminUser("admin@example.com", logger);
+    expect(stderr).not.toHaveBeenCalled();
+
+    await UserRepository.ensureAdminUser("admin@example.com", logger);
+    expect(sendEmail).toHaveBeenCalledTimes(2);
+    expect(stderr).toHaveBeenCalledTimes(1);
+    expect(stderr).toHaveBeenCalledWith(expect.stringContaining("API key: generated-key"));
+    jest.restoreAllMocks();
+  });
+
+  it("should only replace the admin's default key when MCP_ADMIN_API_KEY changes", async () => {
+    jest.restoreAllMocks();
+    const logger = { info: jest.fn() };
+    const existing = {
+      email: "admin@example.com",
+      apiKeys: [{ name: "ci", hash: await hashApiKey("named-key") }],
+    };
+    jest
+      .spyOn(User, "findOne")
+      .mockReturnValue({ select: async () => existing } as any);
+    const setDefault = jest
+      .spyOn(UserRepository.prototype, "setDefaultApiKey")
+      .mockResolvedValue();
+    const reset = jest.spyOn(UserRepository.prototype, "resetApiKey");
+
+    await UserRepository.ensureAdminUser("admin@example.com", logger, "named-key");
+    expect(setDefault).not.toHaveBeenCalled();
+
+    await UserRepository.ensureAdminUser("admin@example.com", logger, "env-key");
+    expect(setDefault).toHaveBeenCalledWith("admin@example.com", "env-key");
+    expect(reset).not.toHaveBeenCalled();
+    jest.restoreAllMocks();
+  });
+
   it("should not return tools that are in hiddenTools via getUserTools", async () => {
     const repo = new UserRepository();
     const user = { ...minimalUser("test@example.com"), hiddenTools: ["bar"] };
     const allTools = [{ name: "foo" }, { name: "bar" }, { name: "baz" }];
-    jest.spyOn(repo, "create").mockResolvedValue(user);
+    jest.spyOn(repo, "create").mockResolvedValue({ ...user, apiKey: "mcp_test" });
     jest
       .spyOn(repo, "getUserTools")
       .mockResolvedValue([{ name: "foo" }, { name: "baz" }]);
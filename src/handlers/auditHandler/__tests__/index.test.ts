@@ -0,0 +1,63 @@
+import { jest } from "@jest/globals";
+import { auditHandlerPackage } from "../index.js";
+import { AuditEventRepository } from "../../../db/repositories/AuditEventRepository.js";
+
+describe("auditHandlerPackage.handler", () => {
+  const handler = auditHandlerPackage.handler;
+  const context = { user: { email: "admin@example.com" } };
+  const events = [
+    {
+      timestamp: new Date("2026-01-01T00:00:00.000Z"),
+      userEmail: "a@example.com",
+      tool: "delete-user",
+      handler: "user-management",
+      outcome: "success" as const,
+      durationMs: 5,
+    },
+  ];
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("queries the audit log with the given filters", async () => {
+    const query = jest
+      .spyOn(AuditEventRepository.prototype, "query")
+      .mockResolvedValue({ events, total: 1 });
+    const result = await handler(
+      { handler: "user-management", since: "2026-01-01T00:00:00Z" },
+      context,
+      { action: "query" },
+    );
+    expect(query).toHaveBeenCalledWith(
+      expect.objectContaining({
+        handler: "user-management",
+        since: new Date("2026-01-01T00:00:00Z"),
+        limit: 100,
+      }),
+    );
+    expect(result.result).toEqual({ events, total: 1 });
+  });
+
+  it("exports the matching events as CSV", async () => {
+    jest
+      .spyOn(AuditEventRepository.prototype, "query")
+      .mockResolvedValue({ events, total: 1 });
+    const result = await handler({ format: "csv" }, context, {
+      action: "query",
+    });
+    expect(result.content[0].resource).toMatchObject({
+      uri: "audit://export.csv",
+      mimeType: "text/csv",
+    });
+    expect(result.content[0].resource.text).toContain(
+      "2026-01-01T00:00:00.000Z,a@example.com,delete-user",
+    );
+  });
+
+  it("rejects invalid dates", async () => {
+    await expect(
+      handler({ since: "last tuesday" }, context, { action: "query" }),
+    ).rejects.toThrow(/since must be an ISO 8601 date-time/);
+  });
+});
@@ -0,0 +1,65 @@
+import { ToolOutput } from "../../../mcp/types.js";
+import {
+  AuditEventQuery,
+  AuditEventRepository,
+} from "../../../db/repositories/AuditEventRepository.js";
+import { auditEventsToCsv } from "../../../utils/audit.js";
+
+const auditEventRepository = new AuditEventRepository();
+
+function parseTime(name: string, value?: string): Date | undefined {
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`${name} must be an ISO 8601 date-time, got '${value}'`);
+  }
+  return date;
+}
+
+export async function handleQueryAuditLogAction(
+  args: Record<string, any>,
+  _context: any,
+): Promise<ToolOutput> {
+  const filters: AuditEventQuery = {
+    userEmail: args.userEmail,
+    tool: args.tool,
+    handler: args.handler,
+    outcome: args.outcome,
+    sessionId: args.sessionId,
+    since: parseTime("since", args.since),
+    until: parseTime("until", args.until),
+    skip: args.skip,
+    limit: args.limit ?? 100,
+  };
+  const { events, total } = await auditEventRepository.query(filters);
+  const message = `Found ${total} audit event(s), returning ${events.length}`;
+
+  if (args.format === "csv" || args.format === "json") {
+    const csv = args.format === "csv";
+    return {
+      result: { total, exported: events.length, format: args.format },
+      message,
+      content: [
+        {
+          type: "resource",
+          resource: {
+            uri: `audit://export.${args.format}`,
+            mimeType: csv ? "text/csv" : "application/json",
+            text: csv
+              ? auditEventsToCsv(events)
+              : JSON.stringify(events, null, 2),
+          },
+        },
+      ],
+    };
+  }
+
+  return {
+    result: { events, total },
+    message,
+    nextSteps:
+      total > events.length
+        ? ["Narrow the filters or use skip and limit to page through the events."]
+        : [],
+  };
+}
@@ -0,0 +1,40 @@
+import logger from "../../utils/logger.js";
+import { ToolOutput } from "../../mcp/types.js";
+import { auditTools } from "./tools.js";
+import { HandlerFunction, HandlerPackage } from "../../mcp/types.js";
+import { handleQueryAuditLogAction } from "./actions/query.js";
+
+const actionHandlers: Record<
+  string,
+  (
+    args: Record<string, any>,
+    context: any,
+    handlerConfig: { action: string },
+  ) => Promise<ToolOutput>
+> = {
+  query: handleQueryAuditLogAction,
+};
+
+const handler: HandlerFunction = async (
+  args: Record<string, any>,
+  context: any,
+  handlerConfig: { action: string },
+) => {
+  try {
+    const action = handlerConfig.action;
+    const fn = actionHandlers[action];
+    if (!fn) {
+      throw new Error(`Unknown action: ${action}`);
+    }
+    return await fn(args, context, handlerConfig);
+  } catch (error) {
+    logger.error(`Audit handler error: ${error}`);
+    throw error;
+  }
+};
+
+export const auditHandlerPackage: HandlerPackage = {
+  name: "audit",
+  handler,
+  tools: auditTools,
+};
@@ -0,0 +1,70 @@
+import type { ToolDefinition } from "../../mcp/types.js";
+
+export const auditTools: ToolDefinition[] = [
+  {
+    name: "query-audit-log",
+    description:
+      "Search the audit log of tool calls (who called which tool, when, from which session and client, with what outcome). Use format 'csv' or 'json' to export the matching events for an access review.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        userEmail: {
+          type: "string",
+          description: "Only events of this user",
+        },
+        tool: { type: "string", description: "Only calls of this tool" },
+        handler: {
+          type: "string",
+          description:
+            "Only calls handled by this handler package, e.g. user-management",
+        },
+        outcome: {
+          type: "string",
+          enum: ["success", "error", "denied"],
+          description: "Only events with this outcome",
+        },
+        sessionId: {
+          type: "string",
+          description: "Only events of this session",
+        },
+        since: {
+          type: "string",
+          format: "date-time",
+          description: "Only events at or after this ISO 8601 time",
+        },
+        until: {
+          type: "string",
+          format: "date-time",
+          description: "Only events at or before this ISO 8601 time",
+        },
+        skip: { type: "number", description: "Skip N events" },
+        limit: {
+          type: "number",
+          maximum: 10000,
+          description: "Maximum number of events returned (default 100)",
+        },
+        format: {
+          type: "string",
+          enum: ["summary", "json", "csv"],
+          default: "summary",
+          description:
+            "summary lists the events; json and csv export them as an attached file",
+        },
+      },
+    },
+    rolesPermitted: ["admin"],
+    annotations: {
+      title: "Query Audit Log",
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+    handler: {
+      type: "audit",
+      config: {
+        action: "query",
+      },
+    },
+  },
+];
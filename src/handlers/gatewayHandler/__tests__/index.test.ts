@@ -0,0 +1,252 @@
+import { jest } from "@jest/globals";
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { createGatewayHandlerPackage, gatewayCreator } from "../index.js";
+import { HandlerPackage } from "../../../mcp/types.js";
+
+describe("createGatewayHandlerPackage", () => {
+  let upstream: McpServer;
+  let gateway: HandlerPackage;
+  let mcpServer: any;
+  let upstreamSignal: AbortSignal | undefined;
+
+  // Let in-memory messages and notification handlers run
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+  beforeEach(() => {
+    upstream = new McpServer({ name: "upstream", version: "1.0.0" });
+    upstream.registerTool(
+      "echo",
+      {
+        description: "Echo a message",
+        inputSchema: { message: z.string() },
+        annotations: { readOnlyHint: true },
+      },
+      async ({ message }) => ({ content: [{ type: "text", text: `echo: ${message}` }] }),
+    );
+    upstream.registerTool(
+      "count",
+      { description: "Count up, reporting progress", inputSchema: { to: z.number() } },
+      async ({ to }, extra) => {
+        for (let i = 1; i <= to; i++) {
+          await extra.sendNotification({
+            method: "notifications/progress",
+            params: { progressToken: extra._meta!.progressToken!, progress: i, total: to },
+          });
+        }
+        return { content: [{ type: "text", text: String(to) }] };
+      },
+    );
+    upstream.registerTool("wait", { description: "Wait until cancelled" }, async (extra) => {
+      upstreamSignal = extra.signal;
+      await new Promise((resolve) => extra.signal.addEventListener("abort", resolve));
+      return { content: [] };
+    });
+    upstream.registerTool("fail", { description: "Always fails" }, async () => ({
+      isError: true,
+      content: [{ type: "text", text: "upstream broke" }],
+    }));
+    upstream.registerPrompt(
+      "greet",
+      { description: "Greet someone", argsSchema: { name: z.string() } },
+      ({ name }) => ({
+        messages: [{ role: "user", content: { type: "text", text: `Hello ${name}` } }],
+      }),
+    );
+
+    mcpServer = {
+      toolService: {
+        addTool: jest.fn(async () => {}),
+        deleteToolsByCreator: jest.fn(async () => ({ deletedCount: 0 })),
+      },
+      promptService: {
+        addPrompt: jest.fn(async () => {}),
+        deletePromptsByCreator: jest.fn(async () => ({ deletedCount: 0 })),
+      },
+      notifyToolListChanged: jest.fn(async () => {}),
+    };
+    gateway = createGatewayHandlerPackage(mcpServer, [
+      {
+        name: "local",
+        transport: () => {
+          const [clientTransport, serverTransport] =
+            InMemoryTransport.createLinkedPair();
+          upstream.connect(serverTransport);
+          return clientTransport;
+        },
+      },
+    ]);
+  });
+
+  afterEach(async () => {
+    await gateway.shutdown!();
+    await upstream.close();
+  });
+
+  const toolContext = { tool: { name: "local__x", creator: "gateway/local" } };
+  const callTool = (tool: string, args: Record<string, any>, progress?: any, signal?: AbortSignal) =>
+    gateway.handler(args, toolContext, { upstream: "local", tool }, progress, signal);
+
+  it("mirrors the upstream tools and prompts under a namespaced creator", async () => {
+    await gateway.init!();
+
+    const names = mcpServer.toolService.addTool.mock.calls.map(([tool]: any) => tool.name);
+    expect(names).toEqual(["local__echo", "local__count", "local__wait", "local__fail"]);
+    expect(mcpServer.toolService.addTool).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: "local__echo",
+        description: "Echo a message",
+        annotations: { readOnlyHint: true },
+        rolesPermitted: ["admin"],
+        inputSchema: expect.objectContaining({
+          properties: { message: { type: "string" } },
+        }),
+        handler: { type: "gateway", config: { upstream: "local", tool: "echo" } },
+      }),
+      gatewayCreator("local"),
+    );
+    expect(mcpServer.toolService.deleteToolsByCreator).toHaveBeenCalledWith(
+      "gateway/local",
+      names,
+    );
+    expect(mcpServer.promptService.addPrompt).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: "local__greet",
+        arguments: [{ name: "name", required: true }],
+        handler: { type: "gateway", config: { upstream: "local", prompt: "greet" } },
+      }),
+      "gateway/local",
+    );
+    expect(mcpServer.notifyToolListChanged).toHaveBeenCalled();
+  });
+
+  it("forwards tool calls and their progress", async () => {
+    await expect(callTool("echo", { message: "hi" })).resolves.toEqual({
+      content: [{ type: "text", text: "echo: hi" }],
+      structuredContent: undefined,
+    });
+
+    const progress = jest.fn();
+    await callTool("count", { to: 2 }, progress);
+    expect(progress).toHaveBeenCalledWith(1, 2, undefined);
+    expect(progress).toHaveBeenCalledWith(2, 2, undefined);
+  });
+
+  it("forwards prompts", async () => {
+    const result = await gateway.handler(
+      { name: "Ada" },
+      { prompt: { name: "local__greet", creator: "gateway/local" } },
+      { upstream: "local", prompt: "greet" },
+    );
+    expect(result.messages).toEqual([
+      { role: "user", content: { type: "text", text: "Hello Ada" } },
+    ]);
+  });
+
+  it("turns upstream tool errors into errors", async () => {
+    await expect(callTool("fail", {})).rejects.toThrow("upstream broke");
+  });
+
+  it("cancels the upstream call when the call is aborted", async () => {
+    const controller = new AbortController();
+    const call = callTool("wait", {}, undefined, controller.signal);
+    await flush();
+    controller.abort(new Error("client cancelled"));
+    await expect(call).rejects.toThrow("client cancelled");
+    await flush();
+    expect(upstreamSignal?.aborted).toBe(true);
+  });
+
+  it("only lets the mirrored tools call the upstream", async () => {
+    await expect(
+      gateway.handler(
+        { message: "hi" },
+        { tool: { name: "my-proxy", creator: "power@example.com" } },
+        { upstream: "local", tool: "echo" },
+      ),
+    ).rejects.toThrow("Only tools and prompts mirrored from upstream local can call it");
+  });
+
+  it("makes mirrored tools admin-only by default", async () => {
+    await gateway.init!();
+    expect(mcpServer.toolService.addTool).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "local__echo", rolesPermitted: ["admin"] }),
+      "gateway/local",
+    );
+  });
+
+  it("checks health without re-syncing, and re-syncs once a down upstream is back", async () => {
+    await gateway.init!();
+    mcpServer.toolService.addTool.mockClear();
+    await expect(gateway.healthCheck!()).resolves.toMatchObject({
+      status: "ok",
+      details: { upstreams: { local: "ok" } },
+    });
+    expect(mcpServer.toolService.addTool).not.toHaveBeenCalled();
+
+    let available = false;
+    const flaky = createGatewayHandlerPackage(mcpServer, [
+      {
+        name: "flaky",
+        transport: () => {
+          if (!available) {
+            throw new Error("refused");
+          }
+          const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+          upstream.connect(serverTransport);
+          return clientTransport;
+        },
+      },
+    ]);
+    await flaky.init!();
+    available = true;
+    await expect(flaky.healthCheck!()).resolves.toMatchObject({ status: "degraded" });
+    expect(mcpServer.toolService.addTool).not.toHaveBeenCalled();
+
+    await flaky.handler(
+      { message: "back" },
+      { tool: { creator: "gateway/flaky" } },
+      { upstream: "flaky", tool: "echo" },
+    );
+    await flush();
+    expect(mcpServer.toolService.addTool).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "flaky__echo" }),
+      "gateway/flaky",
+    );
+    await flaky.shutdown!();
+  });
+
+  it("re-syncs when the upstream's tool list changes", async () => {
+    await gateway.init!();
+    mcpServer.toolService.addTool.mockClear();
+
+    upstream.registerTool("added", { description: "New tool" }, async () => ({ content: [] }));
+    await flush();
+
+    expect(mcpServer.toolService.addTool).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "local__added" }),
+      "gateway/local",
+    );
+  });
+
+  it("reports unreachable upstreams without failing init", async () => {
+    const broken = createGatewayHandlerPackage(mcpServer, [
+      { name: "broken", transport: () => { throw new Error("refused"); } },
+    ]);
+    await expect(broken.init!()).resolves.toBeUndefined();
+    await expect(broken.healthCheck!()).resolves.toMatchObject({
+      status: "degraded",
+      details: { upstreams: { broken: "down: refused" } },
+    });
+    await expect(
+      broken.handler({}, { tool: { creator: "gateway/broken" } }, { upstream: "broken", tool: "x" }),
+    ).rejects.toThrow("Upstream MCP server 'broken' is unavailable: refused");
+  });
+
+  it("rejects invalid upstream names", () => {
+    expect(() =>
+      createGatewayHandlerPackage(mcpServer, [{ name: "bad name", url: "http://x" }]),
+    ).toThrow("Invalid upstream name 'bad name'");
+  });
+});
@@ -0,0 +1,246 @@
+import logger from "../../utils/logger.js";
+import type { DynamicMcpServer } from "../../mcp/server.js";
+import {
+  HandlerFunction,
+  HandlerPackage,
+  PromptDefinition,
+  ToolDefinition,
+} from "../../mcp/types.js";
+import {
+  ListChangedKind,
+  UpstreamConnection,
+  UpstreamServerConfig,
+} from "./upstream.js";
+
+export type { UpstreamServerConfig } from "./upstream.js";
+
+export const GATEWAY_HANDLER = "gateway";
+
+// Mirrored tools are admin-only unless an upstream's rolesPermitted widens them
+const DEFAULT_ROLES = ["admin"];
+const DEFAULT_REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+const UPSTREAM_NAME = /^[A-Za-z0-9_-]+$/;
+
+/** Creator of the tools and prompts mirrored from an upstream */
+export const gatewayCreator = (upstream: string) =>
+  `${GATEWAY_HANDLER}/${upstream}`;
+
+/**
+ * A handler package that mirrors the tools and prompts of upstream MCP
+ * servers and forwards calls to them, with progress and cancellation, so this
+ * server can be the single authenticated front door to all of them.
+ */
+export function createGatewayHandlerPackage(
+  mcpServer: DynamicMcpServer,
+  upstreams: UpstreamServerConfig[],
+): HandlerPackage {
+  const connections = new Map<string, UpstreamConnection>();
+
+  const prefixOf = (upstream: UpstreamServerConfig) =>
+    upstream.prefix ?? `${upstream.name}__`;
+
+  const syncTools = async (connection: UpstreamConnection) => {
+    const upstream = connection.config;
+    const creator = gatewayCreator(upstream.name);
+    const tools = await connection.listTools();
+    const names: string[] = [];
+    for (const tool of tools) {
+      const definition: ToolDefinition = {
+        name: `${prefixOf(upstream)}${tool.name}`,
+        description: tool.description ?? "",
+        inputSchema: { ...tool.inputSchema, type: "object" },
+        outputSchema: tool.outputSchema && {
+          ...tool.outputSchema,
+          type: "object",
+        },
+        annotations: tool.annotations,
+        rolesPermitted: upstream.rolesPermitted ?? DEFAULT_ROLES,
+        handler: {
+          type: GATEWAY_HANDLER,
+          config: { upstream: upstream.name, tool: tool.name },
+        },
+      };
+      await mcpServer.toolService.addTool(definition, creator);
+      names.push(definition.name);
+    }
+    // Drop the tools the upstream no longer has
+    await mcpServer.toolService.deleteToolsByCreator(creator, names);
+    logger.info(
+      `[GATEWAY] Mirrored ${names.length} tool(s) from upstream ${upstream.name}`,
+    );
+    await mcpServer.notifyToolListChanged();
+  };
+
+  const syncPrompts = async (connection: UpstreamConnection) => {
+    const upstream = connection.config;
+    const creator = gatewayCreator(upstream.name);
+    const prompts = await connection.listPrompts();
+    const names: string[] = [];
+    for (const prompt of prompts) {
+      const definition: PromptDefinition = {
+        name: `${prefixOf(upstream)}${prompt.name}`,
+        description: prompt.description,
+        arguments: prompt.arguments?.map((argument) => ({
+          name: argument.name,
+          description: argument.description,
+          required: argument.required,
+        })),
+        rolesPermitted: upstream.rolesPermitted ?? DEFAULT_ROLES,
+        handler: {
+          type: GATEWAY_HANDLER,
+          config: { upstream: upstream.name, prompt: prompt.name },
+        },
+      };
+      await mcpServer.promptService.addPrompt(definition, creator);
+      names.push(definition.name);
+    }
+    await mcpServer.promptService.deletePromptsByCreator(creator, names);
+    logger.info(
+      `[GATEWAY] Mirrored ${names.length} prompt(s) from upstream ${upstream.name}`,
+    );
+  };
+
+  const sync = async (connection: UpstreamConnection) => {
+    await syncTools(connection);
+    await syncPrompts(connection);
+  };
+
+  for (const upstream of upstreams) {
+    if (!UPSTREAM_NAME.test(upstream.name || "")) {
+      throw new Error(
+        `Invalid upstream name '${upstream.name}': use letters, digits, '-' and '_'`,
+      );
+    }
+    if (connections.has(upstream.name)) {
+      throw new Error(`Duplicate upstream name '${upstream.name}'`);
+    }
+    const connection: UpstreamConnection = new UpstreamConnection(
+      upstream,
+      (kind: ListChangedKind) => {
+        const resync = kind === "tools" ? syncTools : syncPrompts;
+        resync(connection).catch((error) => {
+          logger.error(
+            `[GATEWAY] Failed to re-sync ${kind} of upstream ${upstream.name}: ${error}`,
+          );
+        });
+      },
+      // The upstream may have changed while it was unreachable
+      () => {
+        sync(connection).catch((error) => {
+          logger.error(
+            `[GATEWAY] Failed to re-sync upstream ${upstream.name}: ${error}`,
+          );
+        });
+      },
+    );
+    connections.set(upstream.name, connection);
+  }
+
+  const handler: HandlerFunction = async (
+    args: Record<string, any>,
+    context: any,
+    handlerConfig: { upstream: string; tool?: string; prompt?: string },
+    progress,
+    signal,
+  ) => {
+    const connection = connections.get(handlerConfig.upstream);
+    if (!connection) {
+      throw new Error(`Unknown upstream: ${handlerConfig.upstream}`);
+    }
+    // Only the entries the gateway mirrored may reach an upstream; a user's
+    // own tool of type "gateway" must not
+    const entry = handlerConfig.prompt ? context.prompt : context.tool;
+    if (entry?.creator !== gatewayCreator(handlerConfig.upstream)) {
+      throw new Error(
+        `Only tools and prompts mirrored from upstream ${handlerConfig.upstream} can call it`,
+      );
+    }
+    const client = await connection.connect();
+    const timeout =
+      connection.config.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+
+    if (handlerConfig.prompt) {
+      return await client.getPrompt(
+        { name: handlerConfig.prompt, arguments: args },
+        { signal, timeout },
+      );
+    }
+
+    const result = await client.callTool(
+      { name: handlerConfig.tool!, arguments: args },
+      undefined,
+      {
+        signal,
+        timeout,
+        resetTimeoutOnProgress: true,
+        onprogress: progress
+          ? ({ progress: done, total, message }) =>
+              progress(done, total, message as string | undefined)
+          : undefined,
+      },
+    );
+    const content = (result.content as any[]) ?? [];
+    if (result.isError) {
+      const text = content
+        .filter((item) => item.type === "text")
+        .map((item) => item.text)
+        .join("\n");
+      throw new Error(
+        text || `Tool '${handlerConfig.tool}' failed on upstream ${handlerConfig.upstream}`,
+      );
+    }
+    return {
+      content,
+      structuredContent: result.structuredContent,
+    };
+  };
+
+  return {
+    name: GATEWAY_HANDLER,
+    tools: [],
+    handler,
+    // An unreachable upstream must not stop the server; its tools stay
+    // mirrored from the last sync and the health check reports it
+    init: async () => {
+      await Promise.all(
+        Array.from(connections.values()).map((connection) =>
+          sync(connection).catch((error) => {
+            logger.error(
+              `[GATEWAY] Failed to sync upstream ${connection.config.name}: ${error}`,
+            );
+          }),
+        ),
+      );
+    },
+    // Only pings open connections; upstreams that are down are reconnected,
+    // and re-synced, by the next call to one of their tools
+    healthCheck: async () => {
+      const upstreamStatus: Record<string, string> = {};
+      for (const [name, connection] of connections) {
+        try {
+          await connection.ping();
+          upstreamStatus[name] = "ok";
+        } catch (error) {
+          upstreamStatus[name] = `down: ${
+            error instanceof Error ? error.message : error
+          }`;
+        }
+      }
+      const down = Object.keys(upstreamStatus).filter(
+        (name) => upstreamStatus[name] !== "ok",
+      );
+      return down.length === 0
+        ? { status: "ok", details: { upstreams: upstreamStatus } }
+        : {
+            status: "degraded",
+            message: `Upstream(s) unavailable: ${down.join(", ")}`,
+            details: { upstreams: upstreamStatus },
+          };
+    },
+    shutdown: async () => {
+      await Promise.all(
+        Array.from(connections.values()).map((connection) => connection.close()),
+      );
+    },
+  };
+}
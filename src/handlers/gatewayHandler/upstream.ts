@@ -0,0 +1,185 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import {
+  getDefaultEnvironment,
+  StdioClientTransport,
+} from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  Prompt,
+  PromptListChangedNotificationSchema,
+  Tool,
+  ToolListChangedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { config } from "../../config/index.js";
+import logger from "../../utils/logger.js";
+
+/** An MCP server whose tools and prompts the gateway mirrors */
+export interface UpstreamServerConfig {
+  /** Namespace of the mirrored tools and prompts, e.g. "github" */
+  name: string;
+  /** Run the upstream as a child process speaking stdio */
+  command?: string;
+  args?: string[];
+  /** Added to the default environment of the child process */
+  env?: Record<string, string>;
+  /** Or connect to it over streamable HTTP */
+  url?: string;
+  headers?: Record<string, string>;
+  /** Or supply the transport yourself, e.g. for an in-process server */
+  transport?: () => Transport;
+  /** Prepended to mirrored tool and prompt names (default "<name>__") */
+  prefix?: string;
+  /** Roles that may use the mirrored tools and prompts (default admin only) */
+  rolesPermitted?: string[];
+  /** Longest a forwarded request may go without progress (default 5 minutes) */
+  requestTimeoutMs?: number;
+}
+
+export type ListChangedKind = "tools" | "prompts";
+
+/**
+ * A client connection to one upstream server, opened on first use and
+ * reopened after it drops
+ */
+export class UpstreamConnection {
+  private client?: Client;
+  private connecting?: Promise<Client>;
+  private attempted = false;
+  /** Why the last connection attempt failed or the connection dropped */
+  public lastError?: string;
+
+  constructor(
+    public readonly config: UpstreamServerConfig,
+    private onListChanged: (kind: ListChangedKind) => void,
+    /** Called when the connection opens after it had failed or dropped */
+    private onReconnected: () => void = () => {},
+  ) {}
+
+  public isConnected(): boolean {
+    return this.client !== undefined;
+  }
+
+  public async connect(): Promise<Client> {
+    if (this.client) {
+      return this.client;
+    }
+    if (!this.connecting) {
+      const reconnecting = this.attempted;
+      this.attempted = true;
+      this.connecting = this.open()
+        .then((client) => {
+          this.client = client;
+          this.lastError = undefined;
+          if (reconnecting) {
+            this.onReconnected();
+          }
+          return client;
+        })
+        .catch((error) => {
+          this.lastError = error instanceof Error ? error.message : String(error);
+          throw new Error(
+            `Upstream MCP server '${this.config.name}' is unavailable: ${this.lastError}`,
+          );
+        })
+        .finally(() => {
+          this.connecting = undefined;
+        });
+    }
+    return this.connecting;
+  }
+
+  public async listTools(): Promise<Tool[]> {
+    const client = await this.connect();
+    if (!client.getServerCapabilities()?.tools) {
+      return [];
+    }
+    const tools: Tool[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await client.listTools({ cursor });
+      tools.push(...page.tools);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  public async listPrompts(): Promise<Prompt[]> {
+    const client = await this.connect();
+    if (!client.getServerCapabilities()?.prompts) {
+      return [];
+    }
+    const prompts: Prompt[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await client.listPrompts({ cursor });
+      prompts.push(...page.prompts);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return prompts;
+  }
+
+  /**
+   * Check that the open connection still answers, without reconnecting
+   */
+  public async ping(): Promise<void> {
+    if (!this.client) {
+      throw new Error(this.lastError ?? "not connected");
+    }
+    await this.client.ping();
+  }
+
+  public async close(): Promise<void> {
+    const client = this.client;
+    this.client = undefined;
+    await client?.close();
+  }
+
+  private async open(): Promise<Client> {
+    const client = new Client({
+      name: `${config.server.name}-gateway`,
+      version: config.server.version,
+    });
+    client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+      this.onListChanged("tools");
+    });
+    client.setNotificationHandler(
+      PromptListChangedNotificationSchema,
+      async () => {
+        this.onListChanged("prompts");
+      },
+    );
+    client.onclose = () => {
+      if (this.client === client) {
+        this.client = undefined;
+        this.lastError = "connection closed";
+        logger.warn(`[GATEWAY] Connection to upstream ${this.config.name} closed`);
+      }
+    };
+    await client.connect(this.createTransport());
+    logger.info(`[GATEWAY] Connected to upstream ${this.config.name}`);
+    return client;
+  }
+
+  private createTransport(): Transport {
+    const { name, transport, command, args, env, url, headers } = this.config;
+    if (transport) {
+      return transport();
+    }
+    if (command) {
+      return new StdioClientTransport({
+        command,
+        args,
+        env: { ...getDefaultEnvironment(), ...env },
+      });
+    }
+    if (url) {
+      return new StreamableHTTPClientTransport(new URL(url), {
+        requestInit: { headers },
+      });
+    }
+    throw new Error(
+      `Upstream '${name}' needs a command (stdio), a url (streamable HTTP) or a transport`,
+    );
+  }
+}
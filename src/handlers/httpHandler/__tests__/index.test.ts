@@ -0,0 +1,203 @@
+import { jest } from "@jest/globals";
+import http from "http";
+import { AddressInfo } from "net";
+import { httpHandlerPackage } from "../index.js";
+import { UserRepository } from "../../../db/repositories/UserRepository.js";
+import { config } from "../../../config/index.js";
+
+describe("httpHandlerPackage.handler", () => {
+  const handler = httpHandlerPackage.handler;
+  const context = { user: { email: "power@example.com" } };
+  let server: http.Server;
+  let baseUrl: string;
+  let lastRequest: { method?: string; url?: string; headers: any; body: string };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        lastRequest = { method: req.method, url: req.url, headers: req.headers, body };
+        if (req.url?.startsWith("/redirect")) {
+          const port = (server.address() as AddressInfo).port;
+          const to = req.url === "/redirect/local" ? "/text" : `http://localhost:${port}/text`;
+          res.writeHead(302, { Location: to });
+          res.end();
+          return;
+        }
+        if (req.url?.startsWith("/missing")) {
+          res.writeHead(404, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ error: "no such city" }));
+          return;
+        }
+        if (req.url?.startsWith("/text")) {
+          res.writeHead(200, { "Content-Type": "text/plain" });
+          res.end("plain answer");
+          return;
+        }
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ data: { items: [{ name: "Paris" }] } }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    config.httpHandler.allowedHosts = ["127.0.0.1"];
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    config.httpHandler.allowedHosts = [];
+  });
+
+  it("fills in the URL, query and headers and extracts the response", async () => {
+    const result = await handler(
+      { city: "Paris", units: "metric" },
+      context,
+      {
+        url: `${baseUrl}/weather/{{city}}`,
+        query: { units: "{{units}}", lang: "{{lang}}" },
+        headers: { "X-Client": "mcp-{{ units }}" },
+        response: { path: "data.items.0.name" },
+      },
+    );
+    expect(result).toEqual({ result: "Paris" });
+    expect(lastRequest.method).toBe("GET");
+    expect(lastRequest.url).toBe("/weather/Paris?units=metric");
+    expect(lastRequest.headers["x-client"]).toBe("mcp-metric");
+  });
+
+  it("encodes the values it places in the URL", async () => {
+    await handler({ id: "a/b?c#d e" }, context, {
+      url: `${baseUrl}/users/{{id}}/profile`,
+    });
+    expect(lastRequest.url).toBe("/users/a%2Fb%3Fc%23d%20e/profile");
+  });
+
+  it("sends a JSON body keeping argument types", async () => {
+    await handler({ title: "Bug", priority: 2, labels: ["ui"] }, context, {
+      method: "post",
+      url: `${baseUrl}/issues`,
+      body: { title: "{{title}}", priority: "{{priority}}", labels: "{{labels}}" },
+    });
+    expect(lastRequest.method).toBe("POST");
+    expect(lastRequest.headers["content-type"]).toBe("application/json");
+    expect(JSON.parse(lastRequest.body)).toEqual({
+      title: "Bug",
+      priority: 2,
+      labels: ["ui"],
+    });
+  });
+
+  // A tool created by an admin or a handler package
+  const trustedContext = {
+    ...context,
+    tool: { name: "crm-me", creator: "admin@example.com", trusted: true },
+  };
+
+  it("authenticates with the user's stored credentials", async () => {
+    const getAppParams = jest
+      .spyOn(UserRepository.prototype, "getAppParams")
+      .mockResolvedValue({ token: "abc", tenant: "acme" });
+    await handler({}, trustedContext, {
+      url: `${baseUrl}/{{auth.tenant}}/me`,
+      auth: { appKey: "crm", type: "bearer" },
+    });
+    expect(getAppParams).toHaveBeenCalledWith("power@example.com", "crm");
+    expect(lastRequest.url).toBe("/acme/me");
+    expect(lastRequest.headers.authorization).toBe("Bearer abc");
+  });
+
+  it("fails when the user has no stored credentials", async () => {
+    jest.spyOn(UserRepository.prototype, "getAppParams").mockResolvedValue(null);
+    await expect(
+      handler({}, trustedContext, { url: `${baseUrl}/me`, auth: { appKey: "crm" } }),
+    ).rejects.toThrow("No credentials are stored for 'crm'");
+  });
+
+  it("does not send stored credentials for user-authored tools", async () => {
+    const getAppParams = jest
+      .spyOn(UserRepository.prototype, "getAppParams")
+      .mockResolvedValue({ token: "abc" });
+    const userTool = {
+      ...context,
+      tool: { name: "crm-me", creator: "power@example.com", trusted: false },
+    };
+    await expect(
+      handler({}, userTool, { url: `${baseUrl}/me`, auth: { appKey: "crm", type: "bearer" } }),
+    ).rejects.toThrow(/Only tools created by an administrator or a handler package/);
+    expect(getAppParams).not.toHaveBeenCalled();
+  });
+
+  it("never substitutes environment variables", async () => {
+    process.env.HTTP_HANDLER_TEST_SECRET = "s3cret";
+    try {
+      await handler({}, context, {
+        url: `${baseUrl}/echo`,
+        query: { leak: "{{HTTP_HANDLER_TEST_SECRET}}" },
+      });
+      expect(lastRequest.url).toBe("/echo");
+    } finally {
+      delete process.env.HTTP_HANDLER_TEST_SECRET;
+    }
+  });
+
+  it("returns text responses as is", async () => {
+    const result = await handler({}, context, { url: `${baseUrl}/text` });
+    expect(result).toEqual({ result: "plain answer" });
+  });
+
+  it("reports error responses with their status and body", async () => {
+    await expect(
+      handler({ city: "Nowhere" }, context, {
+        url: `${baseUrl}/missing/{{city}}?key=secret`,
+      }),
+    ).rejects.toThrow(
+      `GET ${baseUrl}/missing/Nowhere failed with 404 Not Found: {"error":"no such city"}`,
+    );
+  });
+
+  it("refuses hosts outside the allowed list", async () => {
+    config.httpHandler.allowedHosts = ["*.example.com"];
+    await expect(
+      handler({}, context, { url: `${baseUrl}/me` }),
+    ).rejects.toThrow("Requests to 127.0.0.1 are not allowed");
+  });
+
+  it("refuses loopback, private and link-local addresses by default", async () => {
+    config.httpHandler.allowedHosts = [];
+    await expect(
+      handler({}, context, { url: `${baseUrl}/me` }),
+    ).rejects.toThrow("Requests to 127.0.0.1 are not allowed: 127.0.0.1 is not a public address");
+    await expect(
+      handler({}, context, { url: "http://169.254.169.254/latest/meta-data/" }),
+    ).rejects.toThrow("169.254.169.254 is not a public address");
+    await expect(
+      handler({}, context, { url: "http://[::1]:8080/" }),
+    ).rejects.toThrow("::1 is not a public address");
+  });
+
+  it("checks every redirect against the allowed hosts", async () => {
+    await expect(
+      handler({}, context, { url: `${baseUrl}/redirect/local` }),
+    ).resolves.toEqual({ result: "plain answer" });
+    await expect(
+      handler({}, context, { url: `${baseUrl}/redirect/elsewhere` }),
+    ).rejects.toThrow("Requests to localhost are not allowed");
+  });
+
+  it("rejects invalid configs", async () => {
+    await expect(handler({}, context, {})).rejects.toThrow(
+      "handler.config.url must be a URL template string",
+    );
+    await expect(
+      handler({}, context, { url: `${baseUrl}/me`, method: "FETCH" }),
+    ).rejects.toThrow("handler.config.method must be one of");
+  });
+});
@@ -0,0 +1,81 @@
+import logger from "../../utils/logger.js";
+import { config } from "../../config/index.js";
+import { HandlerFunction, HandlerPackage } from "../../mcp/types.js";
+import { UserRepository } from "../../db/repositories/UserRepository.js";
+import {
+  buildHttpRequest,
+  extractResponse,
+  fetchAllowed,
+  validateHttpHandlerConfig,
+} from "./request.js";
+
+// How much of an error response to include in the tool error
+const MAX_ERROR_BODY_LENGTH = 500;
+
+/**
+ * Call the REST endpoint described by the tool's handler.config, so tools
+ * can be added through add-tool without any code
+ */
+const handler: HandlerFunction = async (
+  args: Record<string, any>,
+  context: any,
+  handlerConfig: any,
+  _progress,
+  signal,
+) => {
+  const httpConfig = validateHttpHandlerConfig(handlerConfig);
+
+  let auth: Record<string, any> | undefined;
+  if (httpConfig.auth) {
+    // The author of the tool chooses where the credentials are sent
+    if (!context.tool?.trusted) {
+      throw new Error(
+        "Only tools created by an administrator or a handler package may send stored credentials (handler.config.auth)",
+      );
+    }
+    const appKey = httpConfig.auth.appKey;
+    auth = await new UserRepository().getAppParams(context.user?.email, appKey);
+    if (!auth) {
+      throw new Error(
+        `No credentials are stored for '${appKey}'. Ask an administrator to add them to your applicationAuthentication.${appKey}.`,
+      );
+    }
+  }
+
+  const request = buildHttpRequest(httpConfig, args, auth);
+  // The query string may carry credentials, so only the path is logged
+  const target = `${request.method} ${request.url.origin}${request.url.pathname}`;
+  logger.debug(`[HTTP] ${target}`);
+
+  const response = await fetchAllowed(
+    request.url,
+    {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal,
+    },
+    config.httpHandler.allowedHosts,
+  );
+  const text = await response.text();
+  if (!response.ok) {
+    throw new Error(
+      `${target} failed with ${response.status} ${response.statusText}: ${text.slice(0, MAX_ERROR_BODY_LENGTH)}`,
+    );
+  }
+
+  const contentType = response.headers.get("content-type") || "";
+  let data: unknown = text;
+  if (contentType.includes("json") && text) {
+    data = JSON.parse(text);
+  }
+  return {
+    result: extractResponse(data, httpConfig.response?.path),
+  };
+};
+
+export const httpHandlerPackage: HandlerPackage = {
+  name: "http",
+  handler,
+  tools: [],
+};
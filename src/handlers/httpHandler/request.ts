@@ -0,0 +1,255 @@
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+import { mapArguments } from "../../utils/templates.js";
+
+/** handler.config of a tool served by the built-in "http" handler */
+export interface HttpHandlerConfig {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE" | "HEAD";
+  /** URL template, e.g. "https://api.example.com/users/{{ id }}" */
+  url: string;
+  headers?: Record<string, string>;
+  /** Query parameters; empty values are left out */
+  query?: Record<string, unknown>;
+  /** JSON body; a string is sent as is */
+  body?: unknown;
+  auth?: {
+    /** Key in the calling user's applicationAuthentication, exposed to templates as {{ auth.* }} */
+    appKey: string;
+    /** "bearer" sends auth.token, "basic" sends auth.username and auth.password */
+    type?: "bearer" | "basic";
+  };
+  response?: {
+    /** Dotted path of the part of a JSON response to return, e.g. "data.items" */
+    path?: string;
+  };
+}
+
+export interface HttpRequest {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+const METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD"];
+
+/**
+ * Check a handler config before a tool using it is stored or called
+ */
+export function validateHttpHandlerConfig(config: any): HttpHandlerConfig {
+  if (!config || typeof config !== "object") {
+    throw new Error("The http handler needs a config with a url");
+  }
+  if (typeof config.url !== "string" || !config.url) {
+    throw new Error("handler.config.url must be a URL template string");
+  }
+  if (config.method && !METHODS.includes(String(config.method).toUpperCase())) {
+    throw new Error(
+      `handler.config.method must be one of ${METHODS.join(", ")}`,
+    );
+  }
+  if (config.auth) {
+    if (typeof config.auth.appKey !== "string" || !config.auth.appKey) {
+      throw new Error("handler.config.auth.appKey is required");
+    }
+    if (config.auth.type && !["bearer", "basic"].includes(config.auth.type)) {
+      throw new Error('handler.config.auth.type must be "bearer" or "basic"');
+    }
+  }
+  return config;
+}
+
+/**
+ * Fill in the request templates with the tool arguments and the user's
+ * stored credentials. Environment variables are never substituted, since
+ * users can write these templates.
+ */
+export function buildHttpRequest(
+  config: HttpHandlerConfig,
+  args: Record<string, any>,
+  auth?: Record<string, any>,
+): HttpRequest {
+  const values = { auth: auth ?? {} };
+  const render = (template: unknown, preserveTypes = false) =>
+    mapArguments(template, args, values, { env: false, preserveTypes });
+
+  // Values are encoded, so "a/b?c" stays within its path segment
+  const url = new URL(
+    mapArguments(config.url, args, values, {
+      env: false,
+      encode: encodeURIComponent,
+    }),
+  );
+  const query = render(config.query ?? {}, true);
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null || value === "") {
+      continue;
+    }
+    for (const item of Array.isArray(value) ? value : [value]) {
+      url.searchParams.append(key, String(item));
+    }
+  }
+
+  const headers: Record<string, string> = render(config.headers ?? {});
+  if (config.auth?.type === "bearer") {
+    headers.Authorization = `Bearer ${values.auth.token ?? ""}`;
+  } else if (config.auth?.type === "basic") {
+    const credentials = `${values.auth.username ?? ""}:${values.auth.password ?? ""}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  }
+
+  let body: string | undefined;
+  if (config.body !== undefined) {
+    const rendered = render(config.body, true);
+    if (typeof rendered === "string") {
+      body = rendered;
+    } else {
+      body = JSON.stringify(rendered);
+      if (!Object.keys(headers).some((h) => h.toLowerCase() === "content-type")) {
+        headers["Content-Type"] = "application/json";
+      }
+    }
+  }
+
+  return {
+    method: (config.method || "GET").toUpperCase(),
+    url,
+    headers,
+    body,
+  };
+}
+
+/** Whether a host matches an allowed host, where "*.example.com" covers subdomains */
+export function isHostAllowed(host: string, allowedHosts: string[]): boolean {
+  return allowedHosts.some((allowed) =>
+    allowed.startsWith("*.")
+      ? host.endsWith(allowed.slice(1))
+      : host === allowed,
+  );
+}
+
+// Loopback, private, link-local (e.g. cloud metadata) and other non-public ranges
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["::ffff:0:0", 96],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/** Whether an IP address is loopback, private, link-local or otherwise not public */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (!family) {
+    return false;
+  }
+  return !NON_PUBLIC_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Throw unless tools may send a request to this URL. With allowed hosts
+ * configured, its host must be one of them. Without, it must resolve to
+ * public addresses only, so tools cannot reach the server's own network.
+ */
+export async function checkRequestUrl(
+  url: URL,
+  allowedHosts: string[],
+): Promise<void> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Only http and https URLs can be fetched, not ${url.protocol}`);
+  }
+  // IPv6 literals keep their brackets in URL.hostname
+  const host = url.hostname.replace(/^\[(.*)\]$/, "$1");
+  if (allowedHosts.length > 0) {
+    if (!isHostAllowed(host, allowedHosts)) {
+      throw new Error(
+        `Requests to ${host} are not allowed. Allowed hosts: ${allowedHosts.join(", ")}`,
+      );
+    }
+    return;
+  }
+  const addresses = isIP(host)
+    ? [{ address: host }]
+    : await lookup(host, { all: true });
+  const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+  if (blocked) {
+    throw new Error(
+      `Requests to ${host} are not allowed: ${blocked.address} is not a public address. Add the host to MCP_HTTP_ALLOWED_HOSTS to call it.`,
+    );
+  }
+}
+
+// Redirects fetchAllowed follows before giving up
+const MAX_REDIRECTS = 5;
+
+/**
+ * fetch, checking the URL and every redirect with checkRequestUrl, so a
+ * public host cannot redirect a tool to an internal one
+ */
+export async function fetchAllowed(
+  url: URL,
+  init: Omit<RequestInit, "headers"> & { headers?: Record<string, string> },
+  allowedHosts: string[],
+): Promise<Response> {
+  let target = url;
+  let request = init;
+  for (let redirects = 0; ; redirects++) {
+    await checkRequestUrl(target, allowedHosts);
+    const response = await fetch(target, { ...request, redirect: "manual" });
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+    await response.body?.cancel();
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error(`${url.origin}${url.pathname} redirected more than ${MAX_REDIRECTS} times`);
+    }
+    const next = new URL(location, target);
+    const headers: Record<string, string> = { ...request.headers };
+    // Like fetch, keep credentials on the origin they were meant for
+    if (next.origin !== target.origin) {
+      for (const name of Object.keys(headers)) {
+        if (name.toLowerCase() === "authorization") {
+          delete headers[name];
+        }
+      }
+    }
+    // Like fetch, 303 and a redirected POST continue as a GET without body
+    const method = (request.method || "GET").toUpperCase();
+    const toGet =
+      (response.status === 303 && method !== "HEAD") ||
+      ([301, 302].includes(response.status) && method === "POST");
+    request = toGet
+      ? { ...request, method: "GET", body: undefined, headers }
+      : { ...request, headers };
+    target = next;
+  }
+}
+
+/** Read a dotted path such as "data.items.0.name" from a parsed response */
+export function extractResponse(data: unknown, path?: string): unknown {
+  if (!path) {
+    return data;
+  }
+  return path
+    .split(".")
+    .reduce<any>((value, key) => (value == null ? undefined : value[key]), data);
+}
@@ -1,9 +1,17 @@
 import { userManagementHandlerPackage } from "./userManagementHandler/index.js";
 import { toolManagementHandlerPackage } from "./toolManagementHandler/index.js";
 import { promptManagementHandlerPackage } from "./promptManagementHandler/index.js";
+import { auditHandlerPackage } from "./auditHandler/index.js";
+import { httpHandlerPackage } from "./httpHandler/index.js";
+import { scriptHandlerPackage } from "./scriptHandler/index.js";
+import { pipelineHandlerPackage } from "./pipelineHandler/index.js";
 
 export const handlerPackages = [
   userManagementHandlerPackage,
   toolManagementHandlerPackage,
   promptManagementHandlerPackage,
+  auditHandlerPackage,
+  httpHandlerPackage,
+  scriptHandlerPackage,
+  pipelineHandlerPackage,
 ];
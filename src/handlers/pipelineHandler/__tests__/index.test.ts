@@ -0,0 +1,183 @@
+import { jest } from "@jest/globals";
+import { pipelineHandlerPackage } from "../index.js";
+import { isConditionMet, validatePipelineConfig } from "../pipeline.js";
+import { ToolRepository } from "../../../db/repositories/ToolRepository.js";
+
+describe("pipelineHandlerPackage.handler", () => {
+  const handler = pipelineHandlerPackage.handler;
+  let executePipelineStep: jest.Mock<(...args: any[]) => Promise<any>>;
+  let context: any;
+
+  const users = [
+    { email: "ada@example.com", roles: ["user"] },
+    { email: "bob@example.com", roles: ["admin"] },
+    { email: "cy@example.com", roles: ["user"] },
+  ];
+
+  beforeEach(() => {
+    jest
+      .spyOn(ToolRepository.prototype, "findByNamespacedName")
+      .mockImplementation(async (namespacedName: string) => ({
+        name: namespacedName.split(":")[1],
+        creator: namespacedName.split(":")[0],
+        handler: { type: "user-management", config: {} },
+      }) as any);
+    executePipelineStep = jest.fn(async (tool: any, args: any) => {
+      if (tool.name === "list-users") {
+        return { result: { users } };
+      }
+      if (args.email === "cy@example.com") {
+        throw new Error("already shared");
+      }
+      return { result: { shared: args.email } };
+    });
+    context = {
+      user: { email: "power@example.com" },
+      mcpServer: { toolService: { executePipelineStep } },
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const sharePipeline = (onError?: "continue") => ({
+    steps: [
+      { id: "users", tool: "user-management:list-users", args: {} },
+      {
+        id: "share",
+        tool: "user-management:share-tool",
+        forEach: "{{steps.users.result.users}}",
+        if: { value: "{{item.roles}}", equals: ["user"] },
+        args: { email: "{{item.email}}", toolId: "{{input.toolId}}" },
+        ...(onError ? { onError } : {}),
+      },
+    ],
+    output: "{{steps.share}}",
+  });
+
+  it("runs the steps through executePipelineStep, filtering and mapping arguments", async () => {
+    const progress = jest.fn();
+    const result = await handler(
+      { toolId: "power@example.com:report" },
+      context,
+      sharePipeline("continue"),
+      progress,
+    );
+
+    expect(result).toEqual({
+      result: [{ result: { shared: "ada@example.com" } }, { error: "already shared" }],
+    });
+    expect(executePipelineStep).toHaveBeenCalledTimes(3);
+    expect(executePipelineStep).toHaveBeenCalledWith(
+      {
+        name: "share-tool",
+        creator: "user-management",
+        handler: { type: "user-management", config: {} },
+      },
+      { email: "ada@example.com", toolId: "power@example.com:report" },
+      expect.objectContaining({ user: context.user, pipelineDepth: 1 }),
+      undefined,
+    );
+    expect(progress).toHaveBeenCalledWith(1, 2, "Running step share");
+    expect(progress).toHaveBeenLastCalledWith(2, 2);
+  });
+
+  it("stops at the first failing step by default", async () => {
+    await expect(
+      handler({ toolId: "x" }, context, sharePipeline()),
+    ).rejects.toThrow(
+      "Step 'share' (user-management:share-tool) failed: already shared",
+    );
+  });
+
+  it("skips steps whose condition does not hold and returns all outputs", async () => {
+    const result = await handler({ notify: false }, context, {
+      steps: [
+        { id: "users", tool: "user-management:list-users" },
+        { id: "notify", tool: "user-management:share-tool", if: "{{input.notify}}" },
+      ],
+    });
+    expect(result).toEqual({ result: { users: { result: { users } } } });
+    expect(executePipelineStep).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails when a step's tool does not exist", async () => {
+    jest
+      .spyOn(ToolRepository.prototype, "findByNamespacedName")
+      .mockResolvedValue(null);
+    await expect(
+      handler({}, context, { steps: [{ id: "a", tool: "nobody:missing" }] }),
+    ).rejects.toThrow("Step 'a' (nobody:missing) failed: Tool nobody:missing not found");
+  });
+
+  it("refuses to nest pipelines without end", async () => {
+    await expect(
+      handler({}, { ...context, pipelineDepth: 5 }, sharePipeline()),
+    ).rejects.toThrow("Pipelines can be nested at most 5 deep");
+  });
+
+  it("stops between steps when the call is aborted", async () => {
+    const controller = new AbortController();
+    executePipelineStep.mockImplementationOnce(async () => {
+      controller.abort(new Error("client cancelled"));
+      return { result: { users } };
+    });
+    await expect(
+      handler({ toolId: "x" }, context, sharePipeline("continue"), undefined, controller.signal),
+    ).rejects.toThrow("client cancelled");
+    expect(executePipelineStep).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("validatePipelineConfig", () => {
+  it("rejects malformed steps", () => {
+    expect(() => validatePipelineConfig({ steps: [] })).toThrow("list of steps");
+    expect(() =>
+      validatePipelineConfig({ steps: [{ id: "a", tool: "list-users" }] }),
+    ).toThrow("steps[0].tool must be the namespacedName of a tool");
+    expect(() =>
+      validatePipelineConfig({
+        steps: [
+          { id: "a", tool: "x:y" },
+          { id: "a", tool: "x:z" },
+        ],
+      }),
+    ).toThrow("Duplicate step id 'a'");
+    expect(() =>
+      validatePipelineConfig({ steps: [{ id: "a", tool: "x:y", onError: "retry" }] }),
+    ).toThrow('steps[0].onError must be "stop" or "continue"');
+    expect(() =>
+      validatePipelineConfig({ steps: [{ id: "a", tool: "x:y", if: { value: "{{a}}" } }] }),
+    ).toThrow("steps[0].if must be a template or");
+  });
+
+  it("refuses match patterns that can backtrack for long", () => {
+    const withPattern = (matches: string) => () =>
+      validatePipelineConfig({
+        steps: [{ id: "a", tool: "x:y", if: { value: "{{a}}", matches } }],
+      });
+    expect(withPattern("^(a+)+$")).toThrow(
+      "steps[0].if.matches cannot repeat a group or use backreferences",
+    );
+    expect(withPattern("(x|xx){2,}")).toThrow("cannot repeat a group");
+    expect(withPattern("(a)\\1")).toThrow("cannot repeat a group");
+    expect(withPattern("a".repeat(101))).toThrow("at most 100 characters");
+    expect(withPattern("[a-")).toThrow("steps[0].if.matches is not a valid regular expression");
+    expect(withPattern("^(?:admin|owner)@example\\.com$")()).toBeDefined();
+  });
+});
+
+describe("isConditionMet", () => {
+  const scope = { input: { role: "admin", count: 0 }, steps: {} };
+
+  it("tests resolved values", () => {
+    expect(isConditionMet("{{input.role}}", scope)).toBe(true);
+    expect(isConditionMet("{{input.count}}", scope)).toBe(false);
+    expect(isConditionMet({ value: "{{input.role}}", notEquals: "admin" }, scope)).toBe(false);
+    expect(isConditionMet({ value: "{{input.role}}", in: ["user", "admin"] }, scope)).toBe(true);
+    expect(isConditionMet({ value: "{{input.role}}", matches: "^ad" }, scope)).toBe(true);
+    expect(isConditionMet({ value: "a".repeat(1001), matches: "^a*$" }, scope)).toBe(false);
+    expect(isConditionMet({ value: "{{input.missing}}", exists: false }, scope)).toBe(true);
+  });
+});
@@ -0,0 +1,115 @@
+import logger from "../../utils/logger.js";
+import { HandlerFunction, HandlerPackage } from "../../mcp/types.js";
+import {
+  isConditionMet,
+  PipelineHandlerConfig,
+  PipelineScope,
+  PipelineStep,
+  renderTemplate,
+  validatePipelineConfig,
+} from "./pipeline.js";
+
+export type { PipelineHandlerConfig, PipelineStep } from "./pipeline.js";
+
+// Pipelines may call pipelines, but not without end
+const MAX_PIPELINE_DEPTH = 5;
+
+/**
+ * Run the steps of the tool's handler.config in order. Every step goes
+ * through ToolService.executePipelineStep, so the caller must be allowed to
+ * use each tool the pipeline calls, and each step is audited.
+ */
+const handler: HandlerFunction = async (
+  args: Record<string, any>,
+  context: any,
+  handlerConfig: PipelineHandlerConfig,
+  progress,
+  signal,
+) => {
+  const pipeline = validatePipelineConfig(handlerConfig);
+  const toolService = context.mcpServer?.toolService;
+  if (!toolService) {
+    throw new Error("McpServer not available in context");
+  }
+  const depth: number = context.pipelineDepth ?? 0;
+  if (depth >= MAX_PIPELINE_DEPTH) {
+    throw new Error(
+      `Pipelines can be nested at most ${MAX_PIPELINE_DEPTH} deep; check for a pipeline that calls itself`,
+    );
+  }
+  // ToolRepository imports the handler packages, so load it on first use
+  const { ToolRepository } = await import(
+    "../../db/repositories/ToolRepository.js"
+  );
+  const toolRepo = new ToolRepository();
+
+  const outputs: Record<string, any> = {};
+  const callStep = async (step: PipelineStep, scope: PipelineScope) => {
+    signal?.throwIfAborted();
+    const tool = await toolRepo.findByNamespacedName(step.tool);
+    if (!tool) {
+      throw new Error(`Tool ${step.tool} not found`);
+    }
+    // executeTool replaces context.user, so each step gets its own copy
+    return await toolService.executePipelineStep(
+      tool,
+      renderTemplate(step.args ?? {}, scope),
+      { ...context, pipelineDepth: depth + 1 },
+      signal,
+    );
+  };
+  const runStep = async (step: PipelineStep, scope: PipelineScope) => {
+    try {
+      return await callStep(step, scope);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (step.onError !== "continue" || signal?.aborted) {
+        throw new Error(`Step '${step.id}' (${step.tool}) failed: ${message}`);
+      }
+      logger.warn(`[PIPELINE] Step ${step.id} (${step.tool}) failed, continuing: ${message}`);
+      return { error: message };
+    }
+  };
+
+  for (const [index, step] of pipeline.steps.entries()) {
+    progress?.(index, pipeline.steps.length, `Running step ${step.id}`);
+    const scope: PipelineScope = { input: args, steps: outputs };
+
+    if (step.forEach === undefined) {
+      if (isConditionMet(step.if, scope)) {
+        outputs[step.id] = await runStep(step, scope);
+      }
+      continue;
+    }
+
+    const items = renderTemplate(step.forEach, scope);
+    if (!Array.isArray(items)) {
+      throw new Error(
+        `Step '${step.id}': forEach must resolve to an array, not ${typeof items}`,
+      );
+    }
+    // The condition filters the items; the output lists the calls made
+    const results: any[] = [];
+    for (const [itemIndex, item] of items.entries()) {
+      const itemScope: PipelineScope = { ...scope, item, index: itemIndex };
+      if (isConditionMet(step.if, itemScope)) {
+        results.push(await runStep(step, itemScope));
+      }
+    }
+    outputs[step.id] = results;
+  }
+  progress?.(pipeline.steps.length, pipeline.steps.length);
+
+  return {
+    result:
+      pipeline.output === undefined
+        ? outputs
+        : renderTemplate(pipeline.output, { input: args, steps: outputs }),
+  };
+};
+
+export const pipelineHandlerPackage: HandlerPackage = {
+  name: "pipeline",
+  handler,
+  tools: [],
+};
@@ -0,0 +1,178 @@
+import { mapArguments } from "../../utils/templates.js";
+
+/**
+ * A test on a resolved value. A template string on its own is true when its
+ * value is truthy.
+ */
+export type PipelineCondition =
+  | string
+  | {
+      /** Template of the value to test, e.g. "{{ item.role }}" */
+      value: unknown;
+      equals?: unknown;
+      notEquals?: unknown;
+      in?: unknown[];
+      /**
+       * Regular expression the value must match. Quantified groups and
+       * backreferences are refused, and longer values never match.
+       */
+      matches?: string;
+      /** Whether the value must be set (not undefined, null or "") */
+      exists?: boolean;
+    };
+
+/** One call of another tool in a pipeline */
+export interface PipelineStep {
+  /** Name of the step's output, e.g. {{ steps.users.result }} */
+  id: string;
+  /** namespacedName of the tool to call, e.g. "system:list-users" */
+  tool: string;
+  /** Argument templates, filled in from input, steps, item and index */
+  args?: Record<string, unknown>;
+  /** Skip the step, or with forEach the item, unless this holds */
+  if?: PipelineCondition;
+  /** Template of an array; the tool is called once per item */
+  forEach?: string;
+  /** "stop" (default) fails the pipeline, "continue" records { error } as the output */
+  onError?: "stop" | "continue";
+}
+
+/** handler.config of a tool served by the built-in "pipeline" handler */
+export interface PipelineHandlerConfig {
+  steps: PipelineStep[];
+  /** Template of the result; the outputs of all steps by id if unset */
+  output?: unknown;
+}
+
+/** What templates of a step can refer to */
+export interface PipelineScope {
+  input: Record<string, any>;
+  steps: Record<string, any>;
+  item?: unknown;
+  index?: number;
+}
+
+const STEP_ID = /^[A-Za-z0-9_-]+$/;
+const CONDITION_TESTS = ["equals", "notEquals", "in", "matches", "exists"];
+/** Limits that keep `matches` from backtracking for long */
+const MAX_PATTERN_LENGTH = 100;
+const MAX_MATCHED_LENGTH = 1000;
+/** A group followed by a quantifier, e.g. (a+)+ or (x|y)* */
+const QUANTIFIED_GROUP = /\)(?:[*+?]|\{\d)/;
+const BACKREFERENCE = /\\(?:[1-9]|k<)/;
+
+function compilePattern(pattern: unknown, label: string): RegExp {
+  if (typeof pattern !== "string" || pattern.length > MAX_PATTERN_LENGTH) {
+    throw new Error(
+      `${label}.matches must be a string of at most ${MAX_PATTERN_LENGTH} characters`,
+    );
+  }
+  if (QUANTIFIED_GROUP.test(pattern) || BACKREFERENCE.test(pattern)) {
+    throw new Error(`${label}.matches cannot repeat a group or use backreferences`);
+  }
+  try {
+    return new RegExp(pattern);
+  } catch (error) {
+    throw new Error(
+      `${label}.matches is not a valid regular expression: ${(error as Error).message}`,
+    );
+  }
+}
+
+/**
+ * Check a handler config before a tool using it is stored or called
+ */
+export function validatePipelineConfig(config: any): PipelineHandlerConfig {
+  if (!config || !Array.isArray(config.steps) || config.steps.length === 0) {
+    throw new Error("The pipeline handler needs a config with a list of steps");
+  }
+  const ids = new Set<string>();
+  for (const [index, step] of config.steps.entries()) {
+    const label = `handler.config.steps[${index}]`;
+    if (!step || typeof step !== "object") {
+      throw new Error(`${label} must be an object`);
+    }
+    if (typeof step.id !== "string" || !STEP_ID.test(step.id)) {
+      throw new Error(`${label}.id must use letters, digits, '-' and '_'`);
+    }
+    if (ids.has(step.id)) {
+      throw new Error(`Duplicate step id '${step.id}'`);
+    }
+    ids.add(step.id);
+    if (typeof step.tool !== "string" || !step.tool.includes(":")) {
+      throw new Error(
+        `${label}.tool must be the namespacedName of a tool, e.g. "system:list-users"`,
+      );
+    }
+    if (step.args !== undefined && (typeof step.args !== "object" || Array.isArray(step.args))) {
+      throw new Error(`${label}.args must be an object of argument templates`);
+    }
+    if (step.forEach !== undefined && typeof step.forEach !== "string") {
+      throw new Error(`${label}.forEach must be a template string`);
+    }
+    if (step.onError !== undefined && !["stop", "continue"].includes(step.onError)) {
+      throw new Error(`${label}.onError must be "stop" or "continue"`);
+    }
+    if (
+      step.if !== undefined &&
+      typeof step.if !== "string" &&
+      !(
+        typeof step.if === "object" &&
+        "value" in step.if &&
+        Object.keys(step.if).some((key) => CONDITION_TESTS.includes(key))
+      )
+    ) {
+      throw new Error(
+        `${label}.if must be a template or { value, equals | notEquals | in | matches | exists }`,
+      );
+    }
+    if (typeof step.if === "object" && step.if.matches !== undefined) {
+      compilePattern(step.if.matches, `${label}.if`);
+    }
+  }
+  return config;
+}
+
+/**
+ * Fill in templates from the pipeline input, the outputs of earlier steps
+ * and the current item. A lone placeholder keeps the type of its value, so
+ * arrays and objects pass between steps intact.
+ */
+export function renderTemplate(template: unknown, scope: PipelineScope): any {
+  return mapArguments(template, scope, {}, { env: false, preserveTypes: true });
+}
+
+export function isConditionMet(
+  condition: PipelineCondition | undefined,
+  scope: PipelineScope,
+): boolean {
+  if (condition === undefined) {
+    return true;
+  }
+  if (typeof condition === "string") {
+    return Boolean(renderTemplate(condition, scope));
+  }
+  const value = renderTemplate(condition.value, scope);
+  const same = (expected: unknown) =>
+    JSON.stringify(value) === JSON.stringify(renderTemplate(expected, scope));
+  if ("equals" in condition && !same(condition.equals)) {
+    return false;
+  }
+  if ("notEquals" in condition && same(condition.notEquals)) {
+    return false;
+  }
+  if (condition.in !== undefined && !condition.in.some(same)) {
+    return false;
+  }
+  if (condition.matches !== undefined) {
+    const text = String(value);
+    if (text.length > MAX_MATCHED_LENGTH || !compilePattern(condition.matches, "if").test(text)) {
+      return false;
+    }
+  }
+  if (condition.exists !== undefined) {
+    const exists = value !== undefined && value !== null && value !== "";
+    return exists === condition.exists;
+  }
+  return true;
+}
@@ -0,0 +1,177 @@
+import { jest } from "@jest/globals";
+import http from "http";
+import { AddressInfo } from "net";
+import { compileScript, scriptHandlerPackage } from "../index.js";
+import { ScriptStateRepository } from "../../../db/repositories/ScriptStateRepository.js";
+import { config } from "../../../config/index.js";
+
+describe("scriptHandlerPackage.handler", () => {
+  const handler = scriptHandlerPackage.handler;
+  const context = {
+    user: { email: "power@example.com", roles: ["power-user"], token: "secret" },
+    tool: { name: "word-count", creator: "power@example.com" },
+  };
+  const run = (code: string, args: Record<string, any> = {}, progress?: any, signal?: AbortSignal) =>
+    handler(args, context, { code }, progress, signal);
+  const limits = { ...config.scriptHandler };
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        res.writeHead(201, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ method: req.method, received: body ? JSON.parse(body) : null }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    config.httpHandler.allowedHosts = [];
+    Object.assign(config.scriptHandler, limits);
+  });
+
+  it("returns what the script returns, given the arguments and the caller", async () => {
+    await expect(
+      run("return { words: args.text.split(' ').length, by: context.user.email };", {
+        text: "one two three",
+      }),
+    ).resolves.toEqual({ result: { words: 3, by: "power@example.com" } });
+  });
+
+  it("only shows the script the caller's identity", async () => {
+    await expect(run("return context;")).resolves.toEqual({
+      result: {
+        user: { email: "power@example.com", roles: ["power-user"] },
+      },
+    });
+  });
+
+  it("runs without require, process or code generation from strings", async () => {
+    await expect(
+      run("return [typeof require, typeof process, typeof setTimeout];"),
+    ).resolves.toEqual({ result: ["undefined", "undefined", "undefined"] });
+    await expect(
+      run("return globalThis.constructor.constructor('return process')();"),
+    ).rejects.toThrow(/Code generation from strings disallowed/);
+    await expect(
+      run("return fetch.constructor('return process')();"),
+    ).rejects.toThrow(/Code generation from strings disallowed/);
+  });
+
+  it("maps arguments with the template helper", async () => {
+    await expect(
+      run("return await mapArguments({ greeting: 'Hi {{name}}', count: '{{n}}' });", {
+        name: "Ada",
+        n: 2,
+      }),
+    ).resolves.toEqual({ result: { greeting: "Hi Ada", count: 2 } });
+  });
+
+  it("maps arguments from the caller's identity only", async () => {
+    const sessionContext = {
+      ...context,
+      token: "session-token",
+      user: { ...context.user, applicationAuthentication: { github: "gh-token" } },
+      mcpServer: { name: "server" },
+    };
+    await expect(
+      handler({}, sessionContext, {
+        code: "return await mapArguments({ email: '{{ user.email }}', token: '{{ token }}', auth: '{{ user.applicationAuthentication }}', user: '{{ user.token }}' });",
+      }),
+    ).resolves.toEqual({
+      result: { email: "power@example.com", token: "", auth: "", user: "" },
+    });
+  });
+
+  it("keeps state per user and tool", async () => {
+    const get = jest
+      .spyOn(ScriptStateRepository.prototype, "getValue")
+      .mockResolvedValue(41);
+    const set = jest
+      .spyOn(ScriptStateRepository.prototype, "setValue")
+      .mockResolvedValue();
+
+    await expect(
+      run("const count = (await state.get('count')) ?? 0; await state.set('count', count + 1); return count + 1;"),
+    ).resolves.toEqual({ result: 42 });
+    expect(get).toHaveBeenCalledWith("power@example.com", "power@example.com:word-count", "count");
+    expect(set).toHaveBeenCalledWith("power@example.com", "power@example.com:word-count", "count", 42);
+  });
+
+  it("rejects oversized state values", async () => {
+    await expect(
+      run("await state.set('big', 'x'.repeat(70000));"),
+    ).rejects.toThrow(/State values are limited to 65536 bytes/);
+  });
+
+  it("fetches from allowed hosts only", async () => {
+    config.httpHandler.allowedHosts = ["127.0.0.1"];
+    await expect(
+      run(`const response = await fetch("${baseUrl}/items", { method: "POST", body: { id: 1 } });
+return { status: response.status, body: response.body };`),
+    ).resolves.toEqual({
+      result: { status: 201, body: { method: "POST", received: { id: 1 } } },
+    });
+
+    config.httpHandler.allowedHosts = ["api.example.com"];
+    await expect(
+      run(`await fetch("${baseUrl}/items");`),
+    ).rejects.toThrow("Requests to 127.0.0.1 are not allowed");
+
+    config.httpHandler.allowedHosts = [];
+    await expect(
+      run(`await fetch("http://169.254.169.254/latest/meta-data/");`),
+    ).rejects.toThrow("169.254.169.254 is not a public address");
+  });
+
+  it("reports progress", async () => {
+    const progress = jest.fn();
+    await run("progress(1, 2, 'half'); progress(2, 2); return 'done';", {}, progress);
+    expect(progress).toHaveBeenCalledWith(1, 2, "half");
+    expect(progress).toHaveBeenCalledWith(2, 2, undefined);
+  });
+
+  it("stops scripts that run too long", async () => {
+    config.scriptHandler.timeoutMs = 300;
+    await expect(run("while (true) {}")).rejects.toThrow(/timed out after 300ms/);
+    await expect(run("await new Promise(() => {});")).rejects.toThrow(
+      /timed out after 300ms/,
+    );
+  });
+
+  it("stops scripts that use too much memory", async () => {
+    config.scriptHandler.memoryMb = 16;
+    await expect(
+      run("const chunks = []; while (true) { chunks.push(new Array(100000).fill(chunks.length)); }"),
+    ).rejects.toThrow("Script exceeded its memory limit of 16 MB");
+  });
+
+  it("stops the script when the call is aborted", async () => {
+    const controller = new AbortController();
+    const call = run("await new Promise(() => {});", {}, undefined, controller.signal);
+    controller.abort(new Error("client cancelled"));
+    await expect(call).rejects.toThrow("client cancelled");
+  });
+
+  it("reports errors thrown by the script", async () => {
+    await expect(run("throw new Error('bad input');")).rejects.toThrow("bad input");
+  });
+});
+
+describe("compileScript", () => {
+  it("rejects scripts that do not compile", () => {
+    expect(() => compileScript("return {")).toThrow(/The script does not compile/);
+    expect(() => compileScript("")).toThrow(/handler.config.code/);
+    expect(() => compileScript("return args.a + args.b;")).not.toThrow();
+  });
+});
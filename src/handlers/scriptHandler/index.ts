@@ -0,0 +1,150 @@
+import logger from "../../utils/logger.js";
+import { config } from "../../config/index.js";
+import { mapArguments } from "../../utils/templates.js";
+import { HandlerFunction, HandlerPackage } from "../../mcp/types.js";
+import { ScriptStateRepository } from "../../db/repositories/ScriptStateRepository.js";
+import { fetchAllowed } from "../httpHandler/request.js";
+import { runScript, ScriptApi } from "./sandbox.js";
+
+export { compileScript } from "./sandbox.js";
+
+/** The handler.config of a script tool */
+export interface ScriptHandlerConfig {
+  /** Body of an async function of (args, context) whose return value is the result */
+  code: string;
+  /** Lower the server's MCP_SCRIPT_TIMEOUT_MS for this tool */
+  timeoutMs?: number;
+  /** Lower the server's MCP_SCRIPT_MEMORY_MB for this tool */
+  memoryMb?: number;
+}
+
+// Largest JSON value a script may keep per key
+const MAX_STATE_BYTES = 64 * 1024;
+
+// What fetch returns to a script; the body is parsed when it is JSON
+async function scriptFetch(
+  params: { url: string; init?: Record<string, any> },
+  signal?: AbortSignal,
+) {
+  const url = new URL(params.url);
+  const init = params.init || {};
+  const headers: Record<string, string> = { ...(init.headers || {}) };
+  let body: string | undefined;
+  if (init.body !== undefined && init.body !== null) {
+    if (typeof init.body === "string") {
+      body = init.body;
+    } else {
+      body = JSON.stringify(init.body);
+      headers["Content-Type"] ??= "application/json";
+    }
+  }
+  logger.debug(`[SCRIPT] fetch ${init.method || "GET"} ${url.origin}${url.pathname}`);
+
+  const response = await fetchAllowed(
+    url,
+    {
+      method: init.method || "GET",
+      headers,
+      body,
+      signal,
+    },
+    config.httpHandler.allowedHosts,
+  );
+  const text = await response.text();
+  const contentType = response.headers.get("content-type") || "";
+  return {
+    ok: response.ok,
+    status: response.status,
+    statusText: response.statusText,
+    headers: Object.fromEntries(response.headers),
+    body: contentType.includes("json") && text ? JSON.parse(text) : text,
+  };
+}
+
+/**
+ * Run the JavaScript function body in the tool's handler.config.code in a
+ * sandbox, so power users can write small tools without a deployment
+ */
+const handler: HandlerFunction = async (
+  args: Record<string, any>,
+  context: any,
+  handlerConfig: ScriptHandlerConfig,
+  progress,
+  signal,
+) => {
+  const userEmail: string | undefined = context.user?.email;
+  if (!userEmail) {
+    throw new Error("User context with email is required to run a script");
+  }
+  // State is kept per user and per script tool
+  const tool = context.tool
+    ? `${context.tool.creator}:${context.tool.name}`
+    : "unknown";
+  const stateKey = (key: unknown) => {
+    if (typeof key !== "string" || !key) {
+      throw new Error("State keys must be non-empty strings");
+    }
+    return key;
+  };
+  const stateRepo = new ScriptStateRepository();
+  // The script only sees the caller's identity, not the session or its token
+  const scriptContext = {
+    user: {
+      email: userEmail,
+      name: context.user?.name,
+      roles: context.user?.roles ?? [],
+    },
+  };
+
+  const api: ScriptApi = {
+    fetch: (params) => scriptFetch(params, signal),
+    mapArguments: async ({ mappings, input }) =>
+      mapArguments(mappings, input ?? args, scriptContext, {
+        env: false,
+        preserveTypes: true,
+      }),
+    "state.get": async ({ key }) =>
+      stateRepo.getValue(userEmail, tool, stateKey(key)),
+    "state.set": async ({ key, value }) => {
+      const size = Buffer.byteLength(JSON.stringify(value ?? null));
+      if (size > MAX_STATE_BYTES) {
+        throw new Error(
+          `State values are limited to ${MAX_STATE_BYTES} bytes; '${key}' has ${size}`,
+        );
+      }
+      await stateRepo.setValue(userEmail, tool, stateKey(key), value);
+    },
+    "state.delete": async ({ key }) => {
+      await stateRepo.deleteValue(userEmail, tool, stateKey(key));
+    },
+  };
+
+  const limits = {
+    timeoutMs: Math.min(
+      handlerConfig.timeoutMs || config.scriptHandler.timeoutMs,
+      config.scriptHandler.timeoutMs,
+    ),
+    memoryMb: Math.min(
+      handlerConfig.memoryMb || config.scriptHandler.memoryMb,
+      config.scriptHandler.memoryMb,
+    ),
+  };
+  const result = await runScript(
+    handlerConfig.code,
+    { args, context: scriptContext },
+    api,
+    limits,
+    {
+      log: (level, message) => logger.log(level, `[SCRIPT] ${tool}: ${message}`),
+      progress,
+    },
+    signal,
+  );
+  return { result };
+};
+
+export const scriptHandlerPackage: HandlerPackage = {
+  name: "script",
+  handler,
+  tools: [],
+};
@@ -0,0 +1,235 @@
+import vm from "node:vm";
+import { Worker } from "node:worker_threads";
+
+export interface ScriptLimits {
+  /** Longest the script may run, in total and per synchronous stretch */
+  timeoutMs: number;
+  /** Heap the script's worker may use */
+  memoryMb: number;
+}
+
+/**
+ * Host functions a script may call, e.g. "fetch" or "state.get". They take
+ * and return JSON values; a thrown error's message is rethrown in the script.
+ */
+export type ScriptApi = Record<string, (params: any) => Promise<unknown>>;
+
+export interface ScriptHooks {
+  log?: (level: string, message: string) => void;
+  progress?: (progress: number, total?: number, message?: string) => void;
+}
+
+/** Wraps the tool's function body; line 1 of the body is line 1 of the script */
+const wrapScript = (code: string) =>
+  `(async function (args, context) {"use strict";\n${code}\n})`;
+
+/**
+ * Fail fast on a syntax error instead of on the first call
+ */
+export function compileScript(code: string): void {
+  if (typeof code !== "string" || !code.trim()) {
+    throw new Error("Script tools need the function body in handler.config.code");
+  }
+  try {
+    new vm.Script(wrapScript(code), { filename: "script.js", lineOffset: -1 });
+  } catch (error) {
+    throw new Error(
+      `The script does not compile: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+}
+
+// Runs inside the worker. The script gets a fresh context without require,
+// process or timers; every value crosses into it as JSON, so it holds no
+// reference to the worker's own realm.
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require("node:worker_threads");
+const vm = require("node:vm");
+
+const pending = new Map();
+let nextId = 0;
+parentPort.on("message", (reply) => {
+  const call = pending.get(reply.id);
+  if (!call) return;
+  pending.delete(reply.id);
+  if (reply.error !== undefined) call.reject(reply.error);
+  else call.resolve(reply.result);
+});
+const bridge = (method, params) =>
+  new Promise((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { resolve, reject });
+    parentPort.postMessage({ type: "call", id, method, params });
+  });
+const notify = (type, payload) => parentPort.postMessage({ type, payload });
+
+const SETUP = \`(function (bridge, notify) {
+  "use strict";
+  const call = async (method, params) => {
+    let reply;
+    try {
+      reply = await bridge(method, JSON.stringify(params === undefined ? null : params));
+    } catch (error) {
+      throw new Error(String(error));
+    }
+    return reply === undefined ? undefined : JSON.parse(reply);
+  };
+  const format = (values) =>
+    values.map((value) => (typeof value === "string" ? value : JSON.stringify(value))).join(" ");
+  globalThis.fetch = (url, init) => call("fetch", { url: String(url), init });
+  globalThis.mapArguments = (mappings, input) => call("mapArguments", { mappings, input });
+  globalThis.state = Object.freeze({
+    get: (key) => call("state.get", { key }),
+    set: (key, value) => call("state.set", { key, value }),
+    delete: (key) => call("state.delete", { key }),
+  });
+  globalThis.progress = (progress, total, message) =>
+    notify("progress", JSON.stringify([progress, total, message]));
+  globalThis.console = Object.freeze({
+    log: (...values) => notify("log", JSON.stringify(["info", format(values)])),
+    warn: (...values) => notify("log", JSON.stringify(["warn", format(values)])),
+    error: (...values) => notify("log", JSON.stringify(["error", format(values)])),
+  });
+})\`;
+
+const { source, timeoutMs } = workerData;
+const context = vm.createContext(Object.create(null), {
+  name: "script",
+  codeGeneration: { strings: false, wasm: false },
+});
+vm.runInContext(SETUP, context)(bridge, notify);
+
+(async () => {
+  try {
+    const result = await vm.runInContext(source, context, {
+      filename: "script.js",
+      lineOffset: -1,
+      timeout: timeoutMs,
+    });
+    parentPort.postMessage({
+      type: "done",
+      result: result === undefined ? undefined : JSON.stringify(result),
+    });
+  } catch (error) {
+    parentPort.postMessage({
+      type: "error",
+      message: error && error.message ? String(error.message) : String(error),
+    });
+  }
+})();
+`;
+
+/**
+ * Run a script tool's function body in a worker thread with its own heap
+ * limit, giving it the API of the host functions. The worker is terminated
+ * when the script finishes, times out, runs out of memory or the signal
+ * aborts, so nothing it started outlives the call.
+ */
+export function runScript(
+  code: string,
+  input: { args: Record<string, any>; context: Record<string, any> },
+  api: ScriptApi,
+  limits: ScriptLimits,
+  hooks: ScriptHooks = {},
+  signal?: AbortSignal,
+): Promise<unknown> {
+  const call = JSON.stringify([input.args, input.context]);
+  const source = `${wrapScript(code)}(...JSON.parse(${JSON.stringify(call)}))`;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { source, timeoutMs: limits.timeoutMs },
+      env: {},
+      resourceLimits: {
+        maxOldGenerationSizeMb: limits.memoryMb,
+        maxYoungGenerationSizeMb: Math.min(16, limits.memoryMb),
+        stackSizeMb: 4,
+      },
+    });
+
+    let settled = false;
+    const finish = (error: unknown, result?: unknown) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      void worker.terminate();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(result);
+      }
+    };
+    const onAbort = () => finish(signal!.reason ?? new Error("Script cancelled"));
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const timer = setTimeout(
+      () =>
+        finish(new Error(`Script execution timed out after ${limits.timeoutMs}ms`)),
+      limits.timeoutMs,
+    );
+
+    worker.on("message", async (message: any) => {
+      switch (message.type) {
+        case "call": {
+          const method = api[message.method];
+          let reply: { id: number; result?: string; error?: string };
+          try {
+            if (!method) {
+              throw new Error(`${message.method} is not available to scripts`);
+            }
+            const result = await method(JSON.parse(message.params));
+            reply = {
+              id: message.id,
+              result: result === undefined ? undefined : JSON.stringify(result),
+            };
+          } catch (error) {
+            reply = {
+              id: message.id,
+              error: error instanceof Error ? error.message : String(error),
+            };
+          }
+          if (!settled) {
+            worker.postMessage(reply);
+          }
+          break;
+        }
+        case "log": {
+          const [level, text] = JSON.parse(message.payload);
+          hooks.log?.(level, text);
+          break;
+        }
+        case "progress": {
+          const [done, total, text] = JSON.parse(message.payload);
+          hooks.progress?.(Number(done), total ?? undefined, text ?? undefined);
+          break;
+        }
+        case "done":
+          finish(
+            undefined,
+            message.result === undefined ? undefined : JSON.parse(message.result),
+          );
+          break;
+        case "error":
+          finish(new Error(message.message));
+          break;
+      }
+    });
+    worker.on("error", (error: any) => {
+      finish(
+        error?.code === "ERR_WORKER_OUT_OF_MEMORY"
+          ? new Error(`Script exceeded its memory limit of ${limits.memoryMb} MB`)
+          : error,
+      );
+    });
+    worker.on("exit", (exitCode) => {
+      finish(new Error(`Script worker exited with code ${exitCode}`));
+    });
+  });
+}
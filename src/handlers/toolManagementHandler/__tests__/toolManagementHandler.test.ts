@@ -8,14 +8,20 @@ import {
 } from "@jest/globals";
 import { toolManagementHandlerPackage } from "../index.js";
 import { UserRepository } from "../../../db/repositories/UserRepository.js";
+import { UsageStatRepository } from "../../../db/repositories/UsageStatRepository.js";
+import { ToolRepository } from "../../../db/repositories/ToolRepository.js";
 
 describe("toolManagementHandlerPackage.handler", () => {
   const handler = toolManagementHandlerPackage.handler;
   let mockContext: any;
   let mockToolService: any;
   let getUserToolsSpy;
+  let getUsageSpy: any;
 
   beforeAll(() => {
+    getUsageSpy = jest
+      .spyOn(UsageStatRepository.prototype, "getUsage")
+      .mockResolvedValue([]);
     getUserToolsSpy = jest
       .spyOn(UserRepository.prototype, "getUserTools")
       .mockResolvedValue([
@@ -277,6 +283,171 @@ describe("toolManagementHandlerPackage.handler", () => {
         expect(result.message).not.toContain("⚠️  WARNING");
         expect(result.message).not.toContain("duplicate base names");
       });
+
+      it("includes the usage statistics of each tool", async () => {
+        getUserToolsSpy.mockResolvedValue([
+          { name: "foo", creator: "system", description: "", hidden: false },
+          { name: "bar", creator: "system", description: "", hidden: false },
+        ]);
+        const lastUsed = new Date();
+        getUsageSpy.mockResolvedValueOnce([
+          {
+            kind: "tool",
+            name: "foo",
+            creator: "system",
+            callCount: 3,
+            errorCount: 1,
+            errorRate: 1 / 3,
+            avgMs: 40,
+            p50Ms: 50,
+            p95Ms: 100,
+            lastUsed,
+            users: 1,
+          },
+        ]);
+        const result = await handler({}, mockContext, { action: "list" });
+        expect(result.result.visibleTools[0].usage).toEqual({
+          callCount: 3,
+          errorCount: 1,
+          p50Ms: 50,
+          p95Ms: 100,
+          lastUsed,
+        });
+        expect(result.result.visibleTools[1].usage).toBeUndefined();
+        expect(getUsageSpy).toHaveBeenCalledWith({
+          kind: "tool",
+          names: ["foo", "bar"],
+        });
+      });
+
+      it("shows usage statistics only to the tool's creator and admins", async () => {
+        getUserToolsSpy.mockResolvedValue([
+          { name: "mine", creator: "test@example.com", description: "", hidden: false },
+          { name: "shared", creator: "other@example.com", description: "", hidden: false },
+        ]);
+        getUsageSpy.mockResolvedValueOnce([
+          { kind: "tool", name: "mine", creator: "test@example.com", callCount: 2 },
+        ]);
+        const result = await handler(
+          {},
+          { ...mockContext, user: { ...mockContext.user, roles: ["power-user"] } },
+          { action: "list" },
+        );
+        expect(getUsageSpy).toHaveBeenCalledWith({ kind: "tool", names: ["mine"] });
+        expect(result.result.visibleTools[0].usage).toMatchObject({ callCount: 2 });
+        expect(result.result.visibleTools[1].usage).toBeUndefined();
+      });
+    });
+
+    describe("usage-stats action", () => {
+      const summary = (name: string, callCount: number, p95Ms: number) => ({
+        kind: "tool" as const,
+        name,
+        creator: "system",
+        callCount,
+        errorCount: 0,
+        errorRate: 0,
+        avgMs: 10,
+        p50Ms: 10,
+        p95Ms,
+        lastUsed: new Date(),
+        users: 1,
+      });
+
+      it("sorts the statistics and lists tools that were never used", async () => {
+        getUsageSpy.mockResolvedValueOnce([
+          summary("foo", 10, 25),
+          summary("bar", 2, 5000),
+        ]);
+        jest.spyOn(ToolRepository.prototype, "findAll").mockResolvedValue([
+          { name: "foo", creator: "system" },
+          { name: "bar", creator: "system" },
+          { name: "old", creator: "a@example.com" },
+        ] as any);
+
+        const result = await handler({ sortBy: "p95" }, mockContext, {
+          action: "usage-stats",
+        });
+
+        expect(getUsageSpy).toHaveBeenCalledWith(
+          { kind: "tool", name: undefined, userEmail: undefined },
+          false,
+        );
+        expect(result.result.stats.map((s: any) => s.name)).toEqual([
+          "bar",
+          "foo",
+        ]);
+        expect(result.result.unused).toEqual(["a@example.com:old"]);
+      });
+
+      it("filters by user without reporting unused tools", async () => {
+        getUsageSpy.mockResolvedValueOnce([summary("foo", 1, 25)]);
+        const result = await handler(
+          { userEmail: "a@example.com", byUser: true },
+          mockContext,
+          { action: "usage-stats" },
+        );
+        expect(getUsageSpy).toHaveBeenCalledWith(
+          { kind: "tool", name: undefined, userEmail: "a@example.com" },
+          true,
+        );
+        expect(result.result.unused).toBeUndefined();
+      });
+    });
+
+    describe("import-openapi action", () => {
+      const document = '{"openapi":"3.0.0","paths":{}}';
+
+      it("imports the tools for the calling user", async () => {
+        mockToolService.importOpenApiTools = jest
+          .fn<any>()
+          .mockResolvedValue([{ name: "list-pets" }, { name: "create-pet" }]);
+        const result = await handler(
+          { document, baseUrl: "https://pets.example.com", tags: ["pets"] },
+          mockContext,
+          { action: "import-openapi" },
+        );
+        expect(mockToolService.importOpenApiTools).toHaveBeenCalledWith(
+          { document, path: undefined },
+          expect.objectContaining({
+            baseUrl: "https://pets.example.com",
+            tags: ["pets"],
+          }),
+          "test@example.com",
+          false,
+        );
+        expect(mockContext.mcpServer.notifyToolListChanged).toHaveBeenCalled();
+        expect(result.result).toEqual({
+          success: true,
+          names: ["list-pets", "create-pet"],
+        });
+      });
+
+      it("previews the tools without storing them on dryRun", async () => {
+        mockToolService.importOpenApiTools = jest
+          .fn<any>()
+          .mockResolvedValue([{ name: "list-pets" }]);
+        const result = await handler({ document, dryRun: true }, mockContext, {
+          action: "import-openapi",
+        });
+        expect(mockToolService.importOpenApiTools.mock.calls[0][3]).toBe(true);
+        expect(mockContext.mcpServer.notifyToolListChanged).not.toHaveBeenCalled();
+        expect(result.result.tools).toEqual([{ name: "list-pets" }]);
+      });
+
+      it("only lets admins read a file from the server", async () => {
+        mockToolService.importOpenApiTools = jest.fn();
+        const findByEmail = jest
+          .spyOn(UserRepository.prototype, "findByEmail")
+          .mockResolvedValue({ email: "test@example.com", roles: ["power-user"] } as any);
+        await expect(
+          handler({ path: "/etc/spec.yaml" }, mockContext, {
+            action: "import-openapi",
+          }),
+        ).rejects.toThrow("Only admins can import from a file path");
+        expect(mockToolService.importOpenApiTools).not.toHaveBeenCalled();
+        findByEmail.mockRestore();
+      });
     });
 
     it("throws on unknown action", async () => {
@@ -294,6 +465,9 @@ describe("toolManagementHandlerPackage.handler", () => {
       // Check for presence of key tools
       expect(tools.some((t) => t.name === "list-tools")).toBe(true);
       expect(tools.some((t) => t.name === "delete-tool")).toBe(true);
+      const addTool = tools.find((t) => t.name === "add-tool");
+      expect(addTool?.handler.config).toEqual({ action: "add" });
+      expect(addTool?.inputSchema.required).toEqual(["toolDefinition"]);
       // Check that each tool has required properties
       tools.forEach((tool) => {
         expect(tool).toHaveProperty("name");
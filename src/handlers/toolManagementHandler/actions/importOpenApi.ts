@@ -0,0 +1,56 @@
+import { ToolOutput } from "../../../mcp/types.js";
+import { UserRepository } from "../../../db/repositories/UserRepository.js";
+
+export async function handleImportOpenApiAction(
+  args: Record<string, any>,
+  context: any,
+): Promise<ToolOutput> {
+  const mcpServer = context.mcpServer;
+  if (!mcpServer) {
+    throw new Error("McpServer not available in context");
+  }
+  const user = context.user;
+  if (!user || !user.email) {
+    throw new Error("User context with email is required to import tools");
+  }
+  if (!args.document && !args.path) {
+    throw new Error("Provide the OpenAPI document or the path of a file holding it");
+  }
+  // Reading files from the server is limited to admins
+  if (args.path && !args.document) {
+    const dbUser = await new UserRepository().findByEmail(user.email);
+    if (!dbUser?.roles?.includes("admin")) {
+      throw new Error(
+        "Only admins can import from a file path. Paste the document instead.",
+      );
+    }
+  }
+
+  const tools = await mcpServer.toolService.importOpenApiTools(
+    { document: args.document, path: args.path },
+    {
+      baseUrl: args.baseUrl,
+      operations: args.operations,
+      tags: args.tags,
+      namePrefix: args.namePrefix,
+      auth: args.auth,
+      rolesPermitted: args.rolesPermitted,
+    },
+    user.email,
+    args.dryRun === true,
+  );
+  const names = tools.map((tool: { name: string }) => tool.name);
+
+  if (args.dryRun) {
+    return {
+      result: { tools },
+      message: `${tools.length} tool(s) would be created: ${names.join(", ")}`,
+      nextSteps: ["Run import-openapi again without dryRun to create them"],
+    };
+  }
+  await mcpServer.notifyToolListChanged();
+  return {
+    result: { success: true, names },
+    message: `Imported ${tools.length} tool(s): ${names.join(", ")}`,
+  };
+}
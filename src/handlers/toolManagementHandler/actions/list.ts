@@ -1,4 +1,5 @@
 import { ToolOutput } from "../../../mcp/types.js";
+import { UsageStatRepository } from "../../../db/repositories/UsageStatRepository.js";
 
 export async function handleListToolsAction(
   args: Record<string, any>,
@@ -22,6 +23,33 @@ export async function handleListToolsAction(
         tool.name.toLowerCase().includes(nameContains),
       )
     : allUserTools;
+  // Usage statistics are shown to the tool's creator and to admins only
+  const isAdmin = (user.roles || []).includes("admin");
+  const canSeeUsage = (tool: any) => isAdmin || tool.creator === user.email;
+  const names = filteredTools
+    .filter((t: any) => !t.hidden && canSeeUsage(t))
+    .map((t: any) => t.name);
+  const usage = names.length
+    ? await new UsageStatRepository().getUsage({ kind: "tool", names })
+    : [];
+  const usageByTool = new Map(
+    usage.map((u) => [`${u.creator ?? ""}:${u.name}`, u]),
+  );
+  const usageOf = (tool: any) => {
+    if (!canSeeUsage(tool)) {
+      return undefined;
+    }
+    const stats = usageByTool.get(`${tool.creator ?? ""}:${tool.name}`);
+    return stats
+      ? {
+          callCount: stats.callCount,
+          errorCount: stats.errorCount,
+          p50Ms: stats.p50Ms,
+          p95Ms: stats.p95Ms,
+          lastUsed: stats.lastUsed,
+        }
+      : undefined;
+  };
   const visibleTools = filteredTools
     .filter((t: any) => !t.hidden)
     .map((t: any) => ({
@@ -29,6 +57,7 @@ export async function handleListToolsAction(
       description: t.description,
       hidden: t.hidden,
       alwaysVisible: t.alwaysVisible,
+      usage: usageOf(t),
     }));
   const hiddenToolNames = filteredTools
     .filter((t: any) => t.hidden)
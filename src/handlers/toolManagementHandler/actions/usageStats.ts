@@ -0,0 +1,75 @@
+import { ToolOutput } from "../../../mcp/types.js";
+import {
+  UsageStatRepository,
+  UsageSummary,
+} from "../../../db/repositories/UsageStatRepository.js";
+
+const usageStatRepository = new UsageStatRepository();
+
+const sorters: Record<string, (a: UsageSummary, b: UsageSummary) => number> = {
+  calls: (a, b) => b.callCount - a.callCount,
+  errors: (a, b) => b.errorCount - a.errorCount || b.errorRate - a.errorRate,
+  p95: (a, b) => (b.p95Ms ?? 0) - (a.p95Ms ?? 0),
+  lastUsed: (a, b) =>
+    new Date(b.lastUsed).getTime() - new Date(a.lastUsed).getTime(),
+};
+
+export async function handleUsageStatsAction(
+  args: Record<string, any>,
+  _context: any,
+): Promise<ToolOutput> {
+  const kind = args.kind === "prompt" ? "prompt" : "tool";
+  const sortBy = args.sortBy || "calls";
+  const sorter = sorters[sortBy];
+  if (!sorter) {
+    throw new Error(
+      `Unknown sortBy '${sortBy}': use ${Object.keys(sorters).join(", ")}`,
+    );
+  }
+  const limit = args.limit ?? 50;
+
+  const usage = await usageStatRepository.getUsage(
+    { kind, name: args.name, userEmail: args.userEmail },
+    !!args.byUser,
+  );
+  usage.sort(sorter);
+
+  // Dead tools only make sense across all users and names
+  let unused: string[] | undefined;
+  if (!args.name && !args.userEmail) {
+    if (kind === "tool") {
+      const used = new Set(usage.map((u) => `${u.creator}:${u.name}`));
+      // Imported lazily: ToolRepository depends on the handler packages
+      const { ToolRepository } = await import(
+        "../../../db/repositories/ToolRepository.js"
+      );
+      unused = (await new ToolRepository().findAll())
+        .map((tool) => `${tool.creator}:${tool.name}`)
+        .filter((name) => !used.has(name));
+    } else {
+      const used = new Set(usage.map((u) => u.name));
+      const { PromptRepository } = await import(
+        "../../../db/repositories/PromptRepository.js"
+      );
+      unused = (await new PromptRepository().getAllPrompts())
+        .map((prompt) => prompt.name)
+        .filter((name) => !used.has(name));
+    }
+  }
+
+  return {
+    result: {
+      kind,
+      stats: usage.slice(0, limit),
+      total: usage.length,
+      ...(unused ? { unused } : {}),
+    },
+    message: `Usage of ${usage.length} ${kind}(s)${
+      unused ? `; ${unused.length} ${kind}(s) have never been used` : ""
+    }`,
+    nextSteps: [
+      "p50Ms and p95Ms are estimated from latency buckets.",
+      "Use sortBy 'errors' or 'p95' to find failing or slow tools, and byUser to see who uses them.",
+    ],
+  };
+}
@@ -7,6 +7,8 @@ import { handleDeleteToolAction } from "./actions/delete.js";
 import { handleListToolsAction } from "./actions/list.js";
 import { handleAddToolAction } from "./actions/add.js";
 import { handleUpdateToolAction } from "./actions/update.js";
+import { handleUsageStatsAction } from "./actions/usageStats.js";
+import { handleImportOpenApiAction } from "./actions/importOpenApi.js";
 
 const actionHandlers: Record<
   string,
@@ -20,6 +22,8 @@ const actionHandlers: Record<
   list: handleListToolsAction,
   add: handleAddToolAction,
   update: handleUpdateToolAction,
+  "usage-stats": handleUsageStatsAction,
+  "import-openapi": handleImportOpenApiAction,
 };
 
 const handler: HandlerFunction = async (
@@ -29,6 +29,77 @@ export const toolManagementTools: ToolDefinition[] = [
       },
     },
   },
+  {
+    name: "add-tool",
+    description:
+      "Add a tool, e.g. one served by the built-in http, script or pipeline handler",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        toolDefinition: {
+          type: "object",
+          description: "The definition of the new tool",
+          properties: {
+            name: {
+              type: "string",
+              description: "Name of the tool, without ':'",
+            },
+            description: {
+              type: "string",
+              description: "What the tool does",
+            },
+            inputSchema: {
+              type: "object",
+              description: "JSON Schema of the tool's arguments",
+            },
+            outputSchema: {
+              type: "object",
+              description: "JSON Schema of the tool's structured result",
+            },
+            annotations: {
+              type: "object",
+              description: "MCP tool annotations, e.g. readOnlyHint",
+            },
+            handler: {
+              type: "object",
+              description:
+                'The handler that runs the tool, e.g. { "type": "http", "config": { "url": "..." } }',
+              properties: {
+                type: { type: "string" },
+                config: { type: "object" },
+              },
+              required: ["type"],
+            },
+            rolesPermitted: {
+              type: "array",
+              items: { type: "string" },
+              description: "Roles that may call the tool",
+            },
+            timeoutMs: {
+              type: "number",
+              description: "Longest a call may run",
+            },
+          },
+          required: ["name", "inputSchema", "handler"],
+        },
+      },
+      required: ["toolDefinition"],
+    },
+    rolesPermitted: ["admin", "power-user"],
+    annotations: {
+      title: "Add Tool",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+    handler: {
+      type: "tool-management",
+      config: {
+        action: "add",
+      },
+    },
+  },
   {
     name: "delete-tool",
     description: "Delete a tool",
@@ -83,4 +154,123 @@ export const toolManagementTools: ToolDefinition[] = [
       },
     },
   },
+  {
+    name: "tool-usage-stats",
+    description:
+      "Show how often tools (or prompts) are called, their error counts, p50/p95 latency and when they were last used, to find unused tools and hot spots",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        kind: {
+          type: "string",
+          enum: ["tool", "prompt"],
+          default: "tool",
+          description: "Report on tools or prompts",
+        },
+        name: { type: "string", description: "Only this tool or prompt" },
+        userEmail: { type: "string", description: "Only calls by this user" },
+        byUser: {
+          type: "boolean",
+          description: "Break the counters down per user",
+        },
+        sortBy: {
+          type: "string",
+          enum: ["calls", "errors", "p95", "lastUsed"],
+          default: "calls",
+          description: "Order of the results",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of tools returned (default 50)",
+        },
+      },
+    },
+    rolesPermitted: ["admin"],
+    annotations: {
+      title: "Tool Usage Statistics",
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+    handler: {
+      type: "tool-management",
+      config: {
+        action: "usage-stats",
+      },
+    },
+  },
+  {
+    name: "import-openapi",
+    description:
+      "Create one tool per operation of an OpenAPI 3 document (JSON or YAML), calling the API through the built-in http handler. Use dryRun to preview the tools first.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        document: {
+          type: "string",
+          description: "The OpenAPI document, pasted as JSON or YAML",
+        },
+        path: {
+          type: "string",
+          description:
+            "Path of an OpenAPI document on the server (admins only)",
+        },
+        baseUrl: {
+          type: "string",
+          description:
+            "Base URL of the API (defaults to the document's first server)",
+        },
+        operations: {
+          type: "array",
+          items: { type: "string" },
+          description:
+            'operationIds or "METHOD /path" of the operations to import (all if omitted)',
+        },
+        tags: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only import operations with one of these tags",
+        },
+        namePrefix: {
+          type: "string",
+          description: 'Prepended to every tool name, e.g. "billing-"',
+        },
+        auth: {
+          type: "object",
+          properties: {
+            appKey: { type: "string" },
+            type: { type: "string", enum: ["bearer", "basic"] },
+          },
+          required: ["appKey"],
+          description:
+            "Send the calling user's stored credentials for this application (admins only)",
+        },
+        rolesPermitted: {
+          type: "array",
+          items: { type: "string" },
+          description:
+            "Roles that may call the tools (default none: only you, and the users you share them with)",
+        },
+        dryRun: {
+          type: "boolean",
+          description: "Return the generated tools without storing them",
+        },
+      },
+    },
+    rolesPermitted: ["admin", "power-user"],
+    annotations: {
+      title: "Import OpenAPI",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+    handler: {
+      type: "tool-management",
+      config: {
+        action: "import-openapi",
+      },
+    },
+  },
 ];
@@ -14,7 +14,6 @@ describe("userManagementHandlerPackage.handler", () => {
       createdAt: new Date(),
       updatedAt: new Date(),
       sharedTools: [],
-      apiKey: "test-key",
       hiddenTools: [],
     };
     context = {
@@ -31,7 +30,6 @@ describe("userManagementHandlerPackage.handler", () => {
         createdAt: new Date(),
         updatedAt: new Date(),
         sharedTools: [],
-        apiKey: "test-key",
         hiddenTools: [],
       },
     ]);
@@ -56,6 +54,7 @@ describe("userManagementHandlerPackage.handler", () => {
       { action: "add" },
     );
     expect(result.result.email).toBe("b@example.com");
+    expect(result.result.apiKey).toBe("test-key");
   });
 
   it("should error if adding user without email", async () => {
@@ -71,7 +70,6 @@ describe("userManagementHandlerPackage.handler", () => {
       createdAt: new Date(),
       updatedAt: new Date(),
       sharedTools: [],
-      apiKey: "test-key",
       hiddenTools: [],
     });
     context.user.roles = ["admin"];
@@ -109,7 +107,6 @@ describe("userManagementHandlerPackage.handler", () => {
       createdAt: new Date(),
       updatedAt: new Date(),
       sharedTools: [],
-      apiKey: "test-key",
       hiddenTools: [],
     });
     jest.spyOn(UserRepository.prototype, "updateUser").mockResolvedValue({
@@ -124,7 +121,6 @@ describe("userManagementHandlerPackage.handler", () => {
           sharedAt: new Date(),
         },
       ],
-      apiKey: "test-key",
       hiddenTools: [],
     });
     const result = await handler(
@@ -151,7 +147,6 @@ describe("userManagementHandlerPackage.handler", () => {
           sharedAt: new Date(),
         },
       ],
-      apiKey: "test-key",
       hiddenTools: [],
     });
     jest.spyOn(UserRepository.prototype, "updateUser").mockResolvedValue({
@@ -159,7 +154,6 @@ describe("userManagementHandlerPackage.handler", () => {
       createdAt: new Date(),
       updatedAt: new Date(),
       sharedTools: [],
-      apiKey: "test-key",
       hiddenTools: [],
     });
     const result = await handler(
@@ -197,7 +191,6 @@ describe("userManagementHandlerPackage.handler", () => {
         createdAt: new Date(),
         updatedAt: new Date(),
         sharedTools: [],
-        apiKey: "test-key",
         hiddenTools: ["t1", "t2"],
       });
     const result = await handler({ toolId: ["t1", "t2"] }, context, {
@@ -226,7 +219,6 @@ describe("userManagementHandlerPackage.handler", () => {
         createdAt: new Date(),
         updatedAt: new Date(),
         sharedTools: [],
-        apiKey: "test-key",
         hiddenTools: ["t2"],
       });
     const result = await handler({ toolId: ["t1", "t2"] }, context, {
@@ -238,6 +230,232 @@ describe("userManagementHandlerPackage.handler", () => {
     expect(spy).toHaveBeenCalledWith("admin@example.com", ["t1", "t2"]);
   });
 
+  it("should reset an API key and return the new key once", async () => {
+    const spy = jest
+      .spyOn(UserRepository.prototype, "resetApiKey")
+      .mockResolvedValue({
+        email: "admin@example.com",
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        sharedTools: [],
+        apiKey: "new-key",
+        hiddenTools: [],
+      });
+    jest
+      .spyOn(UserRepository.prototype, "sendConnectionInstructionsEmail")
+      .mockResolvedValue(undefined);
+    const result = await handler({ userConfirmed: true }, context, {
+      action: "reset-api-key",
+    });
+    expect(spy).toHaveBeenCalledWith("admin@example.com");
+    expect(result.result).toEqual({
+      email: "admin@example.com",
+      apiKey: "new-key",
+    });
+  });
+
+  it("should not let update-user change API key fields", async () => {
+    const spy = jest
+      .spyOn(UserRepository.prototype, "updateUser")
+      .mockResolvedValue({ ...baseUser });
+    await handler(
+      { email: "admin@example.com", name: "A", apiKey: "x", apiKeys: [] },
+      context,
+      { action: "update" },
+    );
+    expect(spy).toHaveBeenCalledWith("admin@example.com", { name: "A" });
+  });
+
+  it("should create a named, scoped and expiring API key", async () => {
+    const spy = jest
+      .spyOn(UserRepository.prototype, "createApiKey")
+      .mockImplementation(async (_email, options) => ({
+        apiKey: "plain-key",
+        key: {
+          name: options.name,
+          prefix: "plain-ke",
+          createdAt: new Date(),
+          expiresAt: options.expiresAt,
+          scope: options.scope,
+        },
+      }));
+    const result = await handler(
+      { name: "ci-bot", expiresInDays: 30, tools: ["tool-management:list-tools"] },
+      context,
+      { action: "create-api-key" },
+    );
+    expect(spy).toHaveBeenCalledWith("admin@example.com", {
+      name: "ci-bot",
+      expiresAt: expect.any(Date),
+      scope: { tools: ["tool-management:list-tools"] },
+    });
+    expect(result.result.apiKey).toBe("plain-key");
+    expect(result.result.scope).toEqual({ tools: ["tool-management:list-tools"] });
+  });
+
+  it("should require namespaced tool names in an API key scope", async () => {
+    const spy = jest.spyOn(UserRepository.prototype, "createApiKey");
+    await expect(
+      handler({ name: "ci-bot", tools: ["list-tools"] }, context, {
+        action: "create-api-key",
+      }),
+    ).rejects.toThrow(/creator:name.*Not namespaced: list-tools/);
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  it("should keep keys created from a scoped session within its scope", async () => {
+    const { ToolRepository } = await import(
+      "../../../db/repositories/ToolRepository.js"
+    );
+    jest
+      .spyOn(ToolRepository.prototype, "findByNamespacedName")
+      .mockImplementation(async (namespacedName) => {
+        const [creator, name] = namespacedName.split(":");
+        return { name, creator, handler: { type: creator } } as any;
+      });
+    const spy = jest
+      .spyOn(UserRepository.prototype, "createApiKey")
+      .mockResolvedValue({
+        apiKey: "plain-key",
+        key: { name: "narrow", prefix: "plain-ke", createdAt: new Date() },
+      });
+    const scopedContext = {
+      ...context,
+      apiKeyScope: {
+        tools: ["a@example.com:report"],
+        handlers: ["user-management"],
+      },
+    };
+
+    await expect(
+      handler({ name: "wide" }, scopedContext, { action: "create-api-key" }),
+    ).rejects.toThrow(/must be limited/);
+    await expect(
+      handler(
+        { name: "wide", tools: ["b@example.com:report"], handlers: ["tool-management"] },
+        scopedContext,
+        { action: "create-api-key" },
+      ),
+    ).rejects.toThrow(
+      "Outside the scope of this session's API key: tool-management, b@example.com:report",
+    );
+    expect(spy).not.toHaveBeenCalled();
+
+    await handler(
+      {
+        name: "narrow",
+        tools: ["a@example.com:report", "user-management:list-users"],
+      },
+      scopedContext,
+      { action: "create-api-key" },
+    );
+    expect(spy).toHaveBeenCalledWith("admin@example.com", {
+      name: "narrow",
+      expiresAt: undefined,
+      scope: { tools: ["a@example.com:report", "user-management:list-users"] },
+    });
+  });
+
+  it("should reject invalid API key names and expiries", async () => {
+    await expect(
+      handler({ name: "bad name!" }, context, { action: "create-api-key" }),
+    ).rejects.toThrow(/name is required/);
+    await expect(
+      handler(
+        { name: "old", expiresAt: "2000-01-01T00:00:00Z" },
+        context,
+        { action: "create-api-key" },
+      ),
+    ).rejects.toThrow(/must be in the future/);
+  });
+
+  it("should not let a scoped session reset API keys", async () => {
+    const spy = jest.spyOn(UserRepository.prototype, "resetApiKey");
+    await expect(
+      handler(
+        { userConfirmed: true },
+        { ...context, apiKeyScope: { handlers: ["user-management"] } },
+        { action: "reset-api-key" },
+      ),
+    ).rejects.toThrow(/cannot reset API keys/);
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  it("should only let admins manage another user's API keys", async () => {
+    const spy = jest
+      .spyOn(UserRepository.prototype, "listApiKeys")
+      .mockResolvedValue([
+        {
+          name: "default",
+          prefix: "abcd1234",
+          createdAt: new Date(),
+          expiresAt: new Date(Date.now() - 1000),
+        },
+      ]);
+    const result = await handler({ email: "other@example.com" }, context, {
+      action: "list-api-keys",
+    });
+    expect(spy).toHaveBeenCalledWith("admin@example.com");
+    expect(result.result.apiKeys[0]).toMatchObject({
+      name: "default",
+      expired: true,
+    });
+
+    context.user.roles = ["admin"];
+    await handler({ email: "other@example.com" }, context, {
+      action: "list-api-keys",
+    });
+    expect(spy).toHaveBeenLastCalledWith("other@example.com");
+  });
+
+  it("should revoke an API key by name", async () => {
+    const spy = jest
+      .spyOn(UserRepository.prototype, "revokeApiKey")
+      .mockResolvedValueOnce(true)
+      .mockResolvedValueOnce(false);
+    const result = await handler({ name: "laptop-cursor" }, context, {
+      action: "revoke-api-key",
+    });
+    expect(spy).toHaveBeenCalledWith("admin@example.com", "laptop-cursor");
+    expect(result.result.success).toBe(true);
+    await expect(
+      handler({ name: "missing" }, context, { action: "revoke-api-key" }),
+    ).rejects.toThrow(/not found/);
+  });
+
+  it("should share and unshare resources through the resource service", async () => {
+    const resourceService = {
+      shareResource: jest.fn(async () => undefined),
+      unshareResource: jest.fn(async () => undefined),
+    };
+    context.mcpServer.resourceService = resourceService;
+    const result = await handler(
+      { email: "user@example.com", uri: "notes://mine" },
+      context,
+      { action: "share-resource" },
+    );
+    expect(resourceService.shareResource).toHaveBeenCalledWith(
+      "notes://mine",
+      "user@example.com",
+      "admin@example.com",
+    );
+    expect(result.message).toBe(
+      "Resource 'notes://mine' shared with 'user@example.com' by 'admin@example.com'",
+    );
+
+    await handler({ email: "user@example.com", uri: "notes://mine" }, context, {
+      action: "unshare-resource",
+    });
+    expect(resourceService.unshareResource).toHaveBeenCalledWith(
+      "notes://mine",
+      "user@example.com",
+      "admin@example.com",
+    );
+    await expect(
+      handler({ email: "user@example.com" }, context, { action: "share-resource" }),
+    ).rejects.toThrow("email and uri are required");
+  });
+
   it("should error if unhide-tool called with non-array toolId", async () => {
     await expect(
       handler({ toolId: "t1" }, context, { action: "unhide-tool" }),
@@ -30,6 +30,6 @@ export async function handleAddUserAction(
       roles: user.roles,
       apiKey: user.apiKey,
     },
-    message: `User '${email}' added successfully`,
+    message: `User '${email}' added successfully. The API key is only shown once and cannot be retrieved later.`,
   };
 }
@@ -0,0 +1,113 @@
+import { ToolOutput } from "../../../mcp/types.js";
+import { UserRepository } from "../../../db/repositories/UserRepository.js";
+import { ApiKeyScope } from "../../../db/models/User.js";
+import { resolveTargetEmail } from "../authz.js";
+import { isToolInScope } from "../../../utils/apiKeys.js";
+
+const userRepository = new UserRepository();
+
+const KEY_NAME_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+// A key created from a session opened with a scoped key may not reach beyond
+// that key's scope
+async function checkWithinSessionScope(
+  scope: ApiKeyScope | undefined,
+  sessionScope: ApiKeyScope | undefined,
+): Promise<void> {
+  const sessionTools = sessionScope?.tools || [];
+  const sessionHandlers = sessionScope?.handlers || [];
+  if (sessionTools.length === 0 && sessionHandlers.length === 0) {
+    return;
+  }
+  if (!scope) {
+    throw new Error(
+      "This session's API key is limited to certain tools, so new keys must be limited to tools or handlers within that scope",
+    );
+  }
+
+  const outside = (scope.handlers || []).filter(
+    (handler) => !sessionHandlers.includes(handler),
+  );
+  // ToolRepository imports the handler packages, so load it on first use
+  const { ToolRepository } = await import(
+    "../../../db/repositories/ToolRepository.js"
+  );
+  const toolRepo = new ToolRepository();
+  for (const name of scope.tools || []) {
+    if (sessionTools.includes(name)) continue;
+    const tool = await toolRepo.findByNamespacedName(name);
+    if (!tool || !isToolInScope(sessionScope, tool)) {
+      outside.push(name);
+    }
+  }
+  if (outside.length > 0) {
+    throw new Error(
+      `Outside the scope of this session's API key: ${outside.join(", ")}`,
+    );
+  }
+}
+
+export async function handleCreateApiKeyAction(
+  args: Record<string, any>,
+  context: any,
+): Promise<ToolOutput> {
+  const targetEmail = resolveTargetEmail(context.user, args.email);
+  if (!targetEmail) throw new Error("No user email found in session context");
+
+  const { name, expiresAt, expiresInDays, tools, handlers } = args;
+  if (!name || !KEY_NAME_PATTERN.test(name)) {
+    throw new Error(
+      "name is required and may only contain letters, digits, '.', '_' and '-' (max 64 characters)",
+    );
+  }
+
+  let expiry: Date | undefined;
+  if (expiresAt) {
+    expiry = new Date(expiresAt);
+    if (isNaN(expiry.getTime())) {
+      throw new Error("expiresAt must be an ISO 8601 date-time");
+    }
+  } else if (expiresInDays !== undefined) {
+    if (typeof expiresInDays !== "number" || expiresInDays <= 0) {
+      throw new Error("expiresInDays must be a positive number");
+    }
+    expiry = new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000);
+  }
+  if (expiry && expiry.getTime() <= Date.now()) {
+    throw new Error("The expiry must be in the future");
+  }
+
+  let scope: ApiKeyScope | undefined;
+  if (Array.isArray(tools) && tools.length > 0) {
+    const bareNames = tools.filter(
+      (tool) => typeof tool !== "string" || !tool.includes(":"),
+    );
+    if (bareNames.length > 0) {
+      throw new Error(
+        `tools must be namespaced names (creator:name), e.g. 'user-management:list-users'; use list-tools to find them. Not namespaced: ${bareNames.join(", ")}`,
+      );
+    }
+    scope = { ...scope, tools };
+  }
+  if (Array.isArray(handlers) && handlers.length > 0) {
+    scope = { ...scope, handlers };
+  }
+  await checkWithinSessionScope(scope, context.apiKeyScope);
+
+  const { apiKey, key } = await userRepository.createApiKey(targetEmail, {
+    name,
+    expiresAt: expiry,
+    scope,
+  });
+
+  return {
+    result: { email: targetEmail, apiKey, ...key },
+    message:
+      `API key '${name}' created for '${targetEmail}'. ` +
+      `This is the only time the key is shown; it cannot be retrieved later.`,
+    nextSteps: [
+      "Configure the MCP client with this key (query parameter ?apiKey=... or header x-apikey).",
+      "Use list-api-keys to review keys and revoke-api-key to remove one.",
+    ],
+  };
+}
@@ -0,0 +1,36 @@
+import { ToolOutput } from "../../../mcp/types.js";
+import { UserRepository } from "../../../db/repositories/UserRepository.js";
+import { isApiKeyExpired } from "../../../utils/apiKeys.js";
+import { resolveTargetEmail } from "../authz.js";
+
+const userRepository = new UserRepository();
+
+export async function handleListApiKeysAction(
+  args: Record<string, any>,
+  context: any,
+): Promise<ToolOutput> {
+  const targetEmail = resolveTargetEmail(context.user, args.email);
+  if (!targetEmail) throw new Error("No user email found in session context");
+
+  const keys = await userRepository.listApiKeys(targetEmail);
+  if (!keys) throw new Error(`User '${targetEmail}' not found`);
+
+  const apiKeys = keys.map((key) => ({
+    name: key.name,
+    prefix: key.prefix,
+    createdAt: key.createdAt,
+    expiresAt: key.expiresAt ?? null,
+    lastUsedAt: key.lastUsedAt ?? null,
+    expired: isApiKeyExpired(key),
+    scope: key.scope ?? null,
+  }));
+
+  return {
+    result: { email: targetEmail, apiKeys, total: apiKeys.length },
+    message: `Found ${apiKeys.length} API key(s) for '${targetEmail}'`,
+    nextSteps: [
+      "Use create-api-key to add a key for another client.",
+      "Use revoke-api-key to remove keys that are unused or expired.",
+    ],
+  };
+}
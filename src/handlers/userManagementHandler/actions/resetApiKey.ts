@@ -1,6 +1,5 @@
 import { ToolOutput } from "../../../mcp/types.js";
 import { UserRepository } from "../../../db/repositories/UserRepository.js";
-import { randomUUID } from "crypto";
 import { canActOnUser } from "../authz.js";
 
 const userRepository = new UserRepository();
@@ -9,12 +8,20 @@ export async function handleResetApiKeyAction(
   args: Record<string, any>,
   context: any,
 ): Promise<ToolOutput> {
+  // The new default key is unscoped, and replaces every other key
+  const sessionScope = context.apiKeyScope;
+  if (sessionScope?.tools?.length || sessionScope?.handlers?.length) {
+    throw new Error(
+      "This session's API key is limited to certain tools, so it cannot reset API keys. Use create-api-key for a key within its scope, or connect with an unscoped key.",
+    );
+  }
+
   // Stateless confirmation logic
   if (!args.userConfirmed) {
     return {
       result: null,
       message:
-        "Are you sure you want to reset your API key? This will invalidate your current key and require you to update all clients. Please confirm before proceeding. Always call this tool first with userConfirmed: false (or omitted). Only set userConfirmed: true after the user has explicitly confirmed.",
+        "Are you sure you want to reset your API key? This will revoke all of your current API keys and require you to update all clients. Please confirm before proceeding. Always call this tool first with userConfirmed: false (or omitted). Only set userConfirmed: true after the user has explicitly confirmed.",
       nextSteps: [
         "Ask the user to confirm they want to reset their API key.",
         "If confirmed, call this tool again with userConfirmed: true.",
@@ -35,11 +42,8 @@ export async function handleResetApiKeyAction(
 
   if (!targetEmail) throw new Error("No user email found in session context");
 
-  // Generate a new API key and update the user
-  const newApiKey = randomUUID();
-  const user = await userRepository.updateUser(targetEmail, {
-    apiKey: newApiKey,
-  });
+  // Generate a new API key and update the user (only the hash is stored)
+  const user = await userRepository.resetApiKey(targetEmail);
   if (!user) throw new Error(`User '${targetEmail}' not found`);
 
   // Send connection instructions email with a custom message
@@ -53,9 +57,10 @@ export async function handleResetApiKeyAction(
   }
 
   return {
-    result: user,
+    result: { email: user.email, apiKey: user.apiKey },
     message:
       `API key for user '${targetEmail}' has been reset and emailed to the user.\n` +
+      `This is the only time the new key is shown; it cannot be retrieved later.\n` +
       `All MCP clients using this server must now be reconfigured to use the new API key.`,
   };
 }
@@ -0,0 +1,25 @@
+import { ToolOutput } from "../../../mcp/types.js";
+import { UserRepository } from "../../../db/repositories/UserRepository.js";
+import { resolveTargetEmail } from "../authz.js";
+
+const userRepository = new UserRepository();
+
+export async function handleRevokeApiKeyAction(
+  args: Record<string, any>,
+  context: any,
+): Promise<ToolOutput> {
+  const targetEmail = resolveTargetEmail(context.user, args.email);
+  if (!targetEmail) throw new Error("No user email found in session context");
+
+  const { name } = args;
+  if (!name) throw new Error("name is required");
+
+  const revoked = await userRepository.revokeApiKey(targetEmail, name);
+  if (!revoked) {
+    throw new Error(`API key '${name}' not found for '${targetEmail}'`);
+  }
+  return {
+    result: { success: true, email: targetEmail, name },
+    message: `API key '${name}' revoked for '${targetEmail}'. Sessions opened with it are closed on their next request.`,
+  };
+}
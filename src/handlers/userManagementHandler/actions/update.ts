@@ -14,6 +14,9 @@ export async function handleUpdateUserAction(
   if (!canActOnUser(sessionUser, email)) {
     throw new Error("Not authorized to update this user");
   }
+  // API keys can only be changed through the API key tools
+  delete updates.apiKey;
+  delete updates.apiKeys;
   const isAdmin = sessionUser?.roles?.includes("admin");
   // Non-admins cannot update roles or other sensitive fields
   if (!isAdmin) {
@@ -5,3 +5,13 @@ export function canActOnUser(sessionUser: any, targetEmail: string): boolean {
   const isAdmin = sessionUser?.roles?.includes("admin");
   return isSelf || isAdmin;
 }
+
+// Admins may act on another user via an explicit email; everyone else acts on themselves
+export function resolveTargetEmail(
+  sessionUser: any,
+  requestedEmail?: string,
+): string | undefined {
+  return sessionUser?.roles?.includes("admin") && requestedEmail
+    ? requestedEmail
+    : sessionUser?.email;
+}
@@ -7,6 +7,9 @@ import { handleAddUserAction } from "./actions/add.js";
 import { handleUpdateUserAction } from "./actions/update.js";
 import { handleDeleteUserAction } from "./actions/delete.js";
 import { handleResetApiKeyAction } from "./actions/resetApiKey.js";
+import { handleCreateApiKeyAction } from "./actions/createApiKey.js";
+import { handleListApiKeysAction } from "./actions/listApiKeys.js";
+import { handleRevokeApiKeyAction } from "./actions/revokeApiKey.js";
 import { UserRepository } from "../../db/repositories/UserRepository.js";
 
 const userRepository = new UserRepository();
@@ -23,8 +26,13 @@ const actionHandlers: Record<
   "update": handleUpdateUserAction,
   "delete": handleDeleteUserAction,
   "reset-api-key": handleResetApiKeyAction,
+  "create-api-key": handleCreateApiKeyAction,
+  "list-api-keys": handleListApiKeysAction,
+  "revoke-api-key": handleRevokeApiKeyAction,
   "share-tool": handleShareToolAction,
   "unshare-tool": handleUnshareToolAction,
+  "share-resource": handleShareResourceAction,
+  "unshare-resource": handleUnshareResourceAction,
   "user-info": handleUserInfoAction,
   "hide-tool": handleHideToolAction,
   "unhide-tool": handleUnhideToolAction,
@@ -125,6 +133,36 @@ async function handleUnshareToolAction(
   );
 }
 
+async function handleShareResourceAction(
+  args: Record<string, any>,
+  context: any,
+  _handlerConfig: { action: string },
+): Promise<ToolOutput> {
+  const { email, uri } = args;
+  if (!email || !uri) throw new Error("email and uri are required");
+  const sharedBy = context?.user?.email;
+  await context.mcpServer.resourceService.shareResource(uri, email, sharedBy);
+  return {
+    result: { success: true, email, uri },
+    message: `Resource '${uri}' shared with '${email}' by '${sharedBy}'`,
+  };
+}
+
+async function handleUnshareResourceAction(
+  args: Record<string, any>,
+  context: any,
+  _handlerConfig: { action: string },
+): Promise<ToolOutput> {
+  const { email, uri } = args;
+  if (!email || !uri) throw new Error("email and uri are required");
+  const unsharedBy = context?.user?.email;
+  await context.mcpServer.resourceService.unshareResource(uri, email, unsharedBy);
+  return {
+    result: { success: true, email, uri },
+    message: `Resource '${uri}' unshared from '${email}' by '${unsharedBy}'`,
+  };
+}
+
 async function handleUserInfoAction(
   args: Record<string, any>,
   context: any,
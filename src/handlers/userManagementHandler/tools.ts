@@ -226,6 +226,74 @@ export const userManagementTools: ToolDefinition[] = [
       },
     },
   },
+  {
+    name: "share-resource",
+    description:
+      "Share a resource you created (or any resource, as an admin) with another user (adds to their sharedResources array)",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        email: {
+          type: "string",
+          description:
+            "Recipient user's email. Use list-users to find the user if needed.",
+        },
+        uri: {
+          type: "string",
+          description: "uri (or uriTemplate) of the resource to share",
+        },
+      },
+      required: ["email", "uri"],
+    },
+    rolesPermitted: ["admin", "power-user"],
+    annotations: {
+      title: "Share Resource",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+    handler: {
+      type: "user-management",
+      config: {
+        action: "share-resource",
+      },
+    },
+  },
+  {
+    name: "unshare-resource",
+    description:
+      "Unshare a resource from a user (removes from their sharedResources array)",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        email: {
+          type: "string",
+          description:
+            "Recipient user's email. Use list-users to find the user if needed.",
+        },
+        uri: {
+          type: "string",
+          description: "uri (or uriTemplate) of the resource to unshare",
+        },
+      },
+      required: ["email", "uri"],
+    },
+    rolesPermitted: ["admin", "power-user"],
+    annotations: {
+      title: "Unshare Resource",
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+    handler: {
+      type: "user-management",
+      config: {
+        action: "unshare-resource",
+      },
+    },
+  },
   {
     name: "remove-user",
     description:
@@ -350,7 +418,7 @@ export const userManagementTools: ToolDefinition[] = [
   {
     name: "reset-api-key",
     description:
-      "Reset a user's API key and email the new key to the user. Always call this tool first with userConfirmed: false (or omitted). Only set userConfirmed: true after the user has explicitly confirmed. For non-admin users, the email field is ignored and your own API key will be reset.",
+      "Reset a user's API key: revokes ALL of the user's API keys, issues a single new key and emails it to the user. To add a key without disconnecting other clients, use create-api-key instead. Always call this tool first with userConfirmed: false (or omitted). Only set userConfirmed: true after the user has explicitly confirmed. For non-admin users, the email field is ignored and your own API key will be reset.",
     inputSchema: {
       type: "object" as const,
       properties: {
@@ -381,4 +449,124 @@ export const userManagementTools: ToolDefinition[] = [
       },
     },
   },
+  {
+    name: "create-api-key",
+    description:
+      "Create an additional named API key (e.g. one per MCP client) without affecting existing keys. The key can optionally expire and be limited to certain tools or handler packages. The plaintext key is returned only once.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        name: {
+          type: "string",
+          description:
+            "Unique name for the key, e.g. 'laptop-cursor' or 'ci-bot' (letters, digits, '.', '_', '-').",
+        },
+        expiresInDays: {
+          type: "number",
+          description: "Optional number of days until the key expires.",
+        },
+        expiresAt: {
+          type: "string",
+          format: "date-time",
+          description:
+            "Optional ISO 8601 expiry date-time. Takes precedence over expiresInDays.",
+        },
+        tools: {
+          type: "array",
+          items: { type: "string" },
+          description:
+            "Optional list of namespaced tool names (creator:name) this key may use. Use list-tools to get valid names.",
+        },
+        handlers: {
+          type: "array",
+          items: { type: "string" },
+          description:
+            "Optional list of handler packages (e.g. 'user-management') whose tools this key may use.",
+        },
+        email: {
+          type: "string",
+          description:
+            "User email (optional, admin only). For non-admin users, this field is ignored and the key is created for you.",
+        },
+      },
+      required: ["name"],
+    },
+    rolesPermitted: ["user", "power-user", "admin"],
+    annotations: {
+      title: "Create API Key",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
+    handler: {
+      type: "user-management",
+      config: {
+        action: "create-api-key",
+      },
+    },
+  },
+  {
+    name: "list-api-keys",
+    description:
+      "List a user's API keys with their prefix, expiry, last-used time and scope. Key values are never shown.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        email: {
+          type: "string",
+          description:
+            "User email (optional, admin only). For non-admin users, your own keys are listed.",
+        },
+      },
+    },
+    rolesPermitted: ["user", "power-user", "admin"],
+    annotations: {
+      title: "List API Keys",
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+    handler: {
+      type: "user-management",
+      config: {
+        action: "list-api-keys",
+      },
+    },
+  },
+  {
+    name: "revoke-api-key",
+    description:
+      "Revoke one named API key. Other keys keep working. Confirm with the user before calling this tool.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        name: {
+          type: "string",
+          description: "Name of the key to revoke. Use list-api-keys to find it.",
+        },
+        email: {
+          type: "string",
+          description:
+            "User email (optional, admin only). For non-admin users, your own key is revoked.",
+        },
+      },
+      required: ["name"],
+    },
+    rolesPermitted: ["user", "power-user", "admin"],
+    annotations: {
+      title: "Revoke API Key",
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+    handler: {
+      type: "user-management",
+      config: {
+        action: "revoke-api-key",
+      },
+    },
+  },
 ];
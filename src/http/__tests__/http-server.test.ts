@@ -1,23 +1,45 @@
 import { jest } from "@jest/globals";
+import http from "http";
+import { AddressInfo } from "net";
 import supertest from "supertest";
 import { HttpServer } from "../http-server.js";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { DynamicMcpServer } from "../../mcp/server.js";
 import { config } from "../../config/index.js";
+import { AuthService } from "../services/auth.js";
+import { UserRepository } from "../../db/repositories/UserRepository.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { adoptSession, reapExpiredSessions } from "../routes/streamable-http.js";
+import { createMetricsRoutes } from "../routes/metrics.js";
+import { InMemorySessionStore } from "../services/sessionStore.js";
+import { InMemoryEventStore } from "../services/eventStore.js";
 import logger from "../../utils/logger.js";
 
 describe("HttpServer", () => {
   let httpServer: HttpServer;
   let app: any;
+  let sessionManager: DynamicMcpServer;
+  const sessionStore = new InMemorySessionStore();
 
   beforeAll(() => {
     // Minimal mocks for required constructor args
     const mcpServer = new Server({ name: "test", version: "0.0.1" });
-    const sessionManager = {
+    sessionManager = {
       setSessionInfo: jest.fn(),
       removeSessionInfo: jest.fn(),
       notifyToolListChanged: jest.fn(),
+      createSessionServer: () => new Server({ name: "test", version: "0.0.1" }),
+      getSessionPolicy: jest.fn(() => ({
+        maxSessionsPerUser: "single",
+        roles: { "power-user": 2 },
+        idleTimeoutMs: 60 * 1000,
+        maxAgeMs: 0,
+      })),
+      getSessionStore: () => sessionStore,
+      createEventStore: () => new InMemoryEventStore(),
       connect: jest.fn(),
+      getHealth: jest.fn(),
+      isStopping: jest.fn(() => false),
     } as unknown as DynamicMcpServer;
 
     httpServer = new HttpServer(mcpServer, sessionManager, config, logger);
@@ -36,10 +58,104 @@ describe("HttpServer", () => {
       expect(res.status).toBe(200);
       expect(res.body).toEqual({ status: "ok" });
     });
+
+    it("GET /health/live returns 200 while the process is up", async () => {
+      const res = await supertest(app).get("/health/live");
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({ status: "ok" });
+    });
+
+    it("GET /health/ready returns 200 with the report when healthy", async () => {
+      const report = {
+        status: "ok",
+        version: "1.0.0",
+        uptimeSeconds: 5,
+        database: { status: "ok" },
+        handlers: [{ name: "tool-management", status: "ok" }],
+        sessions: { active: 2 },
+      };
+      (sessionManager.getHealth as jest.Mock<() => Promise<any>>).mockResolvedValueOnce(report);
+      const res = await supertest(app).get("/health/ready");
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual(report);
+    });
+
+    it("GET /health/ready returns 503 when degraded", async () => {
+      (sessionManager.getHealth as jest.Mock<() => Promise<any>>).mockResolvedValueOnce({
+        status: "degraded",
+        version: "1.0.0",
+        uptimeSeconds: 5,
+        database: { status: "ok" },
+        handlers: [{ name: "jira", status: "down", message: "init() failed" }],
+        sessions: { active: 0 },
+      });
+      const res = await supertest(app).get("/health/ready");
+      expect(res.status).toBe(503);
+      expect(res.body.status).toBe("degraded");
+      expect(res.body.handlers[0].status).toBe("down");
+    });
+
+    it("GET /health/ready returns 503 when the check itself fails", async () => {
+      (sessionManager.getHealth as jest.Mock<() => Promise<any>>).mockRejectedValueOnce(
+        new Error("boom"),
+      );
+      const res = await supertest(app).get("/health/ready");
+      expect(res.status).toBe(503);
+      expect(res.body).toEqual({ status: "down", error: "boom" });
+    });
   });
 
 
 
+  describe("Metrics", () => {
+    afterEach(() => {
+      config.metrics.token = "";
+    });
+
+    it("GET /metrics returns Prometheus metrics", async () => {
+      const res = await supertest(app).get("/metrics");
+      expect(res.status).toBe(200);
+      expect(res.headers["content-type"]).toMatch(/^text\/plain/);
+      expect(res.text).toContain("# TYPE mcp_tool_calls_total counter");
+      expect(res.text).toContain(
+        "# TYPE mcp_tool_call_duration_seconds histogram",
+      );
+      expect(res.text).toContain("# TYPE mcp_active_sessions gauge");
+    });
+
+    it("GET /metrics requires the metrics token when one is configured", async () => {
+      config.metrics.token = "scrape-secret";
+      expect((await supertest(app).get("/metrics")).status).toBe(401);
+      expect(
+        (
+          await supertest(app)
+            .get("/metrics")
+            .set("Authorization", "Bearer scrape-secreT")
+        ).status,
+      ).toBe(401);
+      const res = await supertest(app)
+        .get("/metrics")
+        .set("Authorization", "Bearer scrape-secret");
+      expect(res.status).toBe(200);
+    });
+
+    it("warns at startup when the metrics endpoint has no token", () => {
+      const warn = jest.spyOn(logger, "warn").mockImplementation(() => logger);
+      createMetricsRoutes({}, { token: "" });
+      createMetricsRoutes({}, { token: "scrape-secret" });
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining("set MCP_METRICS_TOKEN"));
+      warn.mockRestore();
+    });
+  });
+
+  describe("OAuth Metadata", () => {
+    it("GET /.well-known/oauth-protected-resource returns 404 when OAuth is not configured", async () => {
+      const res = await supertest(app).get("/.well-known/oauth-protected-resource");
+      expect(res.status).toBe(404);
+    });
+  });
+
   describe("Streamable HTTP Transport", () => {
     it("POST /mcp without API key returns 401", async () => {
       const initRequest = {
@@ -96,6 +212,458 @@ describe("HttpServer", () => {
     });
   });
 
+  describe("Session Policy", () => {
+    const initialize = (clientName: string) =>
+      supertest(app)
+        .post("/mcp")
+        .set("Accept", "application/json, text/event-stream")
+        .send({
+          jsonrpc: "2.0",
+          id: 1,
+          method: "initialize",
+          params: {
+            protocolVersion: "2025-03-26",
+            capabilities: {},
+            clientInfo: { name: clientName, version: "1.0.0" },
+          },
+        });
+
+    const ping = (sessionId: string, target = app) =>
+      supertest(target)
+        .post("/mcp")
+        .set("Accept", "application/json, text/event-stream")
+        .set("mcp-session-id", sessionId)
+        .send({ jsonrpc: "2.0", id: 2, method: "ping" });
+
+    const authenticateAs = (email: string, roles: string[]) =>
+      jest.spyOn(AuthService, "authenticateRequest").mockResolvedValue({
+        success: true,
+        user: { email, roles },
+        token: "test-key",
+      });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("evicts the previous session under the single session policy", async () => {
+      authenticateAs("single@example.com", ["user"]);
+      const first = await initialize("cursor");
+      const second = await initialize("claude-desktop");
+      const firstId = first.headers["mcp-session-id"];
+      expect(firstId).toBeDefined();
+      expect(second.headers["mcp-session-id"]).toBeDefined();
+
+      const res = await ping(firstId);
+      expect(res.status).toBe(404);
+      expect(res.body.error.data).toEqual({ reason: "session_evicted" });
+      expect(res.body.error.message).toContain("claude-desktop");
+      expect(res.body.error.message).toContain("at most 1 session per user");
+
+      const stillActive = await ping(second.headers["mcp-session-id"]);
+      expect(stillActive.status).toBe(200);
+    });
+
+    it("allows concurrent sessions up to the role limit", async () => {
+      authenticateAs("power@example.com", ["user", "power-user"]);
+      const first = await initialize("cursor");
+      const second = await initialize("claude-desktop");
+      expect((await ping(first.headers["mcp-session-id"])).status).toBe(200);
+
+      // A third session evicts the least recently used one
+      await ping(second.headers["mcp-session-id"]);
+      await initialize("inspector");
+      const res = await ping(first.headers["mcp-session-id"]);
+      expect(res.status).toBe(404);
+      expect(res.body.error.message).toContain("at most 2 sessions per user");
+      expect((await ping(second.headers["mcp-session-id"])).status).toBe(200);
+    });
+
+    it("reaps idle sessions and explains the expiry to the client", async () => {
+      authenticateAs("idle@example.com", ["user"]);
+      const sessionId = (await initialize("cursor")).headers["mcp-session-id"];
+
+      const sessions = (httpServer as any).sessions;
+      const soon = new Date(Date.now() + 30 * 1000);
+      expect(
+        await reapExpiredSessions(sessionManager, sessions, soon),
+      ).not.toContain(sessionId);
+
+      const later = new Date(Date.now() + 2 * 60 * 1000);
+      expect(
+        await reapExpiredSessions(sessionManager, sessions, later),
+      ).toContain(sessionId);
+      expect(sessionManager.removeSessionInfo).toHaveBeenCalledWith(
+        sessionId,
+        "idle",
+      );
+
+      const res = await ping(sessionId);
+      expect(res.status).toBe(404);
+      expect(res.body.error.data).toEqual({ reason: "session_expired" });
+      expect(res.body.error.message).toContain("1 minute(s) without activity");
+    });
+
+    it("closes sessions whose API key was revoked", async () => {
+      jest.spyOn(AuthService, "authenticateRequest").mockResolvedValue({
+        success: true,
+        user: { email: "revoked@example.com", roles: ["user"] },
+        token: "test-key",
+        apiKey: { name: "laptop", prefix: "test-key" },
+      });
+      const hasApiKey = jest
+        .spyOn(UserRepository.prototype, "hasApiKey")
+        .mockResolvedValue(true);
+      const sessionId = (await initialize("cursor")).headers["mcp-session-id"];
+      expect((await ping(sessionId)).status).toBe(200);
+      expect(hasApiKey).toHaveBeenCalledWith("revoked@example.com", "laptop", "test-key");
+
+      hasApiKey.mockResolvedValue(false);
+      const res = await ping(sessionId);
+      expect(res.status).toBe(404);
+      expect(res.body.error.data).toEqual({ reason: "api_key_revoked" });
+      expect(res.body.error.message).toContain("API key 'laptop' was revoked");
+      expect(sessionManager.removeSessionInfo).toHaveBeenCalledWith(sessionId, "revoked");
+      expect((await ping(sessionId)).status).toBe(404);
+    });
+
+    it("closes sessions whose API key has expired", async () => {
+      jest.spyOn(AuthService, "authenticateRequest").mockResolvedValue({
+        success: true,
+        user: { email: "expiring@example.com", roles: ["user"] },
+        token: "test-key",
+        apiKey: { name: "ci", prefix: "test-key", expiresAt: new Date(Date.now() + 200) },
+      });
+      jest.spyOn(UserRepository.prototype, "hasApiKey").mockResolvedValue(true);
+      const sessionId = (await initialize("cursor")).headers["mcp-session-id"];
+      expect((await ping(sessionId)).status).toBe(200);
+
+      await new Promise((resolve) => setTimeout(resolve, 250));
+      const res = await ping(sessionId);
+      expect(res.status).toBe(404);
+      expect(res.body.error.data).toEqual({ reason: "api_key_expired" });
+      expect(res.body.error.message).toContain("API key 'ci' has expired");
+    });
+  });
+
+  describe("Session Store", () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    const authenticateAs = (email: string) =>
+      jest.spyOn(AuthService, "authenticateRequest").mockResolvedValue({
+        success: true,
+        user: { email, roles: ["user"] },
+        token: "test-key",
+      });
+
+    const post = (target: any, body: any, sessionId?: string) => {
+      const req = supertest(target)
+        .post("/mcp")
+        .set("Accept", "application/json, text/event-stream");
+      if (sessionId) req.set("mcp-session-id", sessionId);
+      return req.send(body);
+    };
+
+    const initialize = (target: any) =>
+      post(target, {
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: {
+          protocolVersion: "2025-03-26",
+          capabilities: {},
+          clientInfo: { name: "cursor", version: "1.0.0" },
+        },
+      });
+
+    it("resumes a session on another server instance for the same user", async () => {
+      authenticateAs("resume@example.com");
+      const sessionId = (await initialize(app)).headers["mcp-session-id"];
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(await sessionStore.get(sessionId)).toMatchObject({
+        userEmail: "resume@example.com",
+        clientName: "cursor",
+      });
+
+      // A second instance (or this one after a restart) sharing the store
+      const replica = new HttpServer(
+        new Server({ name: "test", version: "0.0.1" }),
+        sessionManager,
+        config,
+        logger,
+      ).getApp();
+      const res = await post(
+        replica,
+        { jsonrpc: "2.0", id: 2, method: "ping" },
+        sessionId,
+      );
+      expect(res.status).toBe(200);
+      expect(res.text).toContain('"result":{}');
+      expect(sessionManager.setSessionInfo).toHaveBeenLastCalledWith(
+        sessionId,
+        expect.objectContaining({ user: { email: "resume@example.com" } }),
+      );
+    });
+
+    it("answers with a 500 when the session store fails", async () => {
+      jest.spyOn(sessionStore, "get").mockRejectedValue(new Error("store down"));
+      const res = await post(
+        app,
+        { jsonrpc: "2.0", id: 2, method: "ping" },
+        "unknown-session",
+      );
+      expect(res.status).toBe(500);
+      expect(res.body.error).toEqual({
+        code: -32603,
+        message: "Internal server error",
+      });
+
+      const messages = await supertest(app)
+        .post("/messages?sessionId=unknown-session")
+        .send({ jsonrpc: "2.0", id: 2, method: "ping" });
+      expect(messages.status).toBe(500);
+    });
+
+    it("adopts a session on a fresh transport of the pinned SDK", async () => {
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => "unused",
+      });
+      await new Server({ name: "test", version: "0.0.1" }).connect(transport);
+      adoptSession(transport, "adopted-session");
+
+      const res = await supertest((req: http.IncomingMessage, res: http.ServerResponse) =>
+        transport.handleRequest(req, res),
+      )
+        .post("/mcp")
+        .set("Accept", "application/json, text/event-stream")
+        .set("Content-Type", "application/json")
+        .set("mcp-session-id", "adopted-session")
+        .send({ jsonrpc: "2.0", id: 2, method: "ping" });
+      expect(res.status).toBe(200);
+      expect(res.text).toContain('"result":{}');
+      await transport.close();
+
+      expect(() => adoptSession({} as StreamableHTTPServerTransport, "x")).toThrow(
+        /no _initialized flag/,
+      );
+    });
+
+    it("does not let another user resume a stored session", async () => {
+      authenticateAs("owner@example.com");
+      const sessionId = (await initialize(app)).headers["mcp-session-id"];
+      await new Promise((resolve) => setImmediate(resolve));
+
+      authenticateAs("intruder@example.com");
+      const replica = new HttpServer(
+        new Server({ name: "test", version: "0.0.1" }),
+        sessionManager,
+        config,
+        logger,
+      ).getApp();
+      const res = await post(
+        replica,
+        { jsonrpc: "2.0", id: 2, method: "ping" },
+        sessionId,
+      );
+      expect(res.status).toBe(401);
+      expect(res.body.error).toMatch(/another user/);
+    });
+  });
+
+  describe("Shutdown", () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    const initialize = (target: any) =>
+      supertest(target)
+        .post("/mcp")
+        .set("Accept", "application/json, text/event-stream")
+        .send({
+          jsonrpc: "2.0",
+          id: 1,
+          method: "initialize",
+          params: {
+            protocolVersion: "2025-03-26",
+            capabilities: {},
+            clientInfo: { name: "cursor", version: "1.0.0" },
+          },
+        });
+
+    const ping = (target: any, sessionId: string) =>
+      supertest(target)
+        .post("/mcp")
+        .set("Accept", "application/json, text/event-stream")
+        .set("mcp-session-id", sessionId)
+        .send({ jsonrpc: "2.0", id: 2, method: "ping" });
+
+    it("refuses new sessions but serves live ones once stopping", async () => {
+      jest.spyOn(AuthService, "authenticateRequest").mockResolvedValue({
+        success: true,
+        user: { email: "drain@example.com", roles: ["user"] },
+        token: "test-key",
+      });
+      const server = new HttpServer(
+        new Server({ name: "test", version: "0.0.1" }),
+        sessionManager,
+        config,
+        logger,
+      );
+      const sessionId = (await initialize(server.getApp())).headers[
+        "mcp-session-id"
+      ];
+
+      server.stopAcceptingSessions();
+
+      const rejected = await initialize(server.getApp());
+      expect(rejected.status).toBe(503);
+      expect(rejected.body.error.message).toMatch(/shutting down/);
+      const live = await ping(server.getApp(), sessionId);
+      expect(live.status).toBe(200);
+    });
+
+    it("releases sessions without removing them from the store and closes the listener", async () => {
+      jest.spyOn(AuthService, "authenticateRequest").mockResolvedValue({
+        success: true,
+        user: { email: "stop@example.com", roles: ["user"] },
+        token: "test-key",
+      });
+      const server = new HttpServer(
+        new Server({ name: "test", version: "0.0.1" }),
+        sessionManager,
+        { ...config, server: { ...config.server, port: 0 } },
+        logger,
+      );
+      server.start();
+      const sessionId = (await initialize(server.getApp())).headers[
+        "mcp-session-id"
+      ];
+      await new Promise((resolve) => setImmediate(resolve));
+
+      await server.stop();
+
+      expect(server.getSessionIds()).toEqual([]);
+      expect(sessionManager.removeSessionInfo).toHaveBeenCalledWith(
+        sessionId,
+        "shutdown",
+      );
+      expect(await sessionStore.get(sessionId)).toMatchObject({
+        userEmail: "stop@example.com",
+      });
+      expect((server as any).listener).toBeUndefined();
+    });
+  });
+
+  describe("Legacy SSE Transport", () => {
+    let listener: http.Server;
+    let baseUrl: string;
+
+    beforeAll((done) => {
+      listener = app.listen(0, () => {
+        baseUrl = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+        done();
+      });
+    });
+
+    afterAll((done) => {
+      listener.close(() => done());
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    // Open an event stream and collect its events
+    const openStream = () =>
+      new Promise<{ req: http.ClientRequest; res: http.IncomingMessage; events: string[] }>(
+        (resolve, reject) => {
+          const req = http.get(`${baseUrl}/sse?apiKey=test-key`, (res) => {
+            const events: string[] = [];
+            res.setEncoding("utf8");
+            res.on("data", (chunk: string) => {
+              events.push(...chunk.split("\n\n").filter(Boolean));
+              if (events.length === 1) resolve({ req, res, events });
+            });
+          });
+          req.on("error", reject);
+        },
+      );
+
+    const waitForEvents = async (events: string[], count: number) => {
+      for (let i = 0; i < 50 && events.length < count; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+    };
+
+    it("GET /sse without API key returns 401", async () => {
+      const res = await supertest(app).get("/sse");
+      expect(res.status).toBe(401);
+      expect(res.body.error).toBe("Missing apiKey");
+    });
+
+    it("POST /messages for an unknown session returns 400", async () => {
+      const res = await supertest(app)
+        .post("/messages?sessionId=unknown")
+        .send({ jsonrpc: "2.0", id: 1, method: "ping" });
+      expect(res.status).toBe(400);
+    });
+
+    it("serves a session over the event stream and notifies it of tool changes", async () => {
+      jest.spyOn(AuthService, "authenticateRequest").mockResolvedValue({
+        success: true,
+        user: { email: "legacy@example.com", roles: ["user"] },
+        token: "test-key",
+      });
+      const { req, events } = await openStream();
+      const endpoint = /data: (\/messages\?sessionId=(.+))/.exec(events[0])!;
+      const sessionId = endpoint[2];
+      expect(sessionManager.setSessionInfo).toHaveBeenCalledWith(
+        sessionId,
+        expect.objectContaining({ user: { email: "legacy@example.com" } }),
+      );
+      expect(await sessionStore.get(sessionId)).toMatchObject({
+        userEmail: "legacy@example.com",
+        transport: "sse",
+      });
+
+      const metrics = await supertest(app).get("/metrics");
+      expect(metrics.text).toMatch(
+        /mcp_active_sessions\{client_name="[^"]+",transport="sse"\} 1/,
+      );
+
+      const accepted = await supertest(app)
+        .post(endpoint[1])
+        .send({ jsonrpc: "2.0", id: 7, method: "ping" });
+      expect(accepted.status).toBe(202);
+      await waitForEvents(events, 2);
+      expect(events[1]).toContain('"id":7');
+
+      await httpServer.notifyToolListChanged();
+      await waitForEvents(events, 3);
+      expect(events[2]).toContain("notifications/tools/list_changed");
+
+      // The streamable HTTP endpoint does not serve SSE sessions
+      const misrouted = await supertest(app)
+        .post("/mcp")
+        .set("Accept", "application/json, text/event-stream")
+        .set("mcp-session-id", sessionId)
+        .send({ jsonrpc: "2.0", id: 8, method: "ping" });
+      expect(misrouted.status).toBe(400);
+
+      req.destroy();
+      for (let i = 0; i < 50 && (await sessionStore.get(sessionId)); i++) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      expect(sessionManager.removeSessionInfo).toHaveBeenCalledWith(
+        sessionId,
+        "closed",
+      );
+      expect(await sessionStore.get(sessionId)).toBeNull();
+    });
+  });
+
   describe("Route Registration", () => {
     it("allows adding custom routes", () => {
       expect(() => {
@@ -1,10 +1,25 @@
 import express from "express";
+import http from "node:http";
 import { config as realConfig } from "../config/index.js";
 import realLogger from "../utils/logger.js";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { DynamicMcpServer } from "../mcp/server.js";
 import { createHealthRoutes } from "./routes/health.js";
-import { createStreamableHttpRoutes, getActiveTransports, getTransport } from "./routes/streamable-http.js";
+import { createMetricsRoutes } from "./routes/metrics.js";
+import { traceRequests } from "../utils/tracing.js";
+import { createOAuthMetadataRoutes } from "./routes/oauth-metadata.js";
+import { createSseRoutes } from "./routes/sse.js";
+import {
+  createStreamableHttpRoutes,
+  getActiveTransports,
+  getTransport,
+  reapExpiredSessions,
+  rejectShuttingDown,
+  releaseAllSessions,
+  SessionRegistry,
+} from "./routes/streamable-http.js";
+
+const DEFAULT_REAP_INTERVAL_MS = 60 * 1000;
 
 export class HttpServer {
   private app: express.Application;
@@ -13,6 +28,12 @@ export class HttpServer {
   private dynamicMcpServer: DynamicMcpServer;
   private config: typeof realConfig;
   private logger: typeof realLogger;
+  private sessionReaper?: NodeJS.Timeout;
+  private listener?: http.Server;
+  // Cleared when the server starts shutting down
+  private acceptingSessions = true;
+  // Live streamable HTTP and SSE sessions served by this process
+  private sessions: SessionRegistry = {};
 
   constructor(
     mcpServer: Server,
@@ -30,37 +51,135 @@ export class HttpServer {
   }
 
   private setupMiddleware(): void {
+    // One span per request, continuing the caller's trace
+    this.app.use(traceRequests());
+
     // Parse JSON bodies
     this.app.use(express.json());
+
+    // Send new and resumed sessions to another instance while shutting down
+    this.app.use((req, res, next) => {
+      if (this.acceptingSessions || !this.isNewSessionRequest(req)) {
+        next();
+        return;
+      }
+      rejectShuttingDown(res);
+    });
+  }
+
+  private isNewSessionRequest(req: express.Request): boolean {
+    if (req.path === "/sse") {
+      return req.method === "GET";
+    }
+    if (req.path !== "/mcp") {
+      return false;
+    }
+    // Sessions not live in this process would be resumed from the store
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    return !sessionId || !this.sessions[sessionId];
   }
 
   private setupRoutes(): void {
     // Health check routes
-    this.app.use(createHealthRoutes());
+    this.app.use(createHealthRoutes(this.dynamicMcpServer));
 
+    // Prometheus metrics
+    this.app.use(createMetricsRoutes(this.sessions, this.config.metrics));
+
+    // OAuth protected resource metadata
+    this.app.use(createOAuthMetadataRoutes());
 
     // Streamable HTTP routes
-    this.app.use(createStreamableHttpRoutes(
-      this.mcpServer,
-      this.dynamicMcpServer
-    ));
+    this.app.use(
+      createStreamableHttpRoutes(this.dynamicMcpServer, this.sessions),
+    );
+
+    // Legacy HTTP+SSE routes for older clients
+    this.app.use(createSseRoutes(this.dynamicMcpServer, this.sessions));
   }
 
   public start(): void {
+    this.startSessionReaper();
     try {
-      this.app.listen(this.config.server.port, () => {
+      this.listener = this.app.listen(this.config.server.port, () => {
         this.logger.info(
           `MCP server started on port ${this.config.server.port}`,
         );
         this.logger.info("Available endpoints:");
-        this.logger.info("  - Health: GET /status, GET /health");
+        this.logger.info(
+          "  - Health: GET /status, GET /health, GET /health/live, GET /health/ready",
+        );
+        this.logger.info("  - Metrics: GET /metrics");
+        this.logger.info(
+          "  - OAuth metadata: GET /.well-known/oauth-protected-resource",
+        );
         this.logger.info("  - Streamable HTTP: ALL /mcp");
+        this.logger.info("  - Legacy SSE: GET /sse, POST /messages");
       });
     } catch (error) {
       this.logger.error(`Failed to start MCP server: ${error}`);
     }
   }
 
+  /**
+   * Refuse new sessions and stop reaping; live sessions keep working so their
+   * in-flight tool calls can finish
+   */
+  public stopAcceptingSessions(): void {
+    this.acceptingSessions = false;
+    if (this.sessionReaper) {
+      clearInterval(this.sessionReaper);
+      this.sessionReaper = undefined;
+    }
+  }
+
+  public isAcceptingSessions(): boolean {
+    return this.acceptingSessions;
+  }
+
+  /**
+   * Close every live session, leaving it in the session store, then close
+   * the HTTP listener
+   */
+  public async stop(): Promise<void> {
+    this.stopAcceptingSessions();
+    const released = await releaseAllSessions(
+      this.dynamicMcpServer,
+      this.sessions,
+    );
+    if (released.length > 0) {
+      this.logger.info(`[SESSION] Released ${released.length} session(s) for shutdown`);
+    }
+    const listener = this.listener;
+    if (!listener) {
+      return;
+    }
+    this.listener = undefined;
+    await new Promise<void>((resolve, reject) => {
+      listener.close((error) => (error ? reject(error) : resolve()));
+      listener.closeIdleConnections();
+    });
+    this.logger.info("HTTP listener closed");
+  }
+
+  /**
+   * Periodically close idle and expired sessions
+   */
+  private startSessionReaper(): void {
+    const { reapIntervalMs } = this.dynamicMcpServer.getSessionPolicy();
+    this.sessionReaper = setInterval(() => {
+      reapExpiredSessions(this.dynamicMcpServer, this.sessions).catch(
+        (error) => {
+          this.logger.error(
+            `[SESSION] Failed to reap expired sessions: ${error}`,
+          );
+        },
+      );
+    }, reapIntervalMs || DEFAULT_REAP_INTERVAL_MS);
+    // Do not keep the process alive just for the reaper
+    this.sessionReaper.unref();
+  }
+
   /**
    * Add a new HTTP route to the server, ensuring no overwrite of existing routes.
    * Throws an error if the route already exists for the given method.
@@ -82,36 +201,49 @@ export class HttpServer {
   }
 
   public async notifyToolListChanged(): Promise<void> {
-    // Notify all active streamable HTTP transports
-    const streamableTransports = getActiveTransports();
-    for (const transport of streamableTransports) {
+    // Notify all active streamable HTTP and SSE transports
+    const activeTransports = getActiveTransports(this.sessions);
+    for (const transport of activeTransports) {
       try {
         await transport.send({
           jsonrpc: "2.0",
           method: "notifications/tools/list_changed",
           params: {},
         });
-        this.logger.debug(`[SESSION] Notified streamable HTTP client ${transport.sessionId} of tool changes`);
+        this.logger.debug(`[SESSION] Notified client ${transport.sessionId} of tool changes`);
       } catch (error) {
-        this.logger.warn(`[SESSION] Failed to notify streamable HTTP client ${transport.sessionId} of tool changes: ${error}`);
+        this.logger.warn(`[SESSION] Failed to notify client ${transport.sessionId} of tool changes: ${error}`);
       }
     }
   }
 
+  /**
+   * Transport of a live session served by this process
+   */
+  public getTransport(sessionId: string) {
+    return getTransport(this.sessions, sessionId);
+  }
+
+  /**
+   * IDs of the live sessions served by this process
+   */
+  public getSessionIds(): string[] {
+    return Object.keys(this.sessions);
+  }
+
   public getApp(): express.Application {
     return this.app;
   }
 
   /**
-   * Get transports for DynamicMcpServer - only supports /mcp endpoint
+   * Get transports for DynamicMcpServer - covers /mcp and legacy SSE sessions
    */
   public get transports(): { [sessionId: string]: any } {
     // Create a proxy object that provides access to streamable HTTP transports
     return new Proxy({} as { [sessionId: string]: any }, {
       get: (target, prop) => {
         if (typeof prop === 'string') {
-          // Try streamable HTTP transport
-          const streamableTransport = getTransport(prop);
+          const streamableTransport = getTransport(this.sessions, prop);
           if (streamableTransport) {
             return streamableTransport;
           }
@@ -120,14 +252,13 @@ export class HttpServer {
       },
       has: (target, prop) => {
         if (typeof prop === 'string') {
-          // Check streamable HTTP transports only
-          return getTransport(prop) !== undefined;
+          return getTransport(this.sessions, prop) !== undefined;
         }
         return false;
       },
       ownKeys: (target) => {
         // Get session IDs from streamable HTTP transports
-        const streamableTransports = getActiveTransports();
+        const streamableTransports = getActiveTransports(this.sessions);
         const streamableSessionIds = streamableTransports.map(t => t.sessionId).filter((id): id is string => Boolean(id));
         
         return streamableSessionIds;
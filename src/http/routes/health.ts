@@ -1,7 +1,8 @@
 import { Request, Response, Router } from "express";
+import { DynamicMcpServer } from "../../mcp/server.js";
 import logger from "../../utils/logger.js";
 
-export function createHealthRoutes(): Router {
+export function createHealthRoutes(dynamicMcpServer: DynamicMcpServer): Router {
   const router = Router();
 
   // Health check endpoint
@@ -14,6 +15,32 @@ export function createHealthRoutes(): Router {
     res.status(200).json({ status: "ok" });
   });
 
-  logger.info("Health check endpoints setup: /status, /health");
+  // Liveness: the process is up and serving HTTP
+  router.get("/health/live", (_req: Request, res: Response) => {
+    res.status(200).json({ status: "ok" });
+  });
+
+  // Readiness: MongoDB and every handler package are healthy
+  router.get("/health/ready", async (_req: Request, res: Response) => {
+    // Take this instance out of rotation as soon as shutdown starts
+    if (dynamicMcpServer.isStopping()) {
+      res.status(503).json({ status: "stopping" });
+      return;
+    }
+    try {
+      const report = await dynamicMcpServer.getHealth();
+      res.status(report.status === "ok" ? 200 : 503).json(report);
+    } catch (error) {
+      logger.error(`Readiness check failed: ${error}`);
+      res.status(503).json({
+        status: "down",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  logger.info(
+    "Health check endpoints setup: /status, /health, /health/live, /health/ready",
+  );
   return router;
-}
\ No newline at end of file
+}
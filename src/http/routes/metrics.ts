@@ -0,0 +1,68 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { Request, Response, Router } from "express";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { SessionRegistry } from "./streamable-http.js";
+import { activeSessions, metricsRegistry } from "../../utils/metrics.js";
+import logger from "../../utils/logger.js";
+
+export const METRICS_PATH = "/metrics";
+
+/**
+ * Check the Authorization header against the metrics token in constant time.
+ * The digests have equal lengths, so neither length nor content leaks.
+ */
+function isMetricsTokenValid(
+  authorization: string | undefined,
+  token: string,
+): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(authorization ?? ""), digest(`Bearer ${token}`));
+}
+
+/**
+ * Prometheus scrape endpoint. When a token is configured, scrapers must send
+ * it as a bearer token; without one the endpoint is open, with a warning at
+ * startup.
+ */
+export function createMetricsRoutes(
+  sessions: SessionRegistry,
+  metricsConfig: { token: string },
+): Router {
+  const router = Router();
+
+  router.get(METRICS_PATH, async (req: Request, res: Response) => {
+    const token = metricsConfig.token;
+    if (token && !isMetricsTokenValid(req.headers.authorization, token)) {
+      res.status(401).json({ error: "Missing or invalid metrics token" });
+      return;
+    }
+
+    // Count the live sessions at scrape time so the gauge never drifts
+    activeSessions.reset();
+    for (const session of Object.values(sessions)) {
+      activeSessions.inc({
+        client_name: session.clientName,
+        transport:
+          session.transport instanceof SSEServerTransport
+            ? "sse"
+            : "streamable-http",
+      });
+    }
+
+    try {
+      res.setHeader("Content-Type", metricsRegistry.contentType);
+      res.status(200).send(await metricsRegistry.metrics());
+    } catch (error) {
+      logger.error(`[METRICS] Failed to collect metrics: ${error}`);
+      res.status(500).json({ error: "Failed to collect metrics" });
+    }
+  });
+
+  logger.info(`Metrics endpoint setup: ${METRICS_PATH}`);
+  if (!metricsConfig.token) {
+    logger.warn(
+      `[METRICS] ${METRICS_PATH} is open to anyone who can reach the server; set MCP_METRICS_TOKEN to require a bearer token`,
+    );
+  }
+  return router;
+}
@@ -0,0 +1,29 @@
+import { Request, Response, Router } from "express";
+import {
+  AuthService,
+  getBaseUrl,
+  PROTECTED_RESOURCE_METADATA_PATH,
+} from "../services/auth.js";
+import logger from "../../utils/logger.js";
+
+export function createOAuthMetadataRoutes(): Router {
+  const router = Router();
+
+  // OAuth 2.0 Protected Resource Metadata (RFC 9728), required by the MCP authorization spec
+  const handleMetadataRequest = (req: Request, res: Response) => {
+    const metadata = AuthService.getProtectedResourceMetadata(getBaseUrl(req));
+    if (!metadata) {
+      res.status(404).json({ error: "OAuth authorization is not configured" });
+      return;
+    }
+    res.status(200).json(metadata);
+  };
+
+  router.get(PROTECTED_RESOURCE_METADATA_PATH, handleMetadataRequest);
+  router.get(`${PROTECTED_RESOURCE_METADATA_PATH}/mcp`, handleMetadataRequest);
+
+  logger.info(
+    `OAuth metadata endpoint setup: ${PROTECTED_RESOURCE_METADATA_PATH}`,
+  );
+  return router;
+}
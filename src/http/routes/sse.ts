@@ -0,0 +1,126 @@
+import { Request, Response, Router } from "express";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { DynamicMcpServer } from "../../mcp/server.js";
+import { AuthService } from "../services/auth.js";
+import {
+  cleanupSession,
+  enforceSessionApiKey,
+  enforceSessionLimit,
+  rejectClosedSession,
+  rejectUnauthenticated,
+  rejectUnknownSession,
+  respondOnError,
+  SessionRegistry,
+  updateSessionLastUsed,
+} from "./streamable-http.js";
+import logger from "../../utils/logger.js";
+
+export const SSE_MESSAGES_PATH = "/messages";
+
+/**
+ * Legacy HTTP+SSE transport (protocol 2024-11-05) for clients that do not
+ * speak streamable HTTP. Sessions share the registry, session policy and
+ * session store of /mcp, but are bound to the instance holding their stream.
+ */
+export function createSseRoutes(
+  dynamicMcpServer: DynamicMcpServer,
+  sessions: SessionRegistry = {},
+): Router {
+  const router = Router();
+  const store = dynamicMcpServer.getSessionStore();
+
+  // Open the event stream; the session lives as long as the connection
+  router.get('/sse', respondOnError(async (req: Request, res: Response) => {
+    const authResult = await AuthService.authenticateRequest(req);
+    if (!authResult.success) {
+      rejectUnauthenticated(req, res, authResult.error);
+      return;
+    }
+    const userEmail = authResult.user.email;
+    // The client only identifies itself in its initialize request
+    const clientName = req.headers['user-agent'] || 'unknown-client';
+    const clientVersion = 'unknown-version';
+
+    // Make room for the new session under the session policy
+    await enforceSessionLimit(dynamicMcpServer, sessions, authResult.user, clientName);
+
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    const sessionId = transport.sessionId;
+    const createdAt = new Date();
+
+    // Each session gets its own SDK server so responses reach the right client
+    const sessionServer = dynamicMcpServer.createSessionServer();
+
+    // Clean up when the client disconnects
+    sessionServer.onclose = () => {
+      if (sessions[sessionId]) {
+        logger.info(`[SESSION] SSE stream closed for session: ${sessionId}`);
+        cleanupSession(dynamicMcpServer, sessions, sessionId);
+        store.delete(sessionId).catch((error) => {
+          logger.warn(`[SESSION] Failed to remove session ${sessionId} from the store: ${error}`);
+        });
+      }
+    };
+
+    sessions[sessionId] = {
+      transport,
+      createdAt,
+      lastUsed: createdAt,
+      userEmail,
+      clientName,
+      clientVersion,
+      apiKey: authResult.apiKey,
+    };
+    await dynamicMcpServer.setSessionInfo(sessionId, {
+      sessionId,
+      user: { email: userEmail },
+      token: authResult.token!,
+      mcpServer: dynamicMcpServer,
+      apiKeyScope: authResult.apiKeyScope,
+    });
+    store.save({
+      sessionId,
+      userEmail,
+      clientName,
+      clientVersion,
+      apiKeyScope: authResult.apiKeyScope,
+      apiKey: authResult.apiKey,
+      transport: "sse",
+      createdAt,
+      lastUsed: createdAt,
+    }).catch((error) => {
+      logger.error(`[SESSION] Failed to store session ${sessionId}: ${error}`);
+    });
+
+    logger.info(`[SESSION] New SSE session initialized: ${sessionId} for user: ${userEmail} using ${clientName}`);
+
+    // Starts the event stream and sends the endpoint to post messages to
+    await sessionServer.connect(transport);
+  }));
+
+  // Receive client messages for an open event stream
+  router.post(SSE_MESSAGES_PATH, respondOnError(async (req: Request, res: Response) => {
+    const sessionId = req.query.sessionId as string | undefined;
+    logger.debug(`[SESSION] SSE message for session: ${sessionId}, method: ${req.body?.method || 'unknown'}`);
+
+    const sessionData = sessionId ? sessions[sessionId] : undefined;
+    if (!sessionId || !(sessionData?.transport instanceof SSEServerTransport)) {
+      // The stream may have been closed by the server, possibly on another instance
+      const stored = sessionId ? await store.get(sessionId) : null;
+      if (stored?.closed) {
+        rejectClosedSession(stored.closed, res);
+      } else {
+        rejectUnknownSession(res);
+      }
+      return;
+    }
+    if (!(await enforceSessionApiKey(dynamicMcpServer, sessions, sessionId, res))) {
+      return;
+    }
+
+    updateSessionLastUsed(dynamicMcpServer, sessions, sessionId);
+    await sessionData.transport.handlePostMessage(req, res, req.body);
+  }));
+
+  return router;
+}
@@ -1,131 +1,515 @@
 import { Request, Response, Router } from "express";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 import { randomUUID } from "node:crypto";
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { DynamicMcpServer } from "../../mcp/server.js";
+import { DynamicMcpServer, SessionCloseReason } from "../../mcp/server.js";
 import { AuthService } from "../services/auth.js";
+import { resolveMaxSessions } from "../services/sessionPolicy.js";
+import {
+  ClosedSessionInfo,
+  SessionApiKey,
+  SessionPolicyConfig,
+  StoredSession,
+} from "../types.js";
+import { UserRepository } from "../../db/repositories/UserRepository.js";
+import { isApiKeyExpired } from "../../utils/apiKeys.js";
 import logger from "../../utils/logger.js";
+import { authorizationFailures } from "../../utils/metrics.js";
 
-// Simple session storage with last-used tracking
-interface SessionData {
-  transport: StreamableHTTPServerTransport;
+// Live session served by this process, with last-used tracking
+export interface SessionData {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  createdAt: Date;
   lastUsed: Date;
   userEmail: string;
   clientName: string;
   clientVersion: string;
+  apiKey?: SessionApiKey;
 }
 
-const sessions: { [sessionId: string]: SessionData } = {};
+export type SessionRegistry = { [sessionId: string]: SessionData };
 
-// Track active session per user (single session per user policy)
-const userActiveSession: { [userEmail: string]: string } = {};
+const describeLimit = (maxSessions: number) =>
+  maxSessions === 1 ? "1 session" : `${maxSessions} sessions`;
+
+const describeDuration = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  return minutes >= 1 ? `${minutes} minute(s)` : `${Math.round(ms / 1000)} second(s)`;
+};
+
+// Why a session has expired under the session policy, if it has
+const getExpiry = (
+  policy: SessionPolicyConfig,
+  session: { createdAt: Date; lastUsed: Date },
+  now: Date,
+): ClosedSessionInfo | undefined => {
+  const { idleTimeoutMs, maxAgeMs } = policy;
+  if (idleTimeoutMs && now.getTime() - session.lastUsed.getTime() > idleTimeoutMs) {
+    return {
+      reason: "idle",
+      message: `Session expired after ${describeDuration(idleTimeoutMs)} without activity. Reconnect to start a new session.`,
+    };
+  }
+  if (maxAgeMs && now.getTime() - session.createdAt.getTime() > maxAgeMs) {
+    return {
+      reason: "max_age",
+      message: `Session expired after reaching the maximum session age of ${describeDuration(maxAgeMs)}. Reconnect to start a new session.`,
+    };
+  }
+  return undefined;
+};
+
+// Why the API key a session was opened with no longer admits it, if it does not
+const getApiKeyClosure = async (
+  session: { userEmail: string; apiKey?: SessionApiKey },
+  now: Date,
+): Promise<ClosedSessionInfo | undefined> => {
+  const { apiKey } = session;
+  if (!apiKey) {
+    return undefined;
+  }
+  if (isApiKeyExpired(apiKey, now)) {
+    return {
+      reason: "key_expired",
+      message: `Session closed because API key '${apiKey.name}' has expired. Use create-api-key or reset-api-key to obtain a new key.`,
+    };
+  }
+  if (!(await new UserRepository().hasApiKey(session.userEmail, apiKey.name, apiKey.prefix))) {
+    return {
+      reason: "revoked",
+      message: `Session closed because API key '${apiKey.name}' was revoked. Reconnect with a valid API key.`,
+    };
+  }
+  return undefined;
+};
 
 // Helper function to update session last-used timestamp
-const updateSessionLastUsed = (sessionId: string) => {
+export const updateSessionLastUsed = (
+  dynamicMcpServer: DynamicMcpServer,
+  sessions: SessionRegistry,
+  sessionId: string,
+) => {
   if (sessions[sessionId]) {
-    sessions[sessionId].lastUsed = new Date();
+    const now = new Date();
+    sessions[sessionId].lastUsed = now;
+    dynamicMcpServer.getSessionStore().touch(sessionId, now).catch((error) => {
+      logger.warn(`[SESSION] Failed to persist last use of session ${sessionId}: ${error}`);
+    });
+  }
+};
+
+// Helper function to clean up a session in this process
+export const cleanupSession = (
+  dynamicMcpServer: DynamicMcpServer,
+  sessions: SessionRegistry,
+  sessionId: string,
+  reason: SessionCloseReason = "closed",
+) => {
+  logger.debug(`[SESSION] Cleaning up session: ${sessionId} (${reason})`);
+
+  // Remove from sessions
+  delete sessions[sessionId];
+
+  // Remove from DynamicMcpServer
+  dynamicMcpServer.removeSessionInfo(sessionId, reason);
+};
+
+// Release a session's transport in this process; ends any open stream
+const releaseSession = (
+  dynamicMcpServer: DynamicMcpServer,
+  sessions: SessionRegistry,
+  sessionId: string,
+  reason: SessionCloseReason,
+) => {
+  const transport = sessions[sessionId]?.transport;
+  if (!transport) {
+    return;
+  }
+  cleanupSession(dynamicMcpServer, sessions, sessionId, reason);
+  transport.close().catch((error) => {
+    logger.warn(`[SESSION] Failed to close transport for session ${sessionId}: ${error}`);
+  });
+};
+
+// Close a session on the server's initiative, remembering why for its client
+const closeSession = async (
+  dynamicMcpServer: DynamicMcpServer,
+  sessions: SessionRegistry,
+  sessionId: string,
+  closed: ClosedSessionInfo,
+) => {
+  releaseSession(dynamicMcpServer, sessions, sessionId, closed.reason);
+  await dynamicMcpServer.getSessionStore().markClosed(sessionId, closed);
+};
+
+/**
+ * Close a live session whose API key has been revoked or has expired, and
+ * respond to the request. Returns false if the request must not be served.
+ */
+export const enforceSessionApiKey = async (
+  dynamicMcpServer: DynamicMcpServer,
+  sessions: SessionRegistry,
+  sessionId: string,
+  res: Response,
+): Promise<boolean> => {
+  const closed = await getApiKeyClosure(sessions[sessionId], new Date());
+  if (!closed) {
+    return true;
+  }
+  logger.info(`[SESSION] Closing session ${sessionId} for user ${sessions[sessionId].userEmail} (${closed.reason})`);
+  await closeSession(dynamicMcpServer, sessions, sessionId, closed);
+  rejectClosedSession(closed, res);
+  return false;
+};
+
+/**
+ * Close sessions that have been idle longer than the idle timeout or are older
+ * than the maximum session age, and release sessions that another server
+ * instance has closed. Returns the IDs of the sessions released.
+ */
+export const reapExpiredSessions = async (
+  dynamicMcpServer: DynamicMcpServer,
+  sessions: SessionRegistry,
+  now: Date = new Date(),
+): Promise<string[]> => {
+  const store = dynamicMcpServer.getSessionStore();
+  const policy = dynamicMcpServer.getSessionPolicy();
+  const reaped: string[] = [];
+  for (const [sessionId, data] of Object.entries(sessions)) {
+    const stored = await store.get(sessionId);
+    if (!stored || stored.closed) {
+      logger.info(`[SESSION] Releasing session ${sessionId} for user ${data.userEmail} (closed by another server instance)`);
+      releaseSession(dynamicMcpServer, sessions, sessionId, stored?.closed?.reason || "closed");
+      reaped.push(sessionId);
+      continue;
+    }
+    // Another instance may have served the session more recently
+    const lastUsed = new Date(Math.max(data.lastUsed.getTime(), stored.lastUsed.getTime()));
+    const expiry = getExpiry(policy, { createdAt: data.createdAt, lastUsed }, now);
+    if (expiry) {
+      logger.info(`[SESSION] Closing session ${sessionId} for user ${data.userEmail} (${expiry.reason})`);
+      await closeSession(dynamicMcpServer, sessions, sessionId, expiry);
+      reaped.push(sessionId);
+    }
+  }
+  return reaped;
+};
+
+/**
+ * Tell every session served by this process that the server is going away and
+ * release its transport. Sessions stay in the session store, so streamable
+ * HTTP clients can resume them on another instance.
+ */
+export const releaseAllSessions = async (
+  dynamicMcpServer: DynamicMcpServer,
+  sessions: SessionRegistry,
+): Promise<string[]> => {
+  const released = Object.keys(sessions);
+  for (const sessionId of released) {
+    try {
+      await sessions[sessionId].transport.send({
+        jsonrpc: "2.0",
+        method: "notifications/message",
+        params: {
+          level: "warning",
+          logger: "dynamic-mcp-server",
+          data: "The server is shutting down. Reconnect to resume this session.",
+        },
+      });
+    } catch (error) {
+      logger.debug(`[SESSION] Failed to notify session ${sessionId} of shutdown: ${error}`);
+    }
+    releaseSession(dynamicMcpServer, sessions, sessionId, "shutdown");
+  }
+  return released;
+};
+
+/**
+ * Evict a user's least recently used sessions so that a new session fits
+ * within the session policy
+ */
+export const enforceSessionLimit = async (
+  dynamicMcpServer: DynamicMcpServer,
+  sessions: SessionRegistry,
+  user: { email: string; roles?: string[] },
+  clientName: string,
+) => {
+  const policy = dynamicMcpServer.getSessionPolicy();
+  const maxSessions = resolveMaxSessions(policy, user.roles);
+  const now = new Date();
+  const userSessions = (await dynamicMcpServer.getSessionStore().listOpenByUser(user.email))
+    .filter((session) => !getExpiry(policy, session, now))
+    .sort((a, b) => a.lastUsed.getTime() - b.lastUsed.getTime());
+  const excess = userSessions.length - (maxSessions - 1);
+  if (excess <= 0) {
+    return;
+  }
+  const message =
+    `Session closed because ${user.email} opened a new session from ${clientName} ` +
+    `and the server allows at most ${describeLimit(maxSessions)} per user. ` +
+    `Reconnect to start a new session (this will close the oldest other session).`;
+  for (const { sessionId } of userSessions.slice(0, excess)) {
+    logger.info(`[SESSION] Evicting session ${sessionId} for user ${user.email} (limit: ${describeLimit(maxSessions)})`);
+    await closeSession(dynamicMcpServer, sessions, sessionId, {
+      reason: "evicted",
+      message,
+    });
+  }
+};
+
+// Values of error.data.reason for sessions closed for other than expiry
+const CLOSED_SESSION_ERROR_REASONS: Partial<Record<ClosedSessionInfo["reason"], string>> = {
+  evicted: "session_evicted",
+  revoked: "api_key_revoked",
+  key_expired: "api_key_expired",
+};
+
+// Respond to a request for a session the server closed, explaining why
+export const rejectClosedSession = (closed: ClosedSessionInfo, res: Response) => {
+  res.status(404).json({
+    jsonrpc: '2.0',
+    error: {
+      code: -32000,
+      message: closed.message,
+      data: { reason: CLOSED_SESSION_ERROR_REASONS[closed.reason] ?? "session_expired" },
+    },
+    id: null,
+  });
+};
+
+/**
+ * Wrap an async route handler so that a failure, e.g. of the session store,
+ * is answered with a 500 instead of leaving the request hanging (Express 4
+ * ignores rejected promises).
+ */
+export const respondOnError = (
+  handler: (req: Request, res: Response) => Promise<void>,
+) => async (req: Request, res: Response) => {
+  try {
+    await handler(req, res);
+  } catch (error) {
+    logger.error(`[SESSION] ${req.method} ${req.path} failed: ${error}`);
+    if (!res.headersSent) {
+      res.status(500).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32603,
+          message: 'Internal server error',
+        },
+        id: null,
+      });
+    }
   }
 };
 
+export const rejectShuttingDown = (res: Response) => {
+  res.setHeader('Connection', 'close');
+  res.status(503).json({
+    jsonrpc: '2.0',
+    error: {
+      code: -32000,
+      message: 'The server is shutting down. Retry to reach another instance.',
+    },
+    id: null,
+  });
+};
+
+export const rejectUnknownSession = (res: Response) => {
+  res.status(400).json({
+    jsonrpc: '2.0',
+    error: {
+      code: -32000,
+      message: 'Invalid or missing session ID',
+    },
+    id: null,
+  });
+};
+
+/**
+ * Make a fresh transport serve a session that its client initialized on
+ * another instance. The SDK has no public API for this, so this sets the
+ * transport's private `_initialized` flag. It relies on the SDK version
+ * pinned in package.json (1.13.0) and is covered by the http-server tests;
+ * check it when upgrading the SDK.
+ */
+export const adoptSession = (
+  transport: StreamableHTTPServerTransport,
+  sessionId: string,
+) => {
+  const state = transport as unknown as { _initialized?: unknown };
+  if (typeof state._initialized !== "boolean") {
+    throw new Error(
+      "Cannot resume the session: this version of the MCP SDK's StreamableHTTPServerTransport has no _initialized flag",
+    );
+  }
+  state._initialized = true;
+  transport.sessionId = sessionId;
+};
+
+export const rejectUnauthenticated = (
+  req: Request,
+  res: Response,
+  error?: string,
+  reason = "unauthenticated",
+) => {
+  authorizationFailures.inc({ reason });
+  const challenge = AuthService.getWwwAuthenticateHeader(req);
+  if (challenge) {
+    res.setHeader('WWW-Authenticate', challenge);
+  }
+  res.status(401).json({ error });
+};
+
 export function createStreamableHttpRoutes(
-  mcpServer: Server,
-  dynamicMcpServer: DynamicMcpServer
+  dynamicMcpServer: DynamicMcpServer,
+  sessions: SessionRegistry = {},
 ): Router {
   const router = Router();
+  const store = dynamicMcpServer.getSessionStore();
 
-  // Helper function to clean up a session
-  const cleanupSession = (sessionId: string) => {
-    logger.debug(`[SESSION] Cleaning up session: ${sessionId}`);
-    
-    // Find and remove from user active session mapping
-    const sessionData = sessions[sessionId];
-    if (sessionData) {
-      const userEmail = sessionData.userEmail;
-      if (userActiveSession[userEmail] === sessionId) {
-        delete userActiveSession[userEmail];
-        logger.debug(`[SESSION] Removed active session mapping for user: ${userEmail}`);
-      }
-    }
-    
-    // Remove from sessions
-    delete sessions[sessionId];
-    
-    // Remove from DynamicMcpServer
-    dynamicMcpServer.removeSessionInfo(sessionId);
-  };
+  // Rehydrations in progress, so concurrent requests share one transport
+  const pendingRehydrations = new Map<string, Promise<void>>();
 
-  // Helper function to invalidate existing sessions for a user
-  const invalidateUserSessions = (userEmail: string, excludeSessionId?: string) => {
-    const existingSessionId = userActiveSession[userEmail];
-    if (existingSessionId && existingSessionId !== excludeSessionId) {
-      logger.debug(`[SESSION] Invalidating existing session ${existingSessionId} for user: ${userEmail}`);
-      cleanupSession(existingSessionId);
-    }
-  };
+  // Helper function to create the transport for a new or resumed session
+  const createSessionTransport = async (
+    session: Omit<StoredSession, "lastUsed" | "closed">,
+    token: string,
+    resumed: boolean,
+  ) => {
+    const { sessionId, userEmail, clientName, clientVersion, apiKeyScope, apiKey, createdAt } = session;
 
+    const registerSession = () => {
+      // Store session data with timestamp
+      sessions[sessionId] = {
+        transport,
+        createdAt,
+        lastUsed: new Date(),
+        userEmail,
+        clientName,
+        clientVersion,
+        apiKey,
+      };
+
+      // Create session info for DynamicMcpServer
+      const sessionInfo = {
+        sessionId,
+        user: { email: userEmail },
+        token,
+        mcpServer: dynamicMcpServer,
+        apiKeyScope,
+      };
+      dynamicMcpServer.setSessionInfo(sessionId, sessionInfo);
+    };
 
-  // Helper function to create a new session
-  const createNewSession = async (sessionId: string, userEmail: string, userApiKey: string, clientName: string = 'unknown-client', clientVersion: string = 'unknown-version') => {
-    
-    // Enforce single session per user - invalidate any existing sessions for this user
-    invalidateUserSessions(userEmail, sessionId);
-    
     const transport = new StreamableHTTPServerTransport({
       sessionIdGenerator: () => sessionId,
+      // Lets clients replay missed events with Last-Event-ID
+      eventStore: dynamicMcpServer.createEventStore(sessionId),
       onsessioninitialized: (newSessionId: string) => {
         logger.info(
           `[SESSION] New session initialized: ${newSessionId} for user: ${userEmail} using ${clientName} ${clientVersion}`,
         );
-        
-        // Store session data with timestamp
-        sessions[newSessionId] = {
-          transport,
-          lastUsed: new Date(),
-          userEmail,
-          clientName,
-          clientVersion
-        };
-        
-        // Track this as the active session for the user
-        userActiveSession[userEmail] = newSessionId;
-        logger.debug(`[SESSION] Set active session for user ${userEmail}: ${newSessionId}`);
-        
-        // Create session info for DynamicMcpServer
-        const sessionInfo = {
-          sessionId: newSessionId,
-          user: { email: userEmail, apiKey: userApiKey },
-          token: userApiKey,
-          mcpServer: dynamicMcpServer,
-        };
-        dynamicMcpServer.setSessionInfo(newSessionId, sessionInfo);
+        registerSession();
+        store.save({ ...session, lastUsed: new Date() }).catch((error) => {
+          logger.error(`[SESSION] Failed to store session ${newSessionId}: ${error}`);
+        });
       }
     });
 
-    // Setup cleanup when transport closes
-    transport.onclose = () => {
+    // Each session gets its own SDK server so responses reach the right client
+    const sessionServer = dynamicMcpServer.createSessionServer();
+
+    // Setup cleanup when the client terminates the session
+    sessionServer.onclose = () => {
       const sid = transport.sessionId;
-      if (sid) {
+      if (sid && sessions[sid]) {
         logger.info(`[SESSION] Transport closed for session: ${sid}`);
-        cleanupSession(sid);
+        cleanupSession(dynamicMcpServer, sessions, sid);
+        store.delete(sid).catch((error) => {
+          logger.warn(`[SESSION] Failed to remove session ${sid} from the store: ${error}`);
+        });
       }
     };
 
     // Connect to MCP server
-    await mcpServer.connect(transport);
-    
-    // Notify tool list changed after connection is ready
-    await dynamicMcpServer.notifyToolListChanged(userEmail);
-    
+    await sessionServer.connect(transport);
+
+    if (resumed) {
+      // The client initialized this session on another instance (or before a restart)
+      adoptSession(transport, sessionId);
+      registerSession();
+    } else {
+      // Notify tool list changed after connection is ready
+      await dynamicMcpServer.notifyToolListChanged(userEmail);
+    }
+
     return transport;
   };
 
+  // Find the live session for a request, rehydrating it from the session
+  // store when it was opened on another instance or before a restart.
+  // Responds to the request and returns undefined if there is no usable session.
+  const resolveSession = async (sessionId: string, req: Request, res: Response): Promise<SessionData | undefined> => {
+    await pendingRehydrations.get(sessionId);
+    if (sessions[sessionId]) {
+      if (!(sessions[sessionId].transport instanceof StreamableHTTPServerTransport)) {
+        // Legacy SSE sessions are served on /messages
+        rejectUnknownSession(res);
+        return undefined;
+      }
+      if (!(await enforceSessionApiKey(dynamicMcpServer, sessions, sessionId, res))) {
+        return undefined;
+      }
+      return sessions[sessionId];
+    }
+
+    const stored = await store.get(sessionId);
+    if (!stored || stored.transport === "sse") {
+      rejectUnknownSession(res);
+      return undefined;
+    }
+    if (stored.closed) {
+      rejectClosedSession(stored.closed, res);
+      return undefined;
+    }
+    const expiry = getExpiry(dynamicMcpServer.getSessionPolicy(), stored, new Date()) ||
+      await getApiKeyClosure(stored, new Date());
+    if (expiry) {
+      await store.markClosed(sessionId, expiry);
+      rejectClosedSession(expiry, res);
+      return undefined;
+    }
+
+    // Resuming requires the credentials of the user who opened the session
+    const authResult = await AuthService.authenticateRequest(req);
+    if (!authResult.success) {
+      rejectUnauthenticated(req, res, authResult.error);
+      return undefined;
+    }
+    if (authResult.user.email !== stored.userEmail) {
+      logger.warn(`[SESSION] User ${authResult.user.email} tried to resume session ${sessionId} of ${stored.userEmail}`);
+      rejectUnauthenticated(req, res, 'This session belongs to another user', 'session_owner_mismatch');
+      return undefined;
+    }
+
+    if (!pendingRehydrations.has(sessionId)) {
+      logger.info(`[SESSION] Resuming session ${sessionId} for user ${stored.userEmail} from the session store`);
+      const rehydration = createSessionTransport(stored, authResult.token!, true)
+        .then(() => undefined)
+        .finally(() => pendingRehydrations.delete(sessionId));
+      pendingRehydrations.set(sessionId, rehydration);
+    }
+    await pendingRehydrations.get(sessionId);
+    return sessions[sessionId];
+  };
+
 
   // Reusable handler for GET and DELETE requests
   const handleSessionRequest = async (req: Request, res: Response) => {
     const sessionId = req.headers['mcp-session-id'] as string | undefined;
     logger.debug(`[SESSION] ${req.method} request for session: ${sessionId}`);
-    
+
     // Check for session ID
     if (!sessionId) {
       res.status(400).json({
@@ -140,50 +524,46 @@ export function createStreamableHttpRoutes(
     }
 
     // Check if session exists
-    const sessionData = sessions[sessionId];
+    const sessionData = await resolveSession(sessionId, req, res);
     if (!sessionData) {
-      res.status(400).json({
-        jsonrpc: '2.0',
-        error: {
-          code: -32000,
-          message: 'Invalid or missing session ID',
-        },
-        id: null,
-      });
       return;
     }
 
     // Update last used timestamp
-    updateSessionLastUsed(sessionId);
+    updateSessionLastUsed(dynamicMcpServer, sessions, sessionId);
 
     // Handle the request with the existing transport
-    const transport = sessionData.transport;
+    const transport = sessionData.transport as StreamableHTTPServerTransport;
     await transport.handleRequest(req, res);
   };
 
   // Handle GET requests for server-to-client notifications via streamable HTTP
-  router.get('/mcp', handleSessionRequest);
+  router.get('/mcp', respondOnError(handleSessionRequest));
 
   // Handle DELETE requests for session termination
-  router.delete('/mcp', handleSessionRequest);
+  router.delete('/mcp', respondOnError(handleSessionRequest));
 
   // Handle POST requests for client-to-server communication
-  router.post('/mcp', async (req: Request, res: Response) => {
+  router.post('/mcp', respondOnError(async (req: Request, res: Response) => {
     const sessionId = req.headers['mcp-session-id'] as string | undefined;
     let transport: StreamableHTTPServerTransport;
 
     // Log session requests for monitoring
     logger.debug(`[SESSION] POST request - sessionId: ${sessionId}, method: ${req.body?.method || 'unknown'}`);
 
-    if (sessionId && sessions[sessionId]) {
+    if (sessionId) {
       // Reuse existing transport
-      transport = sessions[sessionId].transport;
-      updateSessionLastUsed(sessionId);
-    } else if (!sessionId && isInitializeRequest(req.body)) {
+      const sessionData = await resolveSession(sessionId, req, res);
+      if (!sessionData) {
+        return;
+      }
+      transport = sessionData.transport as StreamableHTTPServerTransport;
+      updateSessionLastUsed(dynamicMcpServer, sessions, sessionId);
+    } else if (isInitializeRequest(req.body)) {
       // New initialization request
       const authResult = await AuthService.authenticateRequest(req);
       if (!authResult.success) {
-        res.status(401).json({ error: authResult.error });
+        rejectUnauthenticated(req, res, authResult.error);
         return;
       }
 
@@ -191,20 +571,29 @@ export function createStreamableHttpRoutes(
       const clientInfo = req.body?.params?.clientInfo;
       const clientName = clientInfo?.name || 'unknown-client';
       const clientVersion = clientInfo?.version || 'unknown-version';
-      
+
       logger.debug(`[SESSION] INIT REQUEST for user: ${authResult.user.email}, client: ${clientName} v${clientVersion}`);
 
-      // Check if user already has an active session and invalidate it
-      const existingActiveSessionId = userActiveSession[authResult.user.email];
-      if (existingActiveSessionId) {
-        logger.debug(`[SESSION] User ${authResult.user.email} already has active session ${existingActiveSessionId}, invalidating`);
-        invalidateUserSessions(authResult.user.email);
-      }
-      
+      // Make room for the new session under the session policy
+      await enforceSessionLimit(dynamicMcpServer, sessions, authResult.user, clientName);
+
       // Generate new session ID and create transport
       const newSessionId = randomUUID();
       logger.debug(`[SESSION] Creating new session: ${newSessionId} for user: ${authResult.user.email}`);
-      transport = await createNewSession(newSessionId, authResult.user.email, authResult.user.apiKey, clientName, clientVersion);
+      transport = await createSessionTransport(
+        {
+          sessionId: newSessionId,
+          userEmail: authResult.user.email,
+          clientName,
+          clientVersion,
+          apiKeyScope: authResult.apiKeyScope,
+          apiKey: authResult.apiKey,
+          transport: "streamable-http",
+          createdAt: new Date(),
+        },
+        authResult.token!,
+        false,
+      );
     } else {
       // Invalid request
       res.status(400).json({
@@ -220,16 +609,16 @@ export function createStreamableHttpRoutes(
 
     // Handle the request
     await transport.handleRequest(req, res, req.body);
-  });
+  }));
 
   return router;
 }
 
 // Export helper functions for notification support
-export const getActiveTransports = (): StreamableHTTPServerTransport[] => {
+export const getActiveTransports = (sessions: SessionRegistry): SessionData["transport"][] => {
   return Object.values(sessions).map(sessionData => sessionData.transport);
 };
 
-export const getTransport = (sessionId: string): StreamableHTTPServerTransport | undefined => {
+export const getTransport = (sessions: SessionRegistry, sessionId: string): SessionData["transport"] | undefined => {
   return sessions[sessionId]?.transport;
 };
@@ -0,0 +1,255 @@
+import { jest } from "@jest/globals";
+import {
+  createLocalJWKSet,
+  exportJWK,
+  generateKeyPair,
+  SignJWT,
+  JWTVerifyGetKey,
+} from "jose";
+import { AuthService } from "../auth.js";
+import { UserRepository } from "../../../db/repositories/UserRepository.js";
+import { config } from "../../../config/index.js";
+
+const ISSUER = "https://auth.example.com/realms/mcp";
+const AUDIENCE = "https://mcp.example.com/mcp";
+
+describe("AuthService", () => {
+  let privateKey: any;
+  let keySet: JWTVerifyGetKey;
+
+  const signToken = (
+    claims: Record<string, unknown>,
+    issuer = ISSUER,
+    audience = AUDIENCE,
+  ) =>
+    new SignJWT({ email_verified: true, ...claims })
+      .setProtectedHeader({ alg: "RS256", kid: "test-key" })
+      .setIssuer(issuer)
+      .setAudience(audience)
+      .setIssuedAt()
+      .setExpirationTime("5m")
+      .sign(privateKey);
+
+  const request = (headers: Record<string, string> = {}, query = {}) =>
+    ({
+      headers,
+      query,
+      ip: "127.0.0.1",
+      protocol: "http",
+      get: (name: string) => (name === "host" ? "localhost:4001" : undefined),
+    }) as any;
+
+  beforeAll(async () => {
+    const keys = await generateKeyPair("RS256");
+    privateKey = keys.privateKey;
+    const jwk = await exportJWK(keys.publicKey);
+    keySet = createLocalJWKSet({
+      keys: [{ ...jwk, kid: "test-key", alg: "RS256" }],
+    });
+  });
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    AuthService.configure(
+      { authServerUrl: "https://auth.example.com/", realm: "mcp", audience: AUDIENCE },
+      keySet,
+    );
+  });
+
+  afterAll(() => {
+    AuthService.configure(undefined);
+  });
+
+  it("authenticates a valid bearer token by its email claim", async () => {
+    const findByEmail = jest
+      .spyOn(UserRepository.prototype, "findByEmail")
+      .mockResolvedValue({ email: "alice@example.com" } as any);
+    const token = await signToken({ email: "alice@example.com" });
+
+    const result = await AuthService.authenticateRequest(
+      request({ authorization: `Bearer ${token}` }),
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.user.email).toBe("alice@example.com");
+    expect(result.token).toBe(token);
+    expect(findByEmail).toHaveBeenCalledWith("alice@example.com");
+  });
+
+  it("rejects a token from another issuer", async () => {
+    const token = await signToken(
+      { email: "alice@example.com" },
+      "https://evil.example.com",
+    );
+    const result = await AuthService.authenticateRequest(
+      request({ authorization: `Bearer ${token}` }),
+    );
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("Invalid or expired bearer token");
+  });
+
+  it("rejects a token issued for another audience", async () => {
+    const token = await signToken(
+      { email: "alice@example.com" },
+      ISSUER,
+      "https://other.example.com",
+    );
+    const result = await AuthService.authenticateRequest(
+      request({ authorization: `Bearer ${token}` }),
+    );
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("Invalid or expired bearer token");
+  });
+
+  it("rejects a token whose email is not verified", async () => {
+    const findByEmail = jest.spyOn(UserRepository.prototype, "findByEmail");
+    for (const claims of [
+      { email: "alice@example.com", email_verified: false },
+      { email: "alice@example.com", email_verified: undefined },
+    ]) {
+      const token = await signToken(claims);
+      const result = await AuthService.authenticateRequest(
+        request({ authorization: `Bearer ${token}` }),
+      );
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/not verified/);
+    }
+    expect(findByEmail).not.toHaveBeenCalled();
+  });
+
+  it("requires an audience, defaulting to the MCP endpoint of MCP_SERVER_URL", async () => {
+    const serverUrl = config.server.url;
+    try {
+      config.server.url = "";
+      expect(() => AuthService.configure({ issuer: ISSUER }, keySet)).toThrow(
+        "OIDC configuration requires an audience",
+      );
+
+      config.server.url = "https://mcp.example.com/";
+      AuthService.configure({ issuer: ISSUER }, keySet);
+      jest
+        .spyOn(UserRepository.prototype, "findByEmail")
+        .mockResolvedValue({ email: "alice@example.com" } as any);
+      const token = await signToken({ email: "alice@example.com" });
+      const result = await AuthService.authenticateRequest(
+        request({ authorization: `Bearer ${token}` }),
+      );
+      expect(result.success).toBe(true);
+    } finally {
+      config.server.url = serverUrl;
+    }
+  });
+
+  it("rejects a token without an email claim", async () => {
+    const token = await signToken({ sub: "123" });
+    const result = await AuthService.authenticateRequest(
+      request({ authorization: `Bearer ${token}` }),
+    );
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/email claim/);
+  });
+
+  it("rejects a valid token for an unregistered user", async () => {
+    jest
+      .spyOn(UserRepository.prototype, "findByEmail")
+      .mockResolvedValue(null);
+    const token = await signToken({ email: "nobody@example.com" });
+    const result = await AuthService.authenticateRequest(
+      request({ authorization: `Bearer ${token}` }),
+    );
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/not registered/);
+  });
+
+  it("uses a custom email claim", async () => {
+    AuthService.configure(
+      { issuer: ISSUER, audience: AUDIENCE, emailClaim: "upn" },
+      keySet,
+    );
+    jest
+      .spyOn(UserRepository.prototype, "findByEmail")
+      .mockResolvedValue({ email: "bob@example.com" } as any);
+    const token = await signToken({ upn: "bob@example.com" });
+    const result = await AuthService.authenticateRequest(
+      request({ authorization: `Bearer ${token}` }),
+    );
+    expect(result.success).toBe(true);
+  });
+
+  it("still accepts API keys when bearer auth is enabled", async () => {
+    jest.spyOn(UserRepository.prototype, "findApiKey").mockResolvedValue({
+      user: { email: "carol@example.com" } as any,
+      key: { name: "laptop", prefix: "key-123", createdAt: new Date() },
+    });
+    const touch = jest
+      .spyOn(UserRepository.prototype, "touchApiKey")
+      .mockResolvedValue(undefined);
+    const result = await AuthService.authenticateRequest(
+      request({}, { apiKey: "key-123" }),
+    );
+    expect(result.success).toBe(true);
+    expect(result.token).toBe("key-123");
+    expect(touch).toHaveBeenCalledWith("carol@example.com", "laptop");
+  });
+
+  it("rejects expired API keys", async () => {
+    jest.spyOn(UserRepository.prototype, "findApiKey").mockResolvedValue({
+      user: { email: "carol@example.com" } as any,
+      key: {
+        name: "old",
+        prefix: "key-123",
+        createdAt: new Date(),
+        expiresAt: new Date(Date.now() - 1000),
+      },
+    });
+    const touch = jest.spyOn(UserRepository.prototype, "touchApiKey");
+    const result = await AuthService.authenticateRequest(
+      request({ "x-apikey": "key-123" }),
+    );
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/'old' has expired/);
+    expect(touch).not.toHaveBeenCalled();
+  });
+
+  it("returns the API key scope for the session", async () => {
+    const scope = { handlers: ["tool-management"] };
+    jest.spyOn(UserRepository.prototype, "findApiKey").mockResolvedValue({
+      user: { email: "carol@example.com" } as any,
+      key: { name: "ci-bot", prefix: "key-123", createdAt: new Date(), scope },
+    });
+    jest
+      .spyOn(UserRepository.prototype, "touchApiKey")
+      .mockResolvedValue(undefined);
+    const result = await AuthService.authenticateRequest(
+      request({}, { apiKey: "key-123" }),
+    );
+    expect(result.apiKeyScope).toEqual(scope);
+  });
+
+  it("publishes protected resource metadata and a WWW-Authenticate challenge", () => {
+    const metadata = AuthService.getProtectedResourceMetadata(
+      "http://localhost:4001",
+    );
+    expect(metadata).toMatchObject({
+      resource: "http://localhost:4001/mcp",
+      authorization_servers: [ISSUER],
+      bearer_methods_supported: ["header"],
+    });
+    expect(AuthService.getWwwAuthenticateHeader(request())).toBe(
+      'Bearer resource_metadata="http://localhost:4001/.well-known/oauth-protected-resource"',
+    );
+  });
+
+  it("rejects bearer tokens and publishes no metadata when OAuth is not configured", async () => {
+    AuthService.configure(undefined);
+    const result = await AuthService.authenticateRequest(
+      request({ authorization: "Bearer abc" }),
+    );
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/not configured/);
+    expect(
+      AuthService.getProtectedResourceMetadata("http://localhost:4001"),
+    ).toBeUndefined();
+    expect(AuthService.getWwwAuthenticateHeader(request())).toBeUndefined();
+  });
+});
@@ -0,0 +1,57 @@
+import { jest } from "@jest/globals";
+import { InMemoryEventStore } from "../eventStore.js";
+
+const message = (n: number) => ({
+  jsonrpc: "2.0" as const,
+  method: "notifications/progress",
+  params: { progress: n },
+});
+
+describe("InMemoryEventStore", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("replays later events of the same stream after the last event ID", async () => {
+    const store = new InMemoryEventStore();
+    const first = await store.storeEvent("_GET_stream", message(1));
+    await store.storeEvent("request-1", message(2));
+    const third = await store.storeEvent("_GET_stream", message(3));
+
+    const replayed: [string, unknown][] = [];
+    const streamId = await store.replayEventsAfter(first, {
+      send: async (eventId, msg) => {
+        replayed.push([eventId, msg]);
+      },
+    });
+
+    expect(streamId).toBe("_GET_stream");
+    expect(replayed).toEqual([[third, message(3)]]);
+  });
+
+  it("keeps at most maxEvents events", async () => {
+    const store = new InMemoryEventStore({ maxEvents: 2 });
+    const first = await store.storeEvent("s", message(1));
+    const second = await store.storeEvent("s", message(2));
+    await store.storeEvent("s", message(3));
+
+    await expect(
+      store.replayEventsAfter(first, { send: async () => {} }),
+    ).rejects.toThrow(/unknown or has expired/);
+    const send = jest.fn(async () => {});
+    await store.replayEventsAfter(second, { send });
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it("discards events older than the retention window", async () => {
+    jest.useFakeTimers({ now: 0 });
+    const store = new InMemoryEventStore({ retentionMs: 1000 });
+    const eventId = await store.storeEvent("s", message(1));
+
+    jest.setSystemTime(2000);
+
+    await expect(
+      store.replayEventsAfter(eventId, { send: async () => {} }),
+    ).rejects.toThrow(/unknown or has expired/);
+  });
+});
@@ -0,0 +1,39 @@
+import {
+  parseSessionLimit,
+  resolveMaxSessions,
+  toMaxSessions,
+} from "../sessionPolicy.js";
+
+describe("session policy", () => {
+  it("parses session limits from environment values", () => {
+    expect(parseSessionLimit(undefined)).toBeUndefined();
+    expect(parseSessionLimit("")).toBeUndefined();
+    expect(parseSessionLimit("Single")).toBe("single");
+    expect(parseSessionLimit("unlimited")).toBe("unlimited");
+    expect(parseSessionLimit("3")).toBe(3);
+    expect(() => parseSessionLimit("0")).toThrow(/Invalid session limit/);
+    expect(() => parseSessionLimit("many")).toThrow(/Invalid session limit/);
+  });
+
+  it("converts limits to a maximum number of sessions", () => {
+    expect(toMaxSessions("single")).toBe(1);
+    expect(toMaxSessions("unlimited")).toBe(Infinity);
+    expect(toMaxSessions(4)).toBe(4);
+    expect(() => toMaxSessions(1.5)).toThrow(/Invalid session limit/);
+  });
+
+  it("defaults to a single session per user", () => {
+    expect(resolveMaxSessions({})).toBe(1);
+    expect(resolveMaxSessions({ maxSessionsPerUser: 2 }, ["user"])).toBe(2);
+  });
+
+  it("uses the most permissive limit among the user's roles", () => {
+    const policy = {
+      maxSessionsPerUser: "single" as const,
+      roles: { "power-user": 3, admin: "unlimited" as const },
+    };
+    expect(resolveMaxSessions(policy, ["user"])).toBe(1);
+    expect(resolveMaxSessions(policy, ["user", "power-user"])).toBe(3);
+    expect(resolveMaxSessions(policy, ["power-user", "admin"])).toBe(Infinity);
+  });
+});
@@ -0,0 +1,38 @@
+import { InMemorySessionStore } from "../sessionStore.js";
+
+describe("InMemorySessionStore", () => {
+  const session = (sessionId: string, userEmail = "a@example.com") => ({
+    sessionId,
+    userEmail,
+    clientName: "cursor",
+    clientVersion: "1.0.0",
+    createdAt: new Date(0),
+    lastUsed: new Date(0),
+  });
+
+  it("saves, touches and deletes sessions", async () => {
+    const store = new InMemorySessionStore();
+    await store.save(session("s1"));
+    await store.touch("s1", new Date(1000));
+    expect((await store.get("s1"))?.lastUsed).toEqual(new Date(1000));
+
+    await store.delete("s1");
+    expect(await store.get("s1")).toBeNull();
+  });
+
+  it("keeps closed sessions with their reason but stops listing them", async () => {
+    const store = new InMemorySessionStore();
+    await store.save(session("s1"));
+    await store.save(session("s2"));
+    await store.save(session("s3", "b@example.com"));
+
+    await store.markClosed("s1", { reason: "evicted", message: "too many" });
+
+    expect((await store.get("s1"))?.closed).toEqual({
+      reason: "evicted",
+      message: "too many",
+    });
+    const open = await store.listOpenByUser("a@example.com");
+    expect(open.map((s) => s.sessionId)).toEqual(["s2"]);
+  });
+});
@@ -1,34 +1,217 @@
 import { Request } from "express";
+import { JWTPayload, JWTVerifyGetKey } from "jose";
 import { UserRepository } from "../../db/repositories/UserRepository.js";
-import { AuthResult } from "../types.js";
+import { AuthConfig, AuthResult } from "../types.js";
+import { OidcTokenVerifier, resolveIssuer } from "./oidc.js";
+import { config } from "../../config/index.js";
+import { isApiKeyExpired, redactApiKey } from "../../utils/apiKeys.js";
 import logger from "../../utils/logger.js";
+import { withSpan } from "../../utils/tracing.js";
+
+export const PROTECTED_RESOURCE_METADATA_PATH =
+  "/.well-known/oauth-protected-resource";
 
 export class AuthService {
+  private static oidcVerifier?: OidcTokenVerifier;
+  private static authConfig?: AuthConfig;
+
+  /**
+   * Configure bearer token authentication. Without an issuer (or authServerUrl)
+   * only API keys are accepted.
+   * @param auth The auth section of the server config
+   * @param keySet Optional key set to verify tokens with instead of the issuer's JWKS
+   */
+  static configure(auth?: AuthConfig, keySet?: JWTVerifyGetKey): void {
+    if (auth && resolveIssuer(auth)) {
+      this.authConfig = auth;
+      this.oidcVerifier = new OidcTokenVerifier(auth, keySet);
+      logger.info(
+        `[AUTH] Bearer token authentication enabled for issuer ${this.oidcVerifier.issuer}`,
+      );
+    } else {
+      this.authConfig = undefined;
+      this.oidcVerifier = undefined;
+    }
+  }
+
+  static isOidcEnabled(): boolean {
+    return !!this.oidcVerifier;
+  }
+
   /**
    * Extract and validate authentication from request
    */
-  static async authenticateRequest(req: Request): Promise<AuthResult> {
+  static authenticateRequest(req: Request): Promise<AuthResult> {
+    return withSpan("auth.authenticate", {}, async (span) => {
+      const result = await this.authenticate(req);
+      span.setAttribute("auth.success", result.success);
+      if (result.user?.email) {
+        span.setAttribute("enduser.id", result.user.email);
+      }
+      return result;
+    });
+  }
+
+  private static async authenticate(req: Request): Promise<AuthResult> {
+    const bearerToken = this.extractBearerToken(req);
+    if (bearerToken) {
+      return this.authenticateBearerToken(bearerToken, req);
+    }
+
     const apiKey = req.query.apiKey ||
                    req.query.apikey ||
                    req.headers["x-apikey"] ||
                    req.headers["apikey"];
-                   
+
     if (!apiKey) {
-      return { success: false, error: "Missing apiKey" };
+      return {
+        success: false,
+        error: this.oidcVerifier
+          ? "Missing apiKey or bearer token"
+          : "Missing apiKey",
+      };
     }
 
     const userRepo = new UserRepository();
-    const user = await userRepo.findByApiKey(apiKey as string);
-    
-    if (!user) {
-      logger.warn(`Invalid apiKey attempt: apiKey=${apiKey}, ip=${req.ip}`);
+    const match = await userRepo.findApiKey(apiKey as string);
+
+    if (!match) {
+      logger.warn(
+        `Invalid apiKey attempt: apiKey=${redactApiKey(apiKey as string)}, ip=${req.ip}`,
+      );
       return {
         success: false,
         error: "Invalid apiKey. Please contact the administrator to request access or a valid API key."
       };
     }
 
-    logger.debug(`[AUTH] User authenticated: email=${user.email}, apiKey=${user.apiKey}`);
-    return { success: true, user };
+    const { user, key } = match;
+    if (isApiKeyExpired(key)) {
+      logger.warn(
+        `Expired apiKey attempt: email=${user.email}, key=${key.name}, ip=${req.ip}`,
+      );
+      return {
+        success: false,
+        error: `API key '${key.name}' has expired. Use create-api-key or reset-api-key to obtain a new key.`,
+      };
+    }
+
+    await userRepo.touchApiKey(user.email, key.name);
+    logger.debug(
+      `[AUTH] User authenticated: email=${user.email}, key=${key.name}, apiKey=${redactApiKey(apiKey as string)}`,
+    );
+    return {
+      success: true,
+      user,
+      token: apiKey as string,
+      apiKeyScope: key.scope,
+      apiKey: { name: key.name, prefix: key.prefix, expiresAt: key.expiresAt },
+    };
+  }
+
+  /**
+   * Build the RFC 9728 protected resource metadata, or undefined if bearer
+   * token authentication is not configured.
+   */
+  static getProtectedResourceMetadata(
+    baseUrl: string,
+  ): Record<string, unknown> | undefined {
+    if (!this.oidcVerifier) {
+      return undefined;
+    }
+    return {
+      resource: `${baseUrl}/mcp`,
+      authorization_servers: [this.oidcVerifier.issuer],
+      bearer_methods_supported: ["header"],
+      resource_name: config.server.mcpName,
+      ...(this.authConfig?.scopesSupported
+        ? { scopes_supported: this.authConfig.scopesSupported }
+        : {}),
+    };
+  }
+
+  /**
+   * Value for the WWW-Authenticate header of a 401 response, pointing clients
+   * at the protected resource metadata. Undefined when OAuth is not configured.
+   */
+  static getWwwAuthenticateHeader(req: Request): string | undefined {
+    if (!this.oidcVerifier) {
+      return undefined;
+    }
+    return `Bearer resource_metadata="${getBaseUrl(req)}${PROTECTED_RESOURCE_METADATA_PATH}"`;
+  }
+
+  private static extractBearerToken(req: Request): string | undefined {
+    const authorization = req.headers.authorization;
+    if (!authorization) {
+      return undefined;
+    }
+    const match = /^Bearer\s+(.+)$/i.exec(authorization);
+    return match ? match[1].trim() : undefined;
+  }
+
+  private static async authenticateBearerToken(
+    token: string,
+    req: Request,
+  ): Promise<AuthResult> {
+    if (!this.oidcVerifier) {
+      return {
+        success: false,
+        error: "Bearer token authentication is not configured on this server",
+      };
+    }
+
+    let payload: JWTPayload;
+    try {
+      payload = await this.oidcVerifier.verify(token);
+    } catch (error) {
+      logger.warn(
+        `Invalid bearer token attempt: ${
+          error instanceof Error ? error.message : String(error)
+        }, ip=${req.ip}`,
+      );
+      return { success: false, error: "Invalid or expired bearer token" };
+    }
+
+    const email = this.oidcVerifier.getEmail(payload);
+    if (!email) {
+      return {
+        success: false,
+        error: "Bearer token does not contain an email claim",
+      };
+    }
+    // Users are found by email, so an unverified address could take over an account
+    if (!this.oidcVerifier.isEmailVerified(payload)) {
+      logger.warn(`Bearer token with unverified email: email=${email}, ip=${req.ip}`);
+      return {
+        success: false,
+        error: "The email address of the bearer token is not verified",
+      };
+    }
+
+    const userRepo = new UserRepository();
+    const user = await userRepo.findByEmail(email);
+    if (!user) {
+      logger.warn(`Bearer token for unregistered user: email=${email}, ip=${req.ip}`);
+      return {
+        success: false,
+        error: "You are not registered. Please contact the administrator to be added.",
+      };
+    }
+
+    logger.debug(`[AUTH] User authenticated via bearer token: email=${user.email}`);
+    return { success: true, user, token };
+  }
+}
+
+/**
+ * Public base URL of this server. Uses MCP_SERVER_URL when it includes a
+ * scheme, otherwise derives it from the request.
+ */
+export function getBaseUrl(req: Request): string {
+  const configured = config.server.url;
+  if (configured && /^https?:\/\//.test(configured)) {
+    return configured.replace(/\/$/, "");
   }
-}
\ No newline at end of file
+  return `${req.protocol}://${req.get("host")}`;
+}
@@ -0,0 +1,80 @@
+import {
+  EventId,
+  EventStore,
+  StreamId,
+} from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+export const DEFAULT_EVENT_RETENTION_MS = 5 * 60 * 1000;
+export const DEFAULT_MAX_EVENTS = 1000;
+
+interface StoredEvent {
+  eventId: EventId;
+  streamId: StreamId;
+  message: JSONRPCMessage;
+  storedAt: number;
+}
+
+/**
+ * Bounded in-memory event store for a single session, enabling Last-Event-ID
+ * replay when a client's stream drops. Events older than the retention window
+ * or beyond the maximum count are discarded.
+ */
+export class InMemoryEventStore implements EventStore {
+  private events: StoredEvent[] = [];
+  private sequence = 0;
+  private retentionMs: number;
+  private maxEvents: number;
+
+  constructor(
+    options: { retentionMs?: number; maxEvents?: number } = {},
+  ) {
+    this.retentionMs = options.retentionMs ?? DEFAULT_EVENT_RETENTION_MS;
+    this.maxEvents = options.maxEvents ?? DEFAULT_MAX_EVENTS;
+  }
+
+  async storeEvent(
+    streamId: StreamId,
+    message: JSONRPCMessage,
+  ): Promise<EventId> {
+    const eventId = String(++this.sequence);
+    this.events.push({ eventId, streamId, message, storedAt: Date.now() });
+    this.prune();
+    return eventId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    {
+      send,
+    }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> },
+  ): Promise<StreamId> {
+    this.prune();
+    const index = this.events.findIndex((e) => e.eventId === lastEventId);
+    if (index === -1) {
+      throw new Error(`Event ${lastEventId} is unknown or has expired`);
+    }
+    const { streamId } = this.events[index];
+    for (const event of this.events.slice(index + 1)) {
+      if (event.streamId === streamId) {
+        await send(event.eventId, event.message);
+      }
+    }
+    return streamId;
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.retentionMs;
+    let drop = 0;
+    while (
+      drop < this.events.length &&
+      (this.events[drop].storedAt < cutoff ||
+        this.events.length - drop > this.maxEvents)
+    ) {
+      drop++;
+    }
+    if (drop > 0) {
+      this.events.splice(0, drop);
+    }
+  }
+}
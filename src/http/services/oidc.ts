@@ -0,0 +1,131 @@
+import axios from "axios";
+import {
+  createRemoteJWKSet,
+  jwtVerify,
+  JWTPayload,
+  JWTVerifyGetKey,
+} from "jose";
+import { AuthConfig } from "../types.js";
+import { config } from "../../config/index.js";
+import logger from "../../utils/logger.js";
+
+/**
+ * Resolve the token issuer from the auth config.
+ * An explicit issuer wins; otherwise Keycloak-style `${authServerUrl}/realms/${realm}`
+ * is used, falling back to the bare authServerUrl.
+ */
+export function resolveIssuer(auth: AuthConfig): string | undefined {
+  if (auth.issuer) {
+    return auth.issuer.replace(/\/$/, "");
+  }
+  if (!auth.authServerUrl) {
+    return undefined;
+  }
+  const base = auth.authServerUrl.replace(/\/$/, "");
+  return auth.realm ? `${base}/realms/${auth.realm}` : base;
+}
+
+/**
+ * Resolve the audience tokens must be issued for. An explicit audience wins;
+ * otherwise it is the MCP endpoint of MCP_SERVER_URL, the resource this server
+ * publishes in its protected resource metadata.
+ */
+export function resolveAudience(
+  auth: AuthConfig,
+): string | string[] | undefined {
+  if (auth.audience?.length) {
+    return auth.audience;
+  }
+  const serverUrl = config.server.url;
+  if (serverUrl && /^https?:\/\//.test(serverUrl)) {
+    return `${serverUrl.replace(/\/$/, "")}/mcp`;
+  }
+  return undefined;
+}
+
+/**
+ * Validates OAuth 2.1 / OIDC access tokens (JWTs) against the issuer's JWKS.
+ */
+export class OidcTokenVerifier {
+  public readonly issuer: string;
+  public readonly audience: string | string[];
+  private auth: AuthConfig;
+  private keySet?: JWTVerifyGetKey;
+
+  /**
+   * @param auth The auth configuration; must resolve to an issuer and an audience
+   * @param keySet Optional key set, used instead of fetching the issuer's JWKS
+   */
+  constructor(auth: AuthConfig, keySet?: JWTVerifyGetKey) {
+    const issuer = resolveIssuer(auth);
+    if (!issuer) {
+      throw new Error(
+        "OIDC configuration requires either issuer or authServerUrl",
+      );
+    }
+    // Without an audience, tokens issued for any other client would be accepted
+    const audience = resolveAudience(auth);
+    if (!audience) {
+      throw new Error(
+        "OIDC configuration requires an audience: set auth.audience, or MCP_SERVER_URL to use <MCP_SERVER_URL>/mcp",
+      );
+    }
+    this.issuer = issuer;
+    this.audience = audience;
+    this.auth = auth;
+    this.keySet = keySet;
+  }
+
+  /**
+   * Verify the token signature, issuer, expiry and audience.
+   * Throws if the token is not valid.
+   */
+  async verify(token: string): Promise<JWTPayload> {
+    const keySet = await this.getKeySet();
+    const { payload } = await jwtVerify(token, keySet, {
+      issuer: this.issuer,
+      audience: this.audience,
+    });
+    return payload;
+  }
+
+  /**
+   * Extract the user's email address from a verified token payload.
+   */
+  getEmail(payload: JWTPayload): string | undefined {
+    const claim = this.auth.emailClaim || "email";
+    const value = payload[claim];
+    return typeof value === "string" && value ? value : undefined;
+  }
+
+  /**
+   * Whether the identity provider verified the token's email address, so it
+   * can be mapped to a user. Always true when requireVerifiedEmail is false.
+   */
+  isEmailVerified(payload: JWTPayload): boolean {
+    if (this.auth.requireVerifiedEmail === false) {
+      return true;
+    }
+    return payload.email_verified === true;
+  }
+
+  private async getKeySet(): Promise<JWTVerifyGetKey> {
+    if (this.keySet) {
+      return this.keySet;
+    }
+    const jwksUri = this.auth.jwksUri || (await this.discoverJwksUri());
+    logger.debug(`[AUTH] Using JWKS from ${jwksUri}`);
+    this.keySet = createRemoteJWKSet(new URL(jwksUri));
+    return this.keySet;
+  }
+
+  private async discoverJwksUri(): Promise<string> {
+    const discoveryUrl = `${this.issuer}/.well-known/openid-configuration`;
+    const response = await axios.get(discoveryUrl);
+    const jwksUri = response.data?.jwks_uri;
+    if (!jwksUri) {
+      throw new Error(`No jwks_uri found in ${discoveryUrl}`);
+    }
+    return jwksUri;
+  }
+}
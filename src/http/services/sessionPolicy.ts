@@ -0,0 +1,58 @@
+import { SessionLimit, SessionPolicyConfig } from "../types.js";
+
+export const DEFAULT_SESSION_LIMIT: SessionLimit = "single";
+
+/**
+ * Parse a session limit from an environment variable value.
+ * Returns undefined for empty values.
+ */
+export function parseSessionLimit(
+  value: string | undefined,
+): SessionLimit | undefined {
+  const trimmed = value?.trim().toLowerCase();
+  if (!trimmed) {
+    return undefined;
+  }
+  if (trimmed === "single" || trimmed === "unlimited") {
+    return trimmed;
+  }
+  const count = Number(trimmed);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(
+      `Invalid session limit '${value}': use "single", "unlimited" or a positive integer`,
+    );
+  }
+  return count;
+}
+
+/**
+ * Convert a session limit to a maximum number of sessions (Infinity for unlimited).
+ */
+export function toMaxSessions(limit: SessionLimit): number {
+  if (limit === "single") return 1;
+  if (limit === "unlimited") return Infinity;
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(
+      `Invalid session limit '${limit}': use "single", "unlimited" or a positive integer`,
+    );
+  }
+  return limit;
+}
+
+/**
+ * Maximum number of concurrent sessions for a user with the given roles.
+ * Role limits override the server-wide limit; if several of the user's roles
+ * have a limit, the most permissive one applies.
+ */
+export function resolveMaxSessions(
+  policy: SessionPolicyConfig,
+  roles: string[] = [],
+): number {
+  const roleLimits = roles
+    .filter((role) => policy.roles?.[role] !== undefined)
+    .map((role) => toMaxSessions(policy.roles![role]));
+  if (roleLimits.length > 0) {
+    return Math.max(...roleLimits);
+  }
+  return toMaxSessions(policy.maxSessionsPerUser ?? DEFAULT_SESSION_LIMIT);
+}
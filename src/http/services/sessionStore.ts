@@ -0,0 +1,51 @@
+import { ClosedSessionInfo, SessionStore, StoredSession } from "../types.js";
+
+const MAX_CLOSED_SESSIONS = 1000;
+
+/**
+ * Session store for a single server process. Sessions do not survive a
+ * restart and are not shared between instances.
+ */
+export class InMemorySessionStore implements SessionStore {
+  private sessions = new Map<string, StoredSession>();
+  // Closed sessions in the order they were closed, bounded
+  private closedOrder: string[] = [];
+
+  async save(session: StoredSession): Promise<void> {
+    this.sessions.set(session.sessionId, { ...session });
+  }
+
+  async get(sessionId: string): Promise<StoredSession | null> {
+    const session = this.sessions.get(sessionId);
+    return session ? { ...session } : null;
+  }
+
+  async touch(sessionId: string, lastUsed: Date): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (session && !session.closed) {
+      session.lastUsed = lastUsed;
+    }
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+
+  async markClosed(sessionId: string, closed: ClosedSessionInfo): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.closed) {
+      return;
+    }
+    session.closed = closed;
+    this.closedOrder.push(sessionId);
+    if (this.closedOrder.length > MAX_CLOSED_SESSIONS) {
+      this.sessions.delete(this.closedOrder.shift()!);
+    }
+  }
+
+  async listOpenByUser(userEmail: string): Promise<StoredSession[]> {
+    return [...this.sessions.values()]
+      .filter((session) => session.userEmail === userEmail && !session.closed)
+      .map((session) => ({ ...session }));
+  }
+}
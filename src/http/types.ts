@@ -1,5 +1,9 @@
-import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
-import { DynamicMcpServer } from "../mcp/server.js";
+import {
+  EventStore,
+  StreamableHTTPServerTransport,
+} from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { DynamicMcpServer, SessionCloseReason } from "../mcp/server.js";
+import { ApiKeyScope } from "../db/models/User.js";
 
 export interface SessionInfo {
   sessionId: string;
@@ -8,9 +12,22 @@ export interface SessionInfo {
   mcpServer: DynamicMcpServer;
 }
 
+/** The API key a session was opened with, re-checked on each request */
+export interface SessionApiKey {
+  name: string;
+  prefix: string;
+  expiresAt?: Date;
+}
+
 export interface AuthResult {
   success: boolean;
   user?: any;
+  /** The credential the request was authenticated with (API key or bearer token) */
+  token?: string;
+  /** Scope of the API key used, enforced for the lifetime of the session */
+  apiKeyScope?: ApiKeyScope;
+  /** The API key used, if the request was authenticated with one */
+  apiKey?: SessionApiKey;
   error?: string;
 }
 
@@ -18,4 +35,90 @@ export type Transport = StreamableHTTPServerTransport;
 
 export interface TransportStorage {
   [sessionId: string]: Transport;
-}
\ No newline at end of file
+}
+export interface AuthConfig {
+  /** Base URL of the authorization server (e.g. a Keycloak host) */
+  authServerUrl?: string;
+  /** Realm on the authorization server; combined with authServerUrl to form the issuer */
+  realm?: string;
+  clientId?: string;
+  clientSecret?: string;
+  /** Explicit issuer; overrides the authServerUrl/realm derivation */
+  issuer?: string;
+  /** Explicit JWKS URL; discovered from the issuer's openid-configuration when omitted */
+  jwksUri?: string;
+  /** Expected token audience (defaults to <MCP_SERVER_URL>/mcp; required when MCP_SERVER_URL is not set) */
+  audience?: string | string[];
+  /** Claim that carries the user's email address (defaults to "email") */
+  emailClaim?: string;
+  /** Reject tokens whose email_verified claim is not true (default true) */
+  requireVerifiedEmail?: boolean;
+  /** Scopes advertised in the protected resource metadata */
+  scopesSupported?: string[];
+}
+
+/** Concurrent sessions allowed per user: "single", "unlimited" or a number */
+export type SessionLimit = "single" | "unlimited" | number;
+
+export interface SessionPolicyConfig {
+  /** Limit applied to every user (defaults to MCP_MAX_SESSIONS_PER_USER, then "single") */
+  maxSessionsPerUser?: SessionLimit;
+  /** Per-role limits; a user gets the most permissive limit among their roles */
+  roles?: Record<string, SessionLimit>;
+  /** Close sessions without requests for this long, in ms (0 disables; defaults to MCP_SESSION_IDLE_TIMEOUT_MS, then 1 hour) */
+  idleTimeoutMs?: number;
+  /** Close sessions older than this, in ms (0 disables; defaults to MCP_SESSION_MAX_AGE_MS) */
+  maxAgeMs?: number;
+  /** How often to look for expired sessions, in ms (defaults to 60 seconds) */
+  reapIntervalMs?: number;
+  /** Where sessions are kept: "memory" (default), "mongo" or a custom store (defaults to MCP_SESSION_STORE) */
+  store?: "memory" | "mongo" | SessionStore;
+  /** Event store for resumable streams: "memory" (default), "mongo", "none" or a factory (defaults to MCP_EVENT_STORE) */
+  eventStore?: "memory" | "mongo" | "none" | EventStoreFactory;
+  /** How long events are kept for Last-Event-ID replay, in ms (defaults to MCP_EVENT_RETENTION_MS, then 5 minutes) */
+  eventRetentionMs?: number;
+}
+
+/** Creates the event store for one session's streams */
+export type EventStoreFactory = (sessionId: string) => EventStore;
+
+/** Why the server closed a session, kept so that its client gets an explanation */
+export interface ClosedSessionInfo {
+  reason: Exclude<SessionCloseReason, "closed" | "shutdown">;
+  message: string;
+}
+
+/** Session state that outlives a single server process */
+export interface StoredSession {
+  sessionId: string;
+  userEmail: string;
+  clientName: string;
+  clientVersion: string;
+  apiKeyScope?: ApiKeyScope;
+  apiKey?: SessionApiKey;
+  /**
+   * Transport of the session (default "streamable-http"). Legacy SSE sessions
+   * live on the instance holding their stream and cannot be resumed elsewhere.
+   */
+  transport?: "streamable-http" | "sse";
+  createdAt: Date;
+  lastUsed: Date;
+  /** Set once the server has closed the session */
+  closed?: ClosedSessionInfo;
+}
+
+/**
+ * Persists sessions so that a request can be served by any server instance,
+ * including after a restart.
+ */
+export interface SessionStore {
+  save(session: StoredSession): Promise<void>;
+  get(sessionId: string): Promise<StoredSession | null>;
+  touch(sessionId: string, lastUsed: Date): Promise<void>;
+  /** Remove a session that its client terminated */
+  delete(sessionId: string): Promise<void>;
+  /** Mark a session as closed by the server; it is kept for a while to explain why */
+  markClosed(sessionId: string, closed: ClosedSessionInfo): Promise<void>;
+  /** Sessions of a user that have not been closed */
+  listOpenByUser(userEmail: string): Promise<StoredSession[]>;
+}
@@ -2,15 +2,22 @@ import {
   DynamicMcpServer,
   DynamicMcpServerConfig,
   SessionInfo,
+  SessionClosedEvent,
+  SessionCloseReason,
+  HealthReport,
 } from "./mcp/server.js";
 import {
   HandlerFunction,
   HandlerPackage,
+  HandlerHealth,
   ToolDefinition,
   PromptDefinition,
   PromptArgumentDefinition,
   PromptOutput,
   AuthRoute,
+  ToolContent,
+  ResourceDefinition,
+  ResourceOutput,
 } from "./mcp/types.js";
 import { HandlerOutput } from "./services/ToolService.js";
 import logger from "./utils/logger.js";
@@ -19,18 +26,57 @@ export { DynamicMcpServer, logger };
 export { UserRepository } from "./db/repositories/UserRepository.js";
 export type { IUser } from "./db/models/User.js";
 export type { ITool } from "./db/models/Tool.js";
+export type { IResource } from "./db/models/Resource.js";
+export type {
+  AuthConfig,
+  SessionLimit,
+  SessionPolicyConfig,
+  SessionStore,
+  StoredSession,
+  ClosedSessionInfo,
+  SessionApiKey,
+  EventStoreFactory,
+} from "./http/types.js";
+export { InMemorySessionStore } from "./http/services/sessionStore.js";
+export { SessionRepository } from "./db/repositories/SessionRepository.js";
+export { InMemoryEventStore } from "./http/services/eventStore.js";
+export { StreamEventRepository } from "./db/repositories/StreamEventRepository.js";
 
 export type {
   HandlerFunction,
   HandlerPackage,
+  HandlerHealth,
+  HealthReport,
   DynamicMcpServerConfig,
   SessionInfo,
+  SessionClosedEvent,
+  SessionCloseReason,
   ToolDefinition,
   PromptDefinition,
   PromptArgumentDefinition,
   PromptOutput,
   HandlerOutput,
+  ToolContent,
+  ResourceDefinition,
+  ResourceOutput,
   AuthRoute,
 };
 
 export { sendEmail, sendBulkEmail } from "./services/EmailService.js";
+export {
+  loadOpenApiDocument,
+  parseOpenApiDocument,
+  openApiToTools,
+} from "./utils/openapi.js";
+export type { OpenApiDocument, OpenApiImportOptions } from "./utils/openapi.js";
+export type { HttpHandlerConfig } from "./handlers/httpHandler/request.js";
+export type { ScriptHandlerConfig } from "./handlers/scriptHandler/index.js";
+export type {
+  PipelineHandlerConfig,
+  PipelineStep,
+} from "./handlers/pipelineHandler/index.js";
+export {
+  createGatewayHandlerPackage,
+  gatewayCreator,
+} from "./handlers/gatewayHandler/index.js";
+export type { UpstreamServerConfig } from "./handlers/gatewayHandler/index.js";
@@ -0,0 +1,279 @@
+import { jest } from "@jest/globals";
+import mongoose from "mongoose";
+import { PassThrough } from "stream";
+import { DynamicMcpServer, SessionClosedEvent } from "../server.js";
+import { STDIO_SESSION_ID, StdioSessionTransport } from "../stdio.js";
+import { UserRepository } from "../../db/repositories/UserRepository.js";
+import { HandlerPackage } from "../types.js";
+
+describe("DynamicMcpServer sessions", () => {
+  let server: DynamicMcpServer;
+
+  beforeEach(() => {
+    server = new DynamicMcpServer({ name: "test", version: "0.0.1" });
+  });
+
+  it("emits sessionClosed with the reason when a session is removed", async () => {
+    const listener = jest.fn<(event: SessionClosedEvent) => void>();
+    server.on("sessionClosed", listener);
+    await server.setSessionInfo("s1", {
+      sessionId: "s1",
+      user: { email: "a@b.com" },
+      token: "t",
+      mcpServer: server,
+    });
+
+    server.removeSessionInfo("s1", "idle");
+    server.removeSessionInfo("s1", "idle");
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({
+      sessionId: "s1",
+      user: { email: "a@b.com" },
+      reason: "idle",
+    });
+    expect(() => server.getSessionInfo("s1")).toThrow(/No session context/);
+  });
+
+  it("applies session policy overrides from the server config", () => {
+    const configured = new DynamicMcpServer({
+      name: "test",
+      version: "0.0.1",
+      sessions: { maxSessionsPerUser: "unlimited", idleTimeoutMs: 0 },
+    });
+    expect(configured.getSessionPolicy()).toMatchObject({
+      maxSessionsPerUser: "unlimited",
+      idleTimeoutMs: 0,
+    });
+    expect(() =>
+      new DynamicMcpServer({
+        name: "test",
+        version: "0.0.1",
+        sessions: { roles: { admin: 0 } },
+      }),
+    ).toThrow(/Invalid session limit/);
+  });
+
+  it("creates an event store per session unless resumability is disabled", () => {
+    expect(server.createEventStore("s1")).toBeDefined();
+    expect(server.createEventStore("s1")).not.toBe(
+      server.createEventStore("s2"),
+    );
+    const disabled = new DynamicMcpServer({
+      name: "test",
+      version: "0.0.1",
+      sessions: { eventStore: "none" },
+    });
+    expect(disabled.createEventStore("s1")).toBeUndefined();
+  });
+});
+
+describe("DynamicMcpServer health", () => {
+  let server: DynamicMcpServer;
+
+  const handlerPackage = (
+    name: string,
+    healthCheck?: HandlerPackage["healthCheck"],
+  ): HandlerPackage => ({
+    name,
+    tools: [],
+    handler: async () => ({ result: {} }),
+    healthCheck,
+  });
+
+  const connectDatabase = (ping = async () => ({ ok: 1 })) => {
+    // readyState is a non-configurable getter over _readyState
+    (mongoose.connection as any)._readyState =
+      mongoose.ConnectionStates.connected;
+    (mongoose.connection as any).db = { admin: () => ({ ping }) };
+  };
+
+  beforeEach(() => {
+    server = new DynamicMcpServer({ name: "test", version: "1.2.3" });
+  });
+
+  afterEach(() => {
+    (mongoose.connection as any)._readyState =
+      mongoose.ConnectionStates.disconnected;
+    delete (mongoose.connection as any).db;
+  });
+
+  it("reports down when MongoDB is not connected", async () => {
+    const report = await server.getHealth();
+    expect(report.status).toBe("down");
+    expect(report.version).toBe("1.2.3");
+    expect(report.database).toEqual({
+      status: "down",
+      message: "MongoDB is disconnected",
+    });
+  });
+
+  it("reports ok with handler and session details when healthy", async () => {
+    connectDatabase();
+    (server as any).handlerPackages.set("a", handlerPackage("a"));
+    (server as any).handlerPackages.set(
+      "b",
+      handlerPackage("b", async () => ({ status: "ok", details: { n: 1 } })),
+    );
+    await server.setSessionInfo("s1", {
+      sessionId: "s1",
+      user: { email: "a@b.com" },
+      token: "t",
+      mcpServer: server,
+    });
+
+    const report = await server.getHealth();
+
+    expect(report).toMatchObject({
+      status: "ok",
+      database: { status: "ok" },
+      handlers: [
+        { name: "a", status: "ok" },
+        { name: "b", status: "ok", details: { n: 1 } },
+      ],
+      sessions: { active: 1 },
+    });
+  });
+
+  it("reports degraded when a handler failed init or its health check", async () => {
+    connectDatabase();
+    (server as any).handlerPackages.set("a", handlerPackage("a"));
+    (server as any).handlerInitErrors.set("a", "missing API key");
+    (server as any).handlerPackages.set(
+      "b",
+      handlerPackage("b", async () => {
+        throw new Error("upstream unreachable");
+      }),
+    );
+    (server as any).handlerPackages.set(
+      "c",
+      handlerPackage("c", async () => ({ status: "degraded", message: "slow" })),
+    );
+
+    const report = await server.getHealth();
+
+    expect(report.status).toBe("degraded");
+    expect(report.handlers).toEqual([
+      { name: "a", status: "down", message: "init() failed: missing API key" },
+      { name: "b", status: "down", message: "upstream unreachable" },
+      { name: "c", status: "degraded", message: "slow" },
+    ]);
+  });
+
+  it("keeps serving when a handler's init fails, reporting it down", async () => {
+    connectDatabase();
+    await expect(
+      server.registerHandler({
+        name: "jira",
+        tools: [],
+        handler: async () => ({}),
+        init: async () => {
+          throw new Error("missing API key");
+        },
+      }),
+    ).resolves.toBeUndefined();
+
+    const report = await server.getHealth();
+
+    expect(report.status).toBe("degraded");
+    expect(report.handlers).toEqual([
+      { name: "jira", status: "down", message: "init() failed: missing API key" },
+    ]);
+  });
+
+  it("reports down when the MongoDB ping fails", async () => {
+    connectDatabase(async () => {
+      throw new Error("not primary");
+    });
+    const report = await server.getHealth();
+    expect(report.status).toBe("down");
+    expect(report.database.message).toBe("MongoDB ping failed: not primary");
+  });
+});
+
+describe("DynamicMcpServer stop", () => {
+  it("shuts down handler packages once, even when stop is called twice", async () => {
+    const server = new DynamicMcpServer({ name: "test", version: "0.0.1" });
+    const shutdown = jest.fn(async () => {});
+    const failing = jest.fn(async () => {
+      throw new Error("already closed");
+    });
+    (server as any).handlerPackages.set("a", {
+      name: "a",
+      tools: [],
+      handler: async () => ({ result: {} }),
+      shutdown: failing,
+    });
+    (server as any).handlerPackages.set("b", {
+      name: "b",
+      tools: [],
+      handler: async () => ({ result: {} }),
+      shutdown,
+    });
+
+    await Promise.all([server.stop(10), server.stop(10)]);
+
+    expect(server.isStopping()).toBe(true);
+    expect(failing).toHaveBeenCalledTimes(1);
+    expect(shutdown).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("DynamicMcpServer stdio transport", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("rejects an unknown transport", () => {
+    expect(
+      () =>
+        new DynamicMcpServer({
+          name: "test",
+          version: "0.0.1",
+          transport: "ws" as any,
+        }),
+    ).toThrow(/Invalid transport 'ws'/);
+  });
+
+  it("binds the stdio session to a fixed user and sends notifications over stdout", async () => {
+    jest
+      .spyOn(UserRepository.prototype, "findByEmail")
+      .mockResolvedValue({ email: "admin@example.com" } as any);
+    const server = new DynamicMcpServer({ name: "test", version: "0.0.1" });
+    const stdin = new PassThrough();
+    const stdout = new PassThrough();
+    const transport = new StdioSessionTransport(stdin, stdout);
+
+    await (server as any).startStdio("admin@example.com", transport);
+
+    expect(server.getSessionInfo(STDIO_SESSION_ID)).toMatchObject({
+      sessionId: STDIO_SESSION_ID,
+      user: { email: "admin@example.com" },
+    });
+
+    await server.notifyToolListChanged();
+    expect(JSON.parse(stdout.read().toString())).toEqual({
+      jsonrpc: "2.0",
+      method: "notifications/tools/list_changed",
+      params: {},
+    });
+
+    await transport.close();
+    expect(() => server.getSessionInfo(STDIO_SESSION_ID)).toThrow(
+      /No session context/,
+    );
+  });
+
+  it("refuses to start stdio for an unregistered user", async () => {
+    jest
+      .spyOn(UserRepository.prototype, "findByEmail")
+      .mockResolvedValue(null);
+    const server = new DynamicMcpServer({ name: "test", version: "0.0.1" });
+    await expect(
+      (server as any).startStdio(
+        "nobody@example.com",
+        new StdioSessionTransport(new PassThrough(), new PassThrough()),
+      ),
+    ).rejects.toThrow(/'nobody@example.com' does not exist/);
+  });
+});
@@ -1,22 +1,103 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import logger from "../utils/logger.js";
+import logger, { logToStderr } from "../utils/logger.js";
 import { ToolService } from "../services/ToolService.js";
 import { PromptService } from "../services/PromptService.js";
-import { HandlerFunction, HandlerPackage } from "./types.js";
+import { ResourceService } from "../services/ResourceService.js";
+import { HandlerFunction, HandlerHealth, HandlerPackage } from "./types.js";
 import { EventEmitter } from "events";
 import { HttpServer } from "../http/http-server.js";
 import { config } from "../config/index.js";
-import { connectToDatabase } from "../db/connection.js";
+import {
+  checkDatabaseConnection,
+  connectToDatabase,
+  disconnectFromDatabase,
+} from "../db/connection.js";
 import { UserRepository } from "../db/repositories/UserRepository.js";
 import { handlerPackages } from "../handlers/index.js";
+import {
+  createGatewayHandlerPackage,
+  GATEWAY_HANDLER,
+  UpstreamServerConfig,
+} from "../handlers/gatewayHandler/index.js";
 import { ToolRepository } from "../db/repositories/ToolRepository.js";
 import { PromptRepository } from "../db/repositories/PromptRepository.js";
+import { AuthService } from "../http/services/auth.js";
+import {
+  AuthConfig,
+  EventStoreFactory,
+  SessionPolicyConfig,
+  SessionStore,
+} from "../http/types.js";
+import { EventStore } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { STDIO_SESSION_ID, StdioSessionTransport } from "./stdio.js";
+import {
+  parseSessionLimit,
+  toMaxSessions,
+} from "../http/services/sessionPolicy.js";
+import { InMemorySessionStore } from "../http/services/sessionStore.js";
+import { InMemoryEventStore } from "../http/services/eventStore.js";
+import { SessionRepository } from "../db/repositories/SessionRepository.js";
+import { StreamEventRepository } from "../db/repositories/StreamEventRepository.js";
+import { ApiKeyScope } from "../db/models/User.js";
+import { notificationFailures } from "../utils/metrics.js";
+import { startTracing, stopTracing } from "../utils/tracing.js";
 
 export interface SessionInfo {
   sessionId: string;
   user: any;
   token: string;
   mcpServer: DynamicMcpServer;
+  /** Scope of the API key the session was opened with, if any */
+  apiKeyScope?: ApiKeyScope;
+}
+
+/** Why a session was closed */
+export type SessionCloseReason =
+  | "closed"
+  | "evicted"
+  | "idle"
+  | "max_age"
+  | "revoked"
+  | "key_expired"
+  | "shutdown";
+
+/** Payload of the "sessionClosed" event */
+export interface SessionClosedEvent {
+  sessionId: string;
+  user: any;
+  reason: SessionCloseReason;
+}
+
+/** Readiness of the server, as reported by /health/ready */
+export interface HealthReport {
+  /** "down" without MongoDB, "degraded" when a handler package is not healthy */
+  status: "ok" | "degraded" | "down";
+  version: string;
+  uptimeSeconds: number;
+  database: { status: "ok" | "down"; message?: string };
+  handlers: (HandlerHealth & { name: string })[];
+  sessions: { active: number };
+}
+
+// Longest a single dependency may take to answer a health check
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+// Longest a handler package's shutdown() may take
+const HANDLER_SHUTDOWN_TIMEOUT_MS = 10000;
+
+function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  what: string,
+): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`${what} timed out after ${timeoutMs}ms`)),
+      timeoutMs,
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
 }
 
 export interface DynamicMcpServerConfig {
@@ -27,11 +108,18 @@ export interface DynamicMcpServerConfig {
       listChanged?: boolean;
     };
   };
-  auth?: {
-    authServerUrl?: string;
-    realm?: string;
-    clientId?: string;
-    clientSecret?: string;
+  /** "http" (default) or "stdio" for a single local session (defaults to MCP_TRANSPORT) */
+  transport?: "http" | "stdio";
+  stdio?: {
+    /** User the stdio session acts as (defaults to MCP_STDIO_USER_EMAIL, then MCP_ADMIN_EMAIL) */
+    userEmail?: string;
+  };
+  auth?: AuthConfig;
+  /** How many concurrent sessions a user may hold (per server and per role) */
+  sessions?: SessionPolicyConfig;
+  /** Upstream MCP servers whose tools and prompts this server mirrors and proxies */
+  gateway?: {
+    upstreams: UpstreamServerConfig[];
   };
   handlers?: HandlerFunction[];
 }
@@ -40,18 +128,91 @@ export class DynamicMcpServer extends EventEmitter {
   private server: Server;
   public toolService: ToolService;
   public promptService: PromptService;
+  public resourceService: ResourceService;
   private sessionInfo = new Map<string, SessionInfo>();
   private handlers: Map<string, HandlerFunction> = new Map();
+  private handlerPackages: Map<string, HandlerPackage> = new Map();
+  // Why a handler package's init() failed, reported by the readiness check
+  private handlerInitErrors: Map<string, string> = new Map();
+  private startedAt = Date.now();
+  // Set once stop() is called
+  private stopping?: Promise<void>;
   private httpServer?: HttpServer;
+  private stdioTransport?: StdioSessionTransport;
+  private transport: "http" | "stdio";
   private userRepository: UserRepository;
   public name: string;
   private handlersToOmit: Set<string> = new Set();
   private serverConfig: DynamicMcpServerConfig;
+  private sessionPolicy: SessionPolicyConfig;
+  private sessionStore: SessionStore;
+  private eventStoreFactory?: EventStoreFactory;
 
   constructor(serverConfig: DynamicMcpServerConfig) {
     super();
     this.serverConfig = serverConfig;
 
+    const transport = serverConfig.transport ?? config.server.transport;
+    if (transport !== "http" && transport !== "stdio") {
+      throw new Error(`Invalid transport '${transport}': use "http" or "stdio"`);
+    }
+    this.transport = transport;
+    if (this.transport === "stdio") {
+      // stdout carries the MCP protocol
+      logToStderr();
+    }
+    AuthService.configure(serverConfig.auth);
+
+    this.sessionPolicy = {
+      ...serverConfig.sessions,
+      maxSessionsPerUser:
+        serverConfig.sessions?.maxSessionsPerUser ??
+        parseSessionLimit(config.session.maxSessionsPerUser),
+      idleTimeoutMs:
+        serverConfig.sessions?.idleTimeoutMs ?? config.session.idleTimeoutMs,
+      maxAgeMs: serverConfig.sessions?.maxAgeMs ?? config.session.maxAgeMs,
+      eventRetentionMs:
+        serverConfig.sessions?.eventRetentionMs ??
+        config.session.eventRetentionMs,
+    };
+    // Fail fast on invalid limits
+    [
+      this.sessionPolicy.maxSessionsPerUser,
+      ...Object.values(this.sessionPolicy.roles || {}),
+    ]
+      .filter((limit) => limit !== undefined)
+      .forEach((limit) => toMaxSessions(limit!));
+
+    const store = serverConfig.sessions?.store ?? config.session.store;
+    if (typeof store === "object") {
+      this.sessionStore = store;
+    } else if (store === "mongo") {
+      this.sessionStore = new SessionRepository();
+    } else if (store === "memory") {
+      this.sessionStore = new InMemorySessionStore();
+    } else {
+      throw new Error(
+        `Invalid session store '${store}': use "memory", "mongo" or a SessionStore`,
+      );
+    }
+
+    const eventStore =
+      serverConfig.sessions?.eventStore ?? config.session.eventStore;
+    const eventRetentionMs = this.sessionPolicy.eventRetentionMs;
+    if (typeof eventStore === "function") {
+      this.eventStoreFactory = eventStore;
+    } else if (eventStore === "mongo") {
+      this.eventStoreFactory = (sessionId) =>
+        new StreamEventRepository(sessionId, eventRetentionMs);
+    } else if (eventStore === "memory") {
+      this.eventStoreFactory = () =>
+        new InMemoryEventStore({ retentionMs: eventRetentionMs });
+    } else if (eventStore !== "none") {
+      throw new Error(
+        `Invalid event store '${eventStore}': use "memory", "mongo", "none" or a factory`,
+      );
+    }
+
     const omitHandlers: string[] = config.server.omitHandlers || [];
     if (omitHandlers.length > 0) {
       if (omitHandlers.includes("native")) {
@@ -78,6 +239,15 @@ export class DynamicMcpServer extends EventEmitter {
     this.name = serverConfig.name;
     this.toolService = new ToolService(this.server, this, this.userRepository);
     this.promptService = new PromptService(this.server, this, this.userRepository);
+    this.resourceService = new ResourceService(
+      this.server,
+      this,
+      this.userRepository,
+    );
+    this.on("sessionClosed", ({ sessionId }: SessionClosedEvent) => {
+      this.resourceService.removeSubscriptions(sessionId);
+      this.toolService.abortSessionCalls(sessionId);
+    });
     // Handler registration moved to initializeHandlers() or start()
   }
 
@@ -102,9 +272,17 @@ export class DynamicMcpServer extends EventEmitter {
           `Removed ${deletedPrompts} orphaned prompts for omitted handler: ${handlerPackage.name}`,
         );
       }
+      const { deletedCount: deletedResources } =
+        await this.resourceService.deleteResourcesByCreator(handlerPackage.name);
+      if (deletedResources && deletedResources > 0) {
+        logger.info(
+          `Removed ${deletedResources} orphaned resources for omitted handler: ${handlerPackage.name}`,
+        );
+      }
       return;
     }
     this.handlers.set(handlerPackage.name, handlerPackage.handler);
+    this.handlerPackages.set(handlerPackage.name, handlerPackage);
     
     // Register tools in DB
     let toolNames: string[] = [];
@@ -128,13 +306,33 @@ export class DynamicMcpServer extends EventEmitter {
       }
     }
     
+    // Register resources and resource templates in DB
+    let resourceNames: string[] = [];
+    if (Array.isArray(handlerPackage.resources)) {
+      for (const resource of handlerPackage.resources) {
+        await this.resourceService.addResource(resource, handlerPackage.name);
+        resourceNames.push(resource.uri || resource.uriTemplate || resource.name);
+      }
+    }
+
     const toolList = toolNames.length > 0 ? ` (tools: ${toolNames.join(", ")})` : "";
     const promptList = promptNames.length > 0 ? ` (prompts: ${promptNames.join(", ")})` : "";
-    logger.info(`Registered handler for: ${handlerPackage.name}${toolList}${promptList}`);
+    const resourceList = resourceNames.length > 0 ? ` (resources: ${resourceNames.join(", ")})` : "";
+    logger.info(`Registered handler for: ${handlerPackage.name}${toolList}${promptList}${resourceList}`);
 
-    // If the handler has an init method, call it
+    // If the handler has an init method, call it. A failure marks the server
+    // not ready instead of stopping it, so the other handlers keep serving.
     if (handlerPackage.init) {
-      await handlerPackage.init();
+      try {
+        await handlerPackage.init();
+        this.handlerInitErrors.delete(handlerPackage.name);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error(
+          `[MCP] init() of handler ${handlerPackage.name} failed: ${message}`,
+        );
+        this.handlerInitErrors.set(handlerPackage.name, message);
+      }
     }
 
     // If the handler has auth routes, register them
@@ -178,10 +376,46 @@ export class DynamicMcpServer extends EventEmitter {
   }
 
   /**
-   * Remove auth info for a session
+   * The concurrent session policy applied when users open new sessions
+   */
+  public getSessionPolicy(): SessionPolicyConfig {
+    return this.sessionPolicy;
+  }
+
+  /**
+   * The store that keeps sessions across restarts and server instances
+   */
+  public getSessionStore(): SessionStore {
+    return this.sessionStore;
+  }
+
+  /**
+   * Event store for a session's streams, enabling Last-Event-ID replay.
+   * Undefined when resumability is disabled.
+   */
+  public createEventStore(sessionId: string): EventStore | undefined {
+    return this.eventStoreFactory?.(sessionId);
+  }
+
+  /**
+   * Remove auth info for a session and emit "sessionClosed" so that handler
+   * packages can free per-session resources
    */
-  public removeSessionInfo(sessionId: string): void {
+  public removeSessionInfo(
+    sessionId: string,
+    reason: SessionCloseReason = "closed",
+  ): void {
+    const sessionInfo = this.sessionInfo.get(sessionId);
+    if (!sessionInfo) {
+      return;
+    }
     this.sessionInfo.delete(sessionId);
+    const event: SessionClosedEvent = {
+      sessionId,
+      user: sessionInfo.user,
+      reason,
+    };
+    this.emit("sessionClosed", event);
   }
 
   /**
@@ -189,9 +423,10 @@ export class DynamicMcpServer extends EventEmitter {
    */
   async initialize(): Promise<void> {
     try {
-      // Initialize tool and prompt services
+      // Initialize tool, prompt and resource services
       await this.toolService.initialize();
       await this.promptService.initialize();
+      await this.resourceService.initialize();
     } catch (error) {
       logger.error("Failed to initialize MCP server:", error);
       throw error;
@@ -203,8 +438,14 @@ export class DynamicMcpServer extends EventEmitter {
    */
   async start(): Promise<void> {
     try {
+      startTracing({
+        ...config.tracing,
+        serviceVersion: this.serverConfig.version,
+      });
+
       // Connect to MongoDB
       await connectToDatabase();
+      this.handleShutdownSignals();
 
       // Admin user bootstrapping
       const adminEmail = process.env.MCP_ADMIN_EMAIL;
@@ -216,8 +457,15 @@ export class DynamicMcpServer extends EventEmitter {
             "The server cannot start without an admin user.",
         );
       }
+      // Move API keys stored by earlier versions into hashed, named keys
+      await UserRepository.migrateLegacyApiKeys(logger);
+
       // Ensure admin user exists
-      await UserRepository.ensureAdminUser(adminEmail, logger);
+      await UserRepository.ensureAdminUser(
+        adminEmail,
+        logger,
+        process.env.MCP_ADMIN_API_KEY,
+      );
 
       // --- Tool and Prompt reset ---
       const toolRepo = new ToolRepository();
@@ -232,8 +480,14 @@ export class DynamicMcpServer extends EventEmitter {
           await this.registerHandler(handlerPackage);
         }
       }
+      const upstreams = this.serverConfig.gateway?.upstreams ?? [];
+      if (upstreams.length > 0 && !this.handlers.has(GATEWAY_HANDLER)) {
+        await this.registerHandler(
+          createGatewayHandlerPackage(this, upstreams),
+        );
+      }
 
-      // Register the tools and prompts capabilities explicitly
+      // Register the tools, prompts and resources capabilities explicitly
       this.server.registerCapabilities({
         tools: {
           listChanged: true,
@@ -241,8 +495,28 @@ export class DynamicMcpServer extends EventEmitter {
         prompts: {
           listChanged: true,
         },
+        resources: {
+          subscribe: true,
+          listChanged: true,
+        },
       });
 
+      if (this.transport === "stdio") {
+        this.on("toolsChanged", () => {
+          this.notifyToolListChanged();
+        });
+        await this.initialize();
+        await this.startStdio(
+          this.serverConfig.stdio?.userEmail ||
+            config.server.stdioUserEmail ||
+            adminEmail,
+        );
+        logger.info(
+          `MCP server started on stdio: ${this.serverConfig.name} v${this.serverConfig.version}`,
+        );
+        return;
+      }
+
       // IMPORTANT: Pass the SDK Server instance and session manager to McpHttpServer
       this.httpServer = new HttpServer(this.server, this, config, logger);
 
@@ -268,22 +542,149 @@ export class DynamicMcpServer extends EventEmitter {
   }
 
   /**
-   * Stop the MCP server and clean up resources
+   * Serve a single session over stdin/stdout, bound to a fixed user. No API
+   * key is needed: whoever runs the process acts as that user.
+   */
+  private async startStdio(
+    userEmail: string,
+    transport = new StdioSessionTransport(),
+  ): Promise<void> {
+    const user = await this.userRepository.findByEmail(userEmail);
+    if (!user) {
+      throw new Error(
+        `[CONFIG ERROR] stdio transport user '${userEmail}' does not exist. ` +
+          "Set MCP_STDIO_USER_EMAIL to a registered user or leave it empty to use the admin user.",
+      );
+    }
+
+    const sessionServer = this.createSessionServer();
+    sessionServer.onclose = () => {
+      logger.info("[SESSION] stdio session closed");
+      this.stdioTransport = undefined;
+      this.removeSessionInfo(STDIO_SESSION_ID);
+    };
+
+    await this.setSessionInfo(STDIO_SESSION_ID, {
+      sessionId: STDIO_SESSION_ID,
+      user: { email: user.email },
+      token: "",
+      mcpServer: this,
+    });
+    this.stdioTransport = transport;
+    await sessionServer.connect(transport);
+    logger.info(`[SESSION] stdio session started for user: ${user.email}`);
+  }
+
+  /**
+   * Stop the MCP server: refuse new sessions, give in-flight tool calls up to
+   * shutdownTimeoutMs to finish, close the sessions, shut down handler
+   * packages and disconnect from MongoDB. Sessions stay in the session store
+   * so that clients can resume them on another instance.
    */
-  async stop(): Promise<void> {
+  async stop(
+    shutdownTimeoutMs: number = config.server.shutdownTimeoutMs,
+  ): Promise<void> {
+    if (!this.stopping) {
+      this.stopping = this.shutdown(shutdownTimeoutMs);
+    }
+    return this.stopping;
+  }
+
+  public isStopping(): boolean {
+    return this.stopping !== undefined;
+  }
+
+  private async shutdown(shutdownTimeoutMs: number): Promise<void> {
     try {
-      // TODO: Implement proper cleanup
       logger.info("Stopping MCP server...");
+      this.httpServer?.stopAcceptingSessions();
+
+      const aborted = await this.toolService.drainCalls(shutdownTimeoutMs);
+      if (aborted > 0) {
+        logger.warn(
+          `[MCP] Aborted ${aborted} tool call(s) still running after ${shutdownTimeoutMs}ms`,
+        );
+      }
+
+      await this.httpServer?.stop();
+      await this.stdioTransport?.close();
+
+      for (const handlerPackage of this.handlerPackages.values()) {
+        if (!handlerPackage.shutdown) {
+          continue;
+        }
+        try {
+          await withTimeout(
+            handlerPackage.shutdown(),
+            HANDLER_SHUTDOWN_TIMEOUT_MS,
+            `Shutdown of ${handlerPackage.name}`,
+          );
+        } catch (error) {
+          logger.error(
+            `[MCP] Failed to shut down handler ${handlerPackage.name}: ${error}`,
+          );
+        }
+      }
+
+      await stopTracing();
+      await disconnectFromDatabase();
+      logger.info("MCP server stopped");
     } catch (error) {
       logger.error("Failed to stop MCP server:", error);
       throw error;
     }
   }
 
+  /**
+   * Stop gracefully on SIGINT and SIGTERM, e.g. during a rolling deploy
+   */
+  private handleShutdownSignals(): void {
+    const onSignal = (signal: NodeJS.Signals) => {
+      logger.info(`Received ${signal}, shutting down`);
+      this.stop()
+        .then(() => process.exit(0))
+        .catch(() => process.exit(1));
+    };
+    process.once("SIGINT", onSignal);
+    process.once("SIGTERM", onSignal);
+  }
+
   public getServer(): Server {
     return this.server;
   }
 
+  /**
+   * Create an SDK server for a single session. Each transport needs its own
+   * server so that responses are routed back to the session that sent the
+   * request; all of them share this instance's tools, prompts and handlers.
+   */
+  public createSessionServer(): Server {
+    const sessionServer = new Server(
+      {
+        name: this.serverConfig.name,
+        version: this.serverConfig.version,
+      },
+      {
+        capabilities: {
+          tools: {
+            listChanged: true,
+          },
+          prompts: {
+            listChanged: true,
+          },
+          resources: {
+            subscribe: true,
+            listChanged: true,
+          },
+        },
+      },
+    );
+    this.toolService.registerRequestHandlers(sessionServer);
+    this.promptService.registerRequestHandlers(sessionServer);
+    this.resourceService.registerRequestHandlers(sessionServer);
+    return sessionServer;
+  }
+
   /**
    * Send a JSON-RPC notification to a specific session by sessionId
    */
@@ -291,13 +692,7 @@ export class DynamicMcpServer extends EventEmitter {
     sessionId: string,
     notification: { method: string; params?: any },
   ): Promise<void> {
-    if (!this.httpServer) {
-      logger.warn("No httpServer instance available for sending notifications");
-      return;
-    }
-    // @ts-ignore: access private transports property
-    const transports = this.httpServer.transports;
-    const transport = transports[sessionId];
+    const transport = this.getSessionTransport(sessionId);
     if (transport) {
       try {
         await transport.send({
@@ -308,6 +703,7 @@ export class DynamicMcpServer extends EventEmitter {
         logger.error(
           `[MCP] Failed to send notification to session ${sessionId}: ${error}`,
         );
+        notificationFailures.inc({ method: notification.method });
       }
       logger.debug(
         `[MCP] Sent notification to session ${sessionId}: ${notification.method}`,
@@ -319,74 +715,141 @@ export class DynamicMcpServer extends EventEmitter {
    * Notify all sessions, or only sessions for a given user email, of tool list changes
    */
   public async notifyToolListChanged(userEmail?: string): Promise<void> {
-    logger.debug(
-      `[MCP] notifyToolListChanged called for userEmail=${userEmail}`,
-    );
-    if (!this.httpServer) {
-      logger.warn("No httpServer instance available for sending notifications");
-      return;
-    }
-    // @ts-ignore: access private transports property
-    const transports = this.httpServer.transports;
-    if (userEmail) {
-      for (const [sessionId, sessionInfo] of this.sessionInfo.entries()) {
-        if (sessionInfo.user?.email === userEmail) {
-          logger.debug(
-            `[MCP] Notifying session ${sessionId} for user ${userEmail}`,
-          );
-          await this.sendNotificationToSession(sessionId, {
-            method: "notifications/tools/list_changed",
-            params: {},
-          });
-        }
-      }
-    } else {
-      for (const sessionId in transports) {
-        logger.debug(`[MCP] Notifying session ${sessionId} (all users)`);
-        await this.sendNotificationToSession(sessionId, {
-          method: "notifications/tools/list_changed",
-          params: {},
-        });
-      }
-    }
+    await this.notifyListChanged("tools", userEmail);
   }
 
   /**
    * Notify all sessions, or only sessions for a given user email, of prompt list changes
    */
   public async notifyPromptListChanged(userEmail?: string): Promise<void> {
+    await this.notifyListChanged("prompts", userEmail);
+  }
+
+  /**
+   * Notify all sessions, or only sessions for a given user email, of resource list changes
+   */
+  public async notifyResourceListChanged(userEmail?: string): Promise<void> {
+    await this.notifyListChanged("resources", userEmail);
+  }
+
+  /**
+   * Notify sessions subscribed to a resource that it has changed
+   */
+  public async notifyResourceUpdated(uri: string): Promise<void> {
+    await this.resourceService.notifyResourceUpdated(uri);
+  }
+
+  private async notifyListChanged(
+    list: "tools" | "prompts" | "resources",
+    userEmail?: string,
+  ): Promise<void> {
     logger.debug(
-      `[MCP] notifyPromptListChanged called for userEmail=${userEmail}`,
+      `[MCP] notify ${list} list changed called for userEmail=${userEmail}`,
     );
-    if (!this.httpServer) {
-      logger.warn("No httpServer instance available for sending notifications");
-      return;
-    }
-    // @ts-ignore: access private transports property
-    const transports = this.httpServer.transports;
+    const notification = {
+      method: `notifications/${list}/list_changed`,
+      params: {},
+    };
     if (userEmail) {
       for (const [sessionId, sessionInfo] of this.sessionInfo.entries()) {
         if (sessionInfo.user?.email === userEmail) {
           logger.debug(
             `[MCP] Notifying session ${sessionId} for user ${userEmail}`,
           );
-          await this.sendNotificationToSession(sessionId, {
-            method: "notifications/prompts/list_changed",
-            params: {},
-          });
+          await this.sendNotificationToSession(sessionId, notification);
         }
       }
     } else {
-      for (const sessionId in transports) {
+      for (const sessionId of this.getSessionIds()) {
         logger.debug(`[MCP] Notifying session ${sessionId} (all users)`);
-        await this.sendNotificationToSession(sessionId, {
-          method: "notifications/prompts/list_changed",
-          params: {},
-        });
+        await this.sendNotificationToSession(sessionId, notification);
       }
     }
   }
 
+  /**
+   * Transport of a live session, whether served over stdio or HTTP
+   */
+  private getSessionTransport(sessionId: string): Transport | undefined {
+    if (this.stdioTransport && sessionId === STDIO_SESSION_ID) {
+      return this.stdioTransport;
+    }
+    return this.httpServer?.getTransport(sessionId);
+  }
+
+  /**
+   * IDs of the live sessions served by this process
+   */
+  private getSessionIds(): string[] {
+    if (this.stdioTransport) {
+      return [STDIO_SESSION_ID];
+    }
+    return this.httpServer?.getSessionIds() ?? [];
+  }
+
+  /**
+   * Check MongoDB and every registered handler package
+   */
+  public async getHealth(): Promise<HealthReport> {
+    const [database, handlers] = await Promise.all([
+      withTimeout(
+        checkDatabaseConnection(),
+        HEALTH_CHECK_TIMEOUT_MS,
+        "MongoDB health check",
+      ).catch((error) => ({
+        status: "down" as const,
+        message: error instanceof Error ? error.message : String(error),
+      })),
+      Promise.all(
+        Array.from(this.handlerPackages.values()).map((handlerPackage) =>
+          this.checkHandlerHealth(handlerPackage),
+        ),
+      ),
+    ]);
+    const status =
+      database.status !== "ok"
+        ? "down"
+        : handlers.some((handler) => handler.status !== "ok")
+          ? "degraded"
+          : "ok";
+    return {
+      status,
+      version: this.serverConfig.version,
+      uptimeSeconds: Math.round((Date.now() - this.startedAt) / 1000),
+      database,
+      handlers,
+      sessions: { active: this.sessionInfo.size },
+    };
+  }
+
+  private async checkHandlerHealth(
+    handlerPackage: HandlerPackage,
+  ): Promise<HandlerHealth & { name: string }> {
+    const name = handlerPackage.name;
+    const initError = this.handlerInitErrors.get(name);
+    if (initError) {
+      return { name, status: "down", message: `init() failed: ${initError}` };
+    }
+    if (!handlerPackage.healthCheck) {
+      return { name, status: "ok" };
+    }
+    try {
+      const health = await withTimeout(
+        handlerPackage.healthCheck(),
+        HEALTH_CHECK_TIMEOUT_MS,
+        `Health check of ${name}`,
+      );
+      return { name, ...health };
+    } catch (error) {
+      logger.warn(`[MCP] Health check of handler ${name} failed: ${error}`);
+      return {
+        name,
+        status: "down",
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
   public getHttpServer(): HttpServer | undefined {
     return this.httpServer;
   }
@@ -0,0 +1,12 @@
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+
+/** Session ID of the single session served over stdio */
+export const STDIO_SESSION_ID = "stdio";
+
+/**
+ * The SDK's stdio transport has no session ID. Give it a fixed one so that
+ * request handlers can look up the session's SessionInfo.
+ */
+export class StdioSessionTransport extends StdioServerTransport {
+  sessionId = STDIO_SESSION_ID;
+}
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { Request, Response } from "express";
+import { ContentBlock } from "@modelcontextprotocol/sdk/types.js";
 import { DynamicMcpServer } from "./server.js";
 
 /**
@@ -13,8 +14,21 @@ export interface ToolOutput<T = any> {
   message?: string;
   /** Suggested next steps for the user */
   nextSteps?: string[];
+  /**
+   * Structured result for clients (MCP structuredContent). Defaults to
+   * `result` when the tool declares an outputSchema.
+   */
+  structuredContent?: Record<string, unknown>;
+  /**
+   * MCP content items (text, image, audio, resource, resource_link) sent to
+   * the client after the text rendering of result, message and nextSteps
+   */
+  content?: ToolContent[];
 }
 
+/** A content item a tool can return, as defined by MCP */
+export type ToolContent = ContentBlock;
+
 export interface ToolDefinition {
   name: string;
   description?: string;
@@ -23,6 +37,12 @@ export interface ToolDefinition {
     properties?: Record<string, unknown>;
     required?: string[];
   };
+  /** JSON Schema of the tool's structured result */
+  outputSchema?: {
+    type: "object";
+    properties?: Record<string, unknown>;
+    required?: string[];
+  };
   annotations?: {
     title?: string;
     readOnlyHint?: boolean;
@@ -39,6 +59,8 @@ export interface ToolDefinition {
   };
   rolesPermitted?: string[];
   alwaysVisible?: boolean;
+  /** Abort calls that run longer than this (milliseconds) */
+  timeoutMs?: number;
 }
 
 // Extended tool schema that includes annotations
@@ -53,6 +75,14 @@ export const ExtendedToolSchema = z
         required: z.optional(z.array(z.string())),
       })
       .passthrough(),
+    outputSchema: z
+      .object({
+        type: z.literal("object"),
+        properties: z.optional(z.record(z.unknown())),
+        required: z.optional(z.array(z.string())),
+      })
+      .passthrough()
+      .optional(),
     annotations: z
       .object({
         title: z.optional(z.string()),
@@ -134,11 +164,54 @@ export interface PromptOutput {
   }>;
 }
 
+/**
+ * Represents a resource (uri) or a family of resources (uriTemplate) that a
+ * handler serves through resources/read
+ */
+export interface ResourceDefinition {
+  /** URI of a single resource; set either uri or uriTemplate */
+  uri?: string;
+  /** RFC 6570 URI template, e.g. "docs://{space}/{page}" */
+  uriTemplate?: string;
+  /** Short identifier of the resource */
+  name: string;
+  /** Human-readable title */
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  /** Handler configuration used to read the resource */
+  handler: {
+    type: string;
+    config: {
+      [key: string]: any;
+    };
+  };
+  /** Roles permitted to use this resource */
+  rolesPermitted?: string[];
+}
+
+/**
+ * Represents the output format for resource handlers. The handler receives
+ * the requested uri and any URI template variables as its args.
+ */
+export interface ResourceOutput {
+  contents: Array<{
+    /** Defaults to the requested uri */
+    uri?: string;
+    mimeType?: string;
+    text?: string;
+    /** Base64-encoded binary content */
+    blob?: string;
+  }>;
+}
+
 export type HandlerFunction = (
   args: Record<string, any>,
   context: any,
   config: any,
   progress?: (progress: number, total?: number, message?: string) => void,
+  /** Aborted when the call is cancelled, its session closes or it times out */
+  signal?: AbortSignal,
 ) => Promise<any>;
 
 export interface AuthRoute {
@@ -151,8 +224,21 @@ export interface HandlerPackage {
   name: string;
   tools: ToolDefinition[];
   prompts?: PromptDefinition[];
+  resources?: ResourceDefinition[];
   handler: HandlerFunction;
   testScript?: string; // Path to a markdown test script or inline script
   authRoutes?: AuthRoute[];
   init?: () => Promise<void>;
+  /** Report the state of the package's upstream dependencies for /health/ready */
+  healthCheck?: () => Promise<HandlerHealth>;
+  /** Release connections and timers when the server stops */
+  shutdown?: () => Promise<void>;
+}
+
+/** Result of a handler package's health check */
+export interface HandlerHealth {
+  /** "degraded" or "down" make the server report itself not ready */
+  status: "ok" | "degraded" | "down";
+  message?: string;
+  details?: Record<string, unknown>;
 }
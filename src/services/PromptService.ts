@@ -12,12 +12,15 @@ import { DynamicMcpServer } from "../mcp/server.js";
 import { PromptDefinition, PromptOutput } from "../mcp/types.js";
 import { UserRepository } from "../db/repositories/UserRepository.js";
 import { PromptRepository } from "../db/repositories/PromptRepository.js";
+import { UsageStatRepository } from "../db/repositories/UsageStatRepository.js";
+import { promptRequestDuration, promptRequests } from "../utils/metrics.js";
 
 export class PromptService {
   private server: Server;
   private mcpServer: DynamicMcpServer;
   private userRepository: UserRepository;
   private promptRepository: PromptRepository;
+  private usageStats = new UsageStatRepository();
   private initialized: boolean = false;
 
   constructor(
@@ -39,8 +42,18 @@ export class PromptService {
       return;
     }
 
+    this.registerRequestHandlers(this.server);
+
+    this.initialized = true;
+    logger.info("PromptService initialized");
+  }
+
+  /**
+   * Register the prompts/list and prompts/get handlers on an SDK server
+   */
+  registerRequestHandlers(server: Server): void {
     // Register prompts/list handler
-    this.server.setRequestHandler(
+    server.setRequestHandler(
       ListPromptsRequestSchema,
       async (request: ListPromptsRequest, extra: RequestHandlerExtra<any, any>) => {
         try {
@@ -74,7 +87,7 @@ export class PromptService {
     );
 
     // Register prompts/get handler
-    this.server.setRequestHandler(
+    server.setRequestHandler(
       GetPromptRequestSchema,
       async (request: GetPromptRequest, extra: RequestHandlerExtra<any, any>) => {
         try {
@@ -107,13 +120,22 @@ export class PromptService {
             sessionInfo,
             user: sessionInfo.user,
             promptName,
+            prompt: { name: promptDef.name, creator: promptDef.createdBy },
           };
 
-          const result: PromptOutput = await handler(
-            request.params?.arguments || {},
-            context,
-            promptDef.handler.config,
-          );
+          const startTime = Date.now();
+          let result: PromptOutput;
+          try {
+            result = await handler(
+              request.params?.arguments || {},
+              context,
+              promptDef.handler.config,
+            );
+          } catch (error) {
+            this.recordUsage(promptDef, userEmail, startTime, true);
+            throw error;
+          }
+          this.recordUsage(promptDef, userEmail, startTime, false);
 
           // Convert to MCP GetPromptResult format
           const promptResult: GetPromptResult = {
@@ -129,9 +151,37 @@ export class PromptService {
         }
       },
     );
+  }
 
-    this.initialized = true;
-    logger.info("PromptService initialized");
+  /**
+   * Update the metrics and usage statistics of a prompt without delaying the
+   * response
+   */
+  private recordUsage(
+    prompt: { name: string; createdBy?: string },
+    userEmail: string,
+    startTime: number,
+    error: boolean,
+  ): void {
+    const promptName = prompt.name;
+    const durationMs = Date.now() - startTime;
+    promptRequests.inc({
+      prompt: promptName,
+      outcome: error ? "error" : "success",
+    });
+    promptRequestDuration.observe({ prompt: promptName }, durationMs / 1000);
+    this.usageStats
+      .recordUsage({
+        kind: "prompt",
+        name: promptName,
+        creator: prompt.createdBy,
+        userEmail,
+        durationMs,
+        error,
+      })
+      .catch((err) => {
+        logger.warn(`Failed to record usage of prompt '${promptName}': ${err}`);
+      });
   }
 
   /**
@@ -149,10 +199,14 @@ export class PromptService {
     }
   }
 
+  /**
+   * Delete the prompts of a creator, except those named in keepNames
+   */
   async deletePromptsByCreator(
     creator: string,
+    keepNames: string[] = [],
   ): Promise<{ deletedCount?: number }> {
-    return await this.promptRepository.deletePromptsByCreator(creator);
+    return await this.promptRepository.deletePromptsByCreator(creator, keepNames);
   }
 
   /**
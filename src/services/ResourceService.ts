@@ -0,0 +1,345 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import logger from "../utils/logger.js";
+import {
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ReadResourceResult,
+  McpError,
+} from "@modelcontextprotocol/sdk/types.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import { DynamicMcpServer, SessionInfo } from "../mcp/server.js";
+import { ResourceDefinition, ResourceOutput } from "../mcp/types.js";
+import { UserRepository } from "../db/repositories/UserRepository.js";
+import { ResourceRepository } from "../db/repositories/ResourceRepository.js";
+import { IResource } from "../db/models/Resource.js";
+import { isResourceInScope } from "../utils/apiKeys.js";
+
+// JSON-RPC error code for unknown resources, as defined by MCP
+const RESOURCE_NOT_FOUND = -32002;
+
+export class ResourceService {
+  private server: Server;
+  private mcpServer: DynamicMcpServer;
+  private userRepository: UserRepository;
+  private resourceRepository: ResourceRepository;
+  private initialized: boolean = false;
+  // Session IDs subscribed to updates, by resource uri
+  private subscriptions = new Map<string, Set<string>>();
+
+  constructor(
+    server: Server,
+    mcpServer: DynamicMcpServer,
+    userRepository: UserRepository,
+  ) {
+    this.server = server;
+    this.mcpServer = mcpServer;
+    this.userRepository = userRepository;
+    this.resourceRepository = new ResourceRepository();
+  }
+
+  /**
+   * Initialize the resource service by registering handlers
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    this.registerRequestHandlers(this.server);
+
+    this.initialized = true;
+    logger.info("ResourceService initialized");
+  }
+
+  /**
+   * Register the resources/* handlers on an SDK server
+   */
+  registerRequestHandlers(server: Server): void {
+    server.setRequestHandler(
+      ListResourcesRequestSchema,
+      async (request, extra: RequestHandlerExtra<any, any>) => {
+        const resources = await this.getResourcesForSession(extra.sessionId);
+        return {
+          resources: resources
+            .filter((resource) => resource.uri)
+            .map((resource) => ({
+              uri: resource.uri!,
+              name: resource.name,
+              title: resource.title,
+              description: resource.description,
+              mimeType: resource.mimeType,
+            })),
+        };
+      },
+    );
+
+    server.setRequestHandler(
+      ListResourceTemplatesRequestSchema,
+      async (request, extra: RequestHandlerExtra<any, any>) => {
+        const resources = await this.getResourcesForSession(extra.sessionId);
+        return {
+          resourceTemplates: resources
+            .filter((resource) => resource.uriTemplate)
+            .map((resource) => ({
+              uriTemplate: resource.uriTemplate!,
+              name: resource.name,
+              title: resource.title,
+              description: resource.description,
+              mimeType: resource.mimeType,
+            })),
+        };
+      },
+    );
+
+    server.setRequestHandler(
+      ReadResourceRequestSchema,
+      async (request, extra: RequestHandlerExtra<any, any>) => {
+        return this.readResource(request.params.uri, extra.sessionId);
+      },
+    );
+
+    server.setRequestHandler(
+      SubscribeRequestSchema,
+      async (request, extra: RequestHandlerExtra<any, any>) => {
+        const { uri } = request.params;
+        // Only resources the session can read may be subscribed to
+        await this.findResource(uri, extra.sessionId);
+        let sessionIds = this.subscriptions.get(uri);
+        if (!sessionIds) {
+          sessionIds = new Set();
+          this.subscriptions.set(uri, sessionIds);
+        }
+        sessionIds.add(extra.sessionId!);
+        logger.debug(`[RESOURCES] Session ${extra.sessionId} subscribed to ${uri}`);
+        return {};
+      },
+    );
+
+    server.setRequestHandler(
+      UnsubscribeRequestSchema,
+      async (request, extra: RequestHandlerExtra<any, any>) => {
+        this.unsubscribe(request.params.uri, extra.sessionId!);
+        return {};
+      },
+    );
+  }
+
+  /**
+   * Read a resource on behalf of a session by calling its handler
+   */
+  async readResource(
+    uri: string,
+    sessionId: string | undefined,
+  ): Promise<ReadResourceResult> {
+    const { resource, variables, sessionInfo } = await this.findResource(
+      uri,
+      sessionId,
+    );
+    const handler = this.mcpServer.getHandler(resource.handler.type);
+    if (!handler) {
+      throw new Error(`Handler '${resource.handler.type}' not found`);
+    }
+
+    const context = {
+      sessionInfo,
+      user: sessionInfo.user,
+      resourceUri: uri,
+    };
+    const output: ResourceOutput = await handler(
+      { ...variables, uri },
+      context,
+      resource.handler.config,
+    );
+
+    const contents = (output?.contents || []).map((content, index) => {
+      if (typeof content.text !== "string" && typeof content.blob !== "string") {
+        throw new Error(
+          `Resource handler '${resource.handler.type}' returned content without text or blob at index ${index}`,
+        );
+      }
+      return {
+        ...content,
+        uri: content.uri ?? uri,
+        mimeType: content.mimeType ?? resource.mimeType,
+      };
+    });
+    logger.info(`[RESOURCES] Read ${uri} for user ${sessionInfo.user?.email}`);
+    return { contents } as ReadResourceResult;
+  }
+
+  /**
+   * Add a resource or resource template to the database
+   */
+  async addResource(
+    resourceDef: ResourceDefinition,
+    creator: string,
+  ): Promise<void> {
+    if (!resourceDef.name) {
+      throw new Error("Resource definition missing required field: name");
+    }
+    if (!resourceDef.uri === !resourceDef.uriTemplate) {
+      throw new Error(
+        `Resource '${resourceDef.name}' must have exactly one of uri or uriTemplate`,
+      );
+    }
+    if (resourceDef.uriTemplate) {
+      // Throws on malformed templates
+      new UriTemplate(resourceDef.uriTemplate);
+    }
+    if (!resourceDef.handler) {
+      throw new Error(
+        `Resource '${resourceDef.name}' missing required field: handler`,
+      );
+    }
+    await this.resourceRepository.upsert({ ...resourceDef, creator });
+    await this.mcpServer.notifyResourceListChanged();
+  }
+
+  /**
+   * Remove a resource (by uri or uriTemplate) owned by a user
+   */
+  async removeResource(uri: string, userEmail: string): Promise<void> {
+    const deleted = await this.resourceRepository.deleteResource(
+      uri,
+      userEmail,
+    );
+    if (!deleted) {
+      throw new Error(`Resource '${uri}' not found or not owned by user`);
+    }
+    logger.info(`[RESOURCES] Removed resource '${uri}' for user ${userEmail}`);
+    await this.mcpServer.notifyResourceListChanged();
+  }
+
+  async deleteResourcesByCreator(
+    creator: string,
+  ): Promise<{ deletedCount?: number }> {
+    return await this.resourceRepository.deleteResourcesByCreator(creator);
+  }
+
+  /**
+   * Give a user access to a resource (by uri or uriTemplate). Only the
+   * resource's creator or an admin may share it.
+   */
+  async shareResource(
+    uri: string,
+    userEmail: string,
+    sharedBy: string,
+  ): Promise<void> {
+    await this.checkCanShare(uri, sharedBy);
+    const user = await this.userRepository.shareResource(userEmail, uri, sharedBy);
+    if (!user) {
+      throw new Error(`User '${userEmail}' not found`);
+    }
+    logger.info(`[RESOURCES] Shared resource '${uri}' with ${userEmail} by ${sharedBy}`);
+    await this.mcpServer.notifyResourceListChanged(userEmail);
+  }
+
+  /**
+   * Take back a user's access to a shared resource. Only the resource's
+   * creator or an admin may unshare it.
+   */
+  async unshareResource(
+    uri: string,
+    userEmail: string,
+    unsharedBy: string,
+  ): Promise<void> {
+    await this.checkCanShare(uri, unsharedBy);
+    const user = await this.userRepository.unshareResource(userEmail, uri);
+    if (!user) {
+      throw new Error(`User '${userEmail}' not found`);
+    }
+    logger.info(`[RESOURCES] Unshared resource '${uri}' from ${userEmail} by ${unsharedBy}`);
+    await this.mcpServer.notifyResourceListChanged(userEmail);
+  }
+
+  private async checkCanShare(uri: string, userEmail: string): Promise<void> {
+    const resource = await this.resourceRepository.findByUri(uri);
+    if (!resource) {
+      throw new Error(`Resource '${uri}' not found`);
+    }
+    if (resource.creator === userEmail) {
+      return;
+    }
+    const user = await this.userRepository.findByEmail(userEmail);
+    if (!user?.roles?.includes("admin")) {
+      throw new Error(
+        `Only the creator of resource '${uri}' or an admin can share it`,
+      );
+    }
+  }
+
+  /**
+   * Tell subscribed sessions that a resource has changed
+   */
+  async notifyResourceUpdated(uri: string): Promise<void> {
+    for (const sessionId of this.subscriptions.get(uri) || []) {
+      await this.mcpServer.sendNotificationToSession(sessionId, {
+        method: "notifications/resources/updated",
+        params: { uri },
+      });
+    }
+  }
+
+  unsubscribe(uri: string, sessionId: string): void {
+    const sessionIds = this.subscriptions.get(uri);
+    sessionIds?.delete(sessionId);
+    if (sessionIds?.size === 0) {
+      this.subscriptions.delete(uri);
+    }
+  }
+
+  /**
+   * Drop all subscriptions of a closed session
+   */
+  removeSubscriptions(sessionId: string): void {
+    for (const uri of [...this.subscriptions.keys()]) {
+      this.unsubscribe(uri, sessionId);
+    }
+  }
+
+  private async getResourcesForSession(
+    sessionId: string | undefined,
+    sessionInfo: SessionInfo = this.mcpServer.getSessionInfo(sessionId),
+  ): Promise<IResource[]> {
+    const userEmail = sessionInfo.user?.email;
+    const user = userEmail
+      ? await this.userRepository.findByEmail(userEmail)
+      : null;
+    if (!user) {
+      return [];
+    }
+    const resources = await this.resourceRepository.getResourcesForUser(user);
+    return resources.filter((resource) =>
+      isResourceInScope(sessionInfo.apiKeyScope, resource),
+    );
+  }
+
+  /**
+   * Find the resource or resource template serving a uri for a session.
+   * Throws a resource-not-found error if the session may not read it.
+   */
+  private async findResource(uri: string, sessionId: string | undefined) {
+    const sessionInfo = this.mcpServer.getSessionInfo(sessionId);
+    const resources = await this.getResourcesForSession(sessionId, sessionInfo);
+    const resource = resources.find((r) => r.uri === uri);
+    if (resource) {
+      return { resource, variables: {}, sessionInfo };
+    }
+    for (const template of resources.filter((r) => r.uriTemplate)) {
+      const variables = new UriTemplate(template.uriTemplate!).match(uri);
+      if (variables) {
+        return { resource: template, variables, sessionInfo };
+      }
+    }
+    logger.warn(
+      `[RESOURCES] Resource ${uri} not found or not authorized for user ${sessionInfo.user?.email}`,
+    );
+    throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, {
+      uri,
+    });
+  }
+}
@@ -3,47 +3,109 @@ import logger from "../utils/logger.js";
 import {
   ListToolsRequestSchema,
   CallToolRequestSchema,
+  TextContentSchema,
+  ImageContentSchema,
+  AudioContentSchema,
+  EmbeddedResourceSchema,
+  ResourceLinkSchema,
   ListToolsRequest,
   CallToolRequest,
 } from "@modelcontextprotocol/sdk/types.js";
+import { ZodTypeAny } from "zod";
 import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import { DynamicMcpServer } from "../mcp/server.js";
-import { ToolDefinition } from "../mcp/types.js";
+import { ToolContent, ToolDefinition } from "../mcp/types.js";
 import { UserRepository } from "../db/repositories/UserRepository.js";
 import { ToolRepository } from "../db/repositories/ToolRepository.js";
+import { AuditEventRepository } from "../db/repositories/AuditEventRepository.js";
+import {
+  UsageRecord,
+  UsageStatRepository,
+} from "../db/repositories/UsageStatRepository.js";
+import { AuditOutcome } from "../db/models/AuditEvent.js";
+import { isToolInScope } from "../utils/apiKeys.js";
+import { redactArguments } from "../utils/audit.js";
+import {
+  authorizationFailures,
+  toolCallDuration,
+  toolCalls,
+} from "../utils/metrics.js";
+import { withSpan } from "../utils/tracing.js";
+import { mapArguments } from "../utils/templates.js";
+import { validateHttpHandlerConfig } from "../handlers/httpHandler/request.js";
+import { compileScript } from "../handlers/scriptHandler/sandbox.js";
+import { validatePipelineConfig } from "../handlers/pipelineHandler/pipeline.js";
+import { ScriptStateRepository } from "../db/repositories/ScriptStateRepository.js";
+import {
+  loadOpenApiDocument,
+  OpenApiImportOptions,
+  openApiToTools,
+} from "../utils/openapi.js";
+import { context as otelContext } from "@opentelemetry/api";
+import {
+  validateToolArguments,
+  validateToolOutput,
+} from "../utils/toolSchemas.js";
 
 export interface HandlerOutput {
-  result: any;
+  /** Optional when the handler returns only content */
+  result?: any;
   message?: string;
   nextSteps?: string[];
+  structuredContent?: Record<string, unknown>;
+  content?: ToolContent[];
 }
 
-function mapArguments(
-  argMappings: any,
-  inputArgs: any,
-  context: any = {},
-): any {
-  if (typeof argMappings === "string") {
-    return argMappings.replace(/{{\s*([^}]+)\s*}}/g, (_, field) => {
-      return inputArgs[field] ?? context[field] ?? process.env[field] ?? "";
-    });
-  } else if (Array.isArray(argMappings)) {
-    return argMappings.map((item) => mapArguments(item, inputArgs, context));
-  } else if (typeof argMappings === "object" && argMappings !== null) {
-    const resolved: any = {};
-    for (const [key, value] of Object.entries(argMappings)) {
-      resolved[key] = mapArguments(value, inputArgs, context);
-    }
-    return resolved;
-  }
-  return argMappings;
+// Schemas of the MCP content items a handler may return, by type
+const contentSchemas: Record<string, ZodTypeAny> = {
+  text: TextContentSchema,
+  image: ImageContentSchema,
+  audio: AudioContentSchema,
+  resource: EmbeddedResourceSchema,
+  resource_link: ResourceLinkSchema,
+};
+
+// Checks of the handler.config of built-in no-code handlers, run before a tool is stored
+const HANDLER_CONFIG_VALIDATORS: Record<string, (config: any) => void> = {
+  http: validateHttpHandlerConfig,
+  script: (config) => compileScript(config?.code),
+  pipeline: validatePipelineConfig,
+};
+
+/** Who called a tool and how, as recorded in the audit log */
+interface ToolCallInfo {
+  /** Name the tool was called by */
+  name: string;
+  userEmail: string;
+  args?: Record<string, unknown>;
+  sessionId?: string;
+  clientName?: string;
+  clientVersion?: string;
+  /** namespacedName of the pipeline tool that called it as a step */
+  pipeline?: string;
 }
 
+/** The tool a call resolved to */
+type RecordedTool = {
+  name: string;
+  creator?: string;
+  handler?: { type: string };
+};
+
+/** Thrown when the user or API key may not call a tool; audited as "denied" */
+class ToolAccessError extends Error {}
+
 export class ToolService {
   private server: Server;
   private mcpServer: DynamicMcpServer;
   private userRepository: UserRepository;
   private initialized: boolean = false;
+  // Abort controllers of in-flight tool calls, by session
+  private activeCalls = new Map<string, Set<AbortController>>();
+  // Resolved once no tool calls are in flight
+  private drainWaiters: (() => void)[] = [];
+  private auditEvents = new AuditEventRepository();
+  private usageStats = new UsageStatRepository();
 
   constructor(
     server: Server,
@@ -61,131 +123,290 @@ export class ToolService {
     }
 
     try {
-      this.server.setRequestHandler(
-        ListToolsRequestSchema,
-        async (
-          request: ListToolsRequest,
-          extra: RequestHandlerExtra<any, any>,
-        ) => {
-          const context = this.mcpServer.getSessionInfo(extra.sessionId);
-          const userEmail = context.user?.email;
-          if (!userEmail) {
-            return { tools: [], total: 0 };
-          }
-          const tools = await this.userRepository.getUserTools(userEmail);
-          // Only return tools that are not hidden (unless alwaysVisible)
-          const visibleTools = tools.filter((t: any) => !t.hidden);
-          return {
-            tools: visibleTools,
-            total: visibleTools.length,
-          };
-        },
-      );
+      this.registerRequestHandlers(this.server);
+
+      this.initialized = true;
+      logger.info("[TOOLSERVICE] Tool generator initialized");
+    } catch (error) {
+      logger.error(`[TOOLSERVICE] Failed to initialize tool generator: ${error}`);
+      throw error;
+    }
+  }
 
-      this.server.setRequestHandler(
-        CallToolRequestSchema,
-        async (
-          request: CallToolRequest,
-          extra: RequestHandlerExtra<any, any>,
-        ) => {
-          const context = this.mcpServer.getSessionInfo(extra.sessionId);
-          const userEmail = context.user?.email;
-          const { name, arguments: args } = request.params;
+  /**
+   * Register the tools/list and tools/call handlers on an SDK server.
+   * Used for the shared server and for each per-session server.
+   */
+  public registerRequestHandlers(server: Server): void {
+    server.setRequestHandler(
+      ListToolsRequestSchema,
+      async (
+        request: ListToolsRequest,
+        extra: RequestHandlerExtra<any, any>,
+      ) => {
+        const context = this.mcpServer.getSessionInfo(extra.sessionId);
+        const userEmail = context.user?.email;
+        if (!userEmail) {
+          return { tools: [], total: 0 };
+        }
+        const tools = await this.userRepository.getUserTools(userEmail);
+        // Only return tools that are not hidden (unless alwaysVisible)
+        // and that the session's API key is scoped to
+        const visibleTools = tools.filter(
+          (t: any) => !t.hidden && isToolInScope(context.apiKeyScope, t),
+        );
+        return {
+          tools: visibleTools,
+          total: visibleTools.length,
+        };
+      },
+    );
 
-          logger.info(
-            `[TOOLSERVICE] Tool execution requested: ${name} by user: ${
-              userEmail || "unknown"
-            }, session: ${extra.sessionId}`,
+    server.setRequestHandler(
+      CallToolRequestSchema,
+      async (
+        request: CallToolRequest,
+        extra: RequestHandlerExtra<any, any>,
+      ) => {
+        const context = this.mcpServer.getSessionInfo(extra.sessionId);
+        const userEmail = context.user?.email;
+        const { name, arguments: args } = request.params;
+
+        logger.info(
+          `[TOOLSERVICE] Tool execution requested: ${name} by user: ${
+            userEmail || "unknown"
+          }, session: ${extra.sessionId}`,
+        );
+        logger.debug(`Tool execution args:`, {
+          toolName: name,
+          args,
+          sessionId: extra.sessionId,
+        });
+
+        if (!userEmail) {
+          logger.warn(
+            `[TOOLSERVICE] Tool execution failed: No user email in session for tool ${name}`,
           );
-          logger.debug(`Tool execution args:`, {
-            toolName: name,
-            args,
-            sessionId: extra.sessionId,
-          });
+          return this.createErrorResponse("No user email in session.");
+        }
+        const client = server.getClientVersion();
+        const call: ToolCallInfo = {
+          name,
+          userEmail,
+          args,
+          sessionId: extra.sessionId,
+          clientName: client?.name,
+          clientVersion: client?.version,
+        };
+        const recordCall = (
+          outcome: AuditOutcome,
+          durationMs: number,
+          tool?: RecordedTool,
+          error?: unknown,
+        ) => this.recordCall(call, outcome, durationMs, tool, error);
 
-          if (!userEmail) {
-            logger.warn(
-              `[TOOLSERVICE] Tool execution failed: No user email in session for tool ${name}`,
-            );
-            return this.createErrorResponse("No user email in session.");
-          }
-          const tools = await this.userRepository.getUserTools(userEmail);
-          const tool = tools.find((t) => t.name === name);
-          if (!tool) {
-            logger.warn(
-              `[TOOLSERVICE] Tool execution failed: Tool ${name} not found or not authorized for user ${userEmail}`,
-            );
-            return this.createErrorResponse(
-              `Tool ${name} not found or not authorized for user.`,
-            );
-          }
-
-          logger.debug(
-            `Tool found: ${name}, handler type: ${tool.handler?.type}, creator: ${tool.creator}`,
+        const tools = await this.userRepository.getUserTools(userEmail);
+        const tool = tools.find((t) => t.name === name);
+        if (!tool) {
+          logger.warn(
+            `[TOOLSERVICE] Tool execution failed: Tool ${name} not found or not authorized for user ${userEmail}`,
+          );
+          authorizationFailures.inc({ reason: "tool_not_found" });
+          recordCall("denied", 0, undefined, "not found or not authorized");
+          return this.createErrorResponse(
+            `Tool ${name} not found or not authorized for user.`,
           );
+        }
+
+        logger.debug(
+          `Tool found: ${name}, handler type: ${tool.handler?.type}, creator: ${tool.creator}`,
+        );
+
+        const progressToken = request.params._meta?.progressToken;
+        const progressFn = this.createProgressFunction(
+          extra.sessionId,
+          progressToken,
+        );
 
-          const progressToken = request.params._meta?.progressToken;
-          const progressFn = this.createProgressFunction(
-            extra.sessionId,
-            progressToken,
+        // Aborted when the client cancels the request or the session closes
+        const controller = this.trackCall(extra.sessionId, extra.signal);
+
+        const startTime = Date.now();
+        try {
+          const result = await withSpan(
+            `tools/call ${name}`,
+            {
+              "mcp.tool.name": name,
+              "mcp.session.id": extra.sessionId ?? "",
+              "enduser.id": userEmail,
+            },
+            () =>
+              this.executeTool(
+                tool,
+                args,
+                context,
+                progressFn,
+                controller.signal,
+              ),
+          );
+
+          const executionTime = Date.now() - startTime;
+          logger.info(
+            `[TOOLSERVICE] Tool execution completed: ${name} in ${executionTime}ms, session: ${extra.sessionId}`,
           );
+          logger.debug(`Tool execution result:`, {
+            toolName: name,
+            result,
+            executionTime,
+          });
 
-          const startTime = Date.now();
-          try {
-            const result = await this.executeTool(
-              tool,
-              args,
-              context,
-              progressFn,
-            );
-
-            const executionTime = Date.now() - startTime;
-            logger.info(
-              `[TOOLSERVICE] Tool execution completed: ${name} in ${executionTime}ms, session: ${extra.sessionId}`,
-            );
-            logger.debug(`Tool execution result:`, {
+          // A result that cannot be formatted is recorded as an error below
+          const output = this.formatToolOutput(result);
+          recordCall("success", executionTime, tool);
+          return output;
+        } catch (error) {
+          const executionTime = Date.now() - startTime;
+          logger.error(
+            `[TOOLSERVICE] Tool execution failed: ${name} after ${executionTime}ms`,
+            {
+              error: error instanceof Error ? error.message : String(error),
               toolName: name,
-              result,
+              userEmail,
               executionTime,
-            });
+            },
+          );
+          recordCall(
+            error instanceof ToolAccessError ? "denied" : "error",
+            executionTime,
+            tool,
+            error,
+          );
+          return this.createErrorResponse(error);
+        } finally {
+          this.untrackCall(extra.sessionId, controller);
+        }
+      },
+    );
+  }
 
-            return this.formatToolOutput(result);
-          } catch (error) {
-            const executionTime = Date.now() - startTime;
-            logger.error(
-              `[TOOLSERVICE] Tool execution failed: ${name} after ${executionTime}ms`,
-              {
-                error: error instanceof Error ? error.message : String(error),
-                toolName: name,
-                userEmail,
-                executionTime,
-              },
-            );
-            return this.createErrorResponse(error);
-          }
-        },
+  /**
+   * Abort the in-flight tool calls of a session, e.g. when it closes
+   */
+  public abortSessionCalls(sessionId: string, reason = "the session was closed"): void {
+    const controllers = this.activeCalls.get(sessionId);
+    if (!controllers) {
+      return;
+    }
+    logger.info(
+      `[TOOLSERVICE] Aborting ${controllers.size} tool call(s) for session ${sessionId}: ${reason}`,
+    );
+    controllers.forEach((controller) => controller.abort(reason));
+    this.activeCalls.delete(sessionId);
+  }
+
+  /**
+   * Wait up to timeoutMs for in-flight tool calls to finish, then abort the
+   * rest. Resolves with the number of calls aborted.
+   */
+  public async drainCalls(
+    timeoutMs: number,
+    reason = "the server is shutting down",
+  ): Promise<number> {
+    if (this.activeCalls.size > 0) {
+      logger.info(
+        `[TOOLSERVICE] Waiting up to ${timeoutMs}ms for ${this.countActiveCalls()} tool call(s) to finish`,
       );
+      let timer: NodeJS.Timeout | undefined;
+      await Promise.race([
+        new Promise<void>((resolve) => this.drainWaiters.push(resolve)),
+        new Promise<void>((resolve) => {
+          timer = setTimeout(resolve, timeoutMs);
+        }),
+      ]);
+      clearTimeout(timer);
+    }
+    const aborted = this.countActiveCalls();
+    for (const sessionId of Array.from(this.activeCalls.keys())) {
+      this.abortSessionCalls(sessionId, reason);
+    }
+    return aborted;
+  }
 
-      this.initialized = true;
-      logger.info("[TOOLSERVICE] Tool generator initialized");
-    } catch (error) {
-      logger.error(`[TOOLSERVICE] Failed to initialize tool generator: ${error}`);
-      throw error;
+  private countActiveCalls(): number {
+    let count = 0;
+    this.activeCalls.forEach((controllers) => (count += controllers.size));
+    return count;
+  }
+
+  private trackCall(
+    sessionId: string | undefined,
+    requestSignal: AbortSignal,
+  ): AbortController {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(requestSignal.reason);
+    if (requestSignal.aborted) {
+      onAbort();
+    } else {
+      requestSignal.addEventListener("abort", onAbort, { once: true });
+    }
+    // Calls outside a session are tracked too, so shutdown can drain them
+    const key = sessionId ?? "";
+    if (!this.activeCalls.has(key)) {
+      this.activeCalls.set(key, new Set());
+    }
+    this.activeCalls.get(key)!.add(controller);
+    return controller;
+  }
+
+  private untrackCall(sessionId: string | undefined, controller: AbortController): void {
+    const key = sessionId ?? "";
+    const controllers = this.activeCalls.get(key);
+    controllers?.delete(controller);
+    if (controllers?.size === 0) {
+      this.activeCalls.delete(key);
+    }
+    if (this.activeCalls.size === 0) {
+      this.drainWaiters.splice(0).forEach((resolve) => resolve());
     }
   }
 
   private formatToolOutput(toolOutput: HandlerOutput): any {
+    const { result, message, nextSteps } = toolOutput;
+    const content: ToolContent[] = [];
+    // Handlers returning only content items don't get an empty text block
+    if (
+      !toolOutput.content ||
+      result !== undefined ||
+      message !== undefined ||
+      nextSteps !== undefined
+    ) {
+      content.push({
+        type: "text",
+        text: JSON.stringify({ result, message, nextSteps }),
+      });
+    }
+    (toolOutput.content || []).forEach((item, index) => {
+      const schema = contentSchemas[(item as any)?.type];
+      if (!schema) {
+        throw new Error(
+          `Tool returned invalid content at index ${index}: unknown type '${(item as any)?.type}' (expected one of ${Object.keys(contentSchemas).join(", ")})`,
+        );
+      }
+      const parsed = schema.safeParse(item);
+      if (!parsed.success) {
+        throw new Error(
+          `Tool returned invalid content at index ${index}: ${parsed.error.issues
+            .map((issue) => `${issue.path.join(".") || "item"}: ${issue.message}`)
+            .join("; ")}`,
+        );
+      }
+      content.push(item);
+    });
     return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify({
-            result: toolOutput.result,
-            message: toolOutput.message,
-            nextSteps: toolOutput.nextSteps,
-          }),
-        },
-      ],
+      content,
+      ...(toolOutput.structuredContent !== undefined
+        ? { structuredContent: toolOutput.structuredContent }
+        : {}),
     };
   }
 
@@ -215,6 +436,18 @@ export class ToolService {
     toolDef: ToolDefinition,
     creator?: string,
   ): Promise<void> {
+    this.validateToolDefinition(toolDef);
+    // rolesPermitted may be missing or empty for internal/hidden tools
+    const toolCreator = creator || this.mcpServer.name;
+    const toolRepo = new ToolRepository();
+    await toolRepo.upsertMany([{ ...toolDef, creator: toolCreator }]);
+  }
+
+  /**
+   * Check a tool definition before it is stored, including the handler.config
+   * of the built-in no-code handlers
+   */
+  private validateToolDefinition(toolDef: ToolDefinition): void {
     if (!toolDef.name) {
       throw new Error("Tool definition missing required field: name");
     }
@@ -229,17 +462,66 @@ export class ToolService {
         `Tool '${toolDef.name}' missing required field: inputSchema`,
       );
     }
-    // rolesPermitted may be missing or empty for internal/hidden tools
-    const toolCreator = creator || this.mcpServer.name;
-    const toolRepo = new ToolRepository();
-    await toolRepo.upsertMany([{ ...toolDef, creator: toolCreator }]);
+    if (toolDef.outputSchema && toolDef.outputSchema.type !== "object") {
+      throw new Error(
+        `Tool '${toolDef.name}' outputSchema must be a JSON Schema of type "object"`,
+      );
+    }
+    const validateConfig = HANDLER_CONFIG_VALIDATORS[toolDef.handler.type];
+    if (validateConfig) {
+      try {
+        validateConfig(toolDef.handler.config);
+      } catch (error) {
+        throw new Error(
+          `Tool '${toolDef.name}': ${error instanceof Error ? error.message : error}`,
+        );
+      }
+    }
   }
 
+  /**
+   * Generate tools from the operations of an OpenAPI 3 document, read from a
+   * file or pasted text, and store them under the creator. With dryRun the
+   * tools are only returned.
+   */
+  public async importOpenApiTools(
+    source: { path?: string; document?: string },
+    options: OpenApiImportOptions,
+    creator: string,
+    dryRun = false,
+  ): Promise<ToolDefinition[]> {
+    if (options.auth && !(await this.isTrustedCreator(creator))) {
+      throw new Error(
+        "Only administrators can import tools that send stored credentials (auth)",
+      );
+    }
+    const doc = await loadOpenApiDocument(source);
+    const tools = openApiToTools(doc, options);
+    if (tools.length === 0) {
+      throw new Error(
+        "No operations in the OpenAPI document match the selected operations and tags",
+      );
+    }
+    if (!dryRun) {
+      for (const tool of tools) {
+        await this.addTool(tool, creator);
+      }
+      logger.info(
+        `[TOOLSERVICE] Imported ${tools.length} tool(s) from OpenAPI document '${doc.info?.title ?? "untitled"}' for ${creator}`,
+      );
+    }
+    return tools;
+  }
+
+  /**
+   * Delete the tools of a creator, except those named in keepNames
+   */
   public async deleteToolsByCreator(
     creator: string,
+    keepNames: string[] = [],
   ): Promise<{ deletedCount?: number }> {
     const toolRepo = new ToolRepository();
-    return await toolRepo.deleteToolsByCreator(creator);
+    return await toolRepo.deleteToolsByCreator(creator, keepNames);
   }
 
   public async executeTool(
@@ -247,6 +529,7 @@ export class ToolService {
     args: any,
     context: any,
     progress?: (progress: number, total?: number, message?: string) => void,
+    signal?: AbortSignal,
   ) {
     const toolName = toolDef?.name || "unknown";
     logger.debug(`executeTool called for: ${toolName}`);
@@ -275,24 +558,48 @@ export class ToolService {
     }
 
     // Resolve the actual tool to execute (handle conflicts)
-    const actualTool = await this.resolveToolForExecution(
-      toolDef.name,
-      userEmail,
+    const actualTool = await withSpan(
+      "tool.resolve",
+      { "mcp.tool.name": toolDef.name },
+      () => this.resolveToolForExecution(toolDef.name, userEmail),
     );
     logger.debug(
       `Resolved tool: ${actualTool.name} (creator: ${actualTool.creator})`,
     );
 
+    if (!isToolInScope(context.apiKeyScope, actualTool)) {
+      logger.warn(
+        `Tool ${actualTool.name} is outside the API key scope for user ${userEmail}`,
+      );
+      this.auditLog(
+        "authorization_failed",
+        userEmail,
+        actualTool.name,
+        "out_of_scope",
+      );
+      throw new ToolAccessError(
+        `Tool ${actualTool.name} is not permitted by the scope of the API key used for this session.`,
+      );
+    }
+
     logger.debug(
       `Authorizing tool call: ${actualTool.name} for user: ${userEmail}`,
     );
     // Explicit authorization check using the resolved tool
-    const authResult = await this.authorizeToolCall(userEmail, actualTool.name);
+    const authResult = await withSpan(
+      "tool.authorize",
+      { "mcp.tool.name": actualTool.name },
+      async (span) => {
+        const result = await this.authorizeToolCall(userEmail, actualTool.name);
+        span.setAttribute("mcp.authorized", result.authorized);
+        return result;
+      },
+    );
     if (!authResult.authorized) {
       logger.warn(
         `Authorization failed for tool ${actualTool.name} and user ${userEmail}: ${authResult.error}`,
       );
-      throw new Error(
+      throw new ToolAccessError(
         authResult.error ||
           `User is not authorized to execute tool: ${actualTool.name}`,
       );
@@ -310,28 +617,203 @@ export class ToolService {
     }
     logger.debug(`Handler found for type: ${handlerType}`);
 
+    // Reject bad input before it reaches the handler, filling in defaults
+    args = validateToolArguments(actualTool.name, actualTool.inputSchema, args);
+
     const argMappings = actualTool.handler.config?.argMappings || {};
     logger.debug(`Mapping arguments for tool ${actualTool.name}`, {
       argMappings,
       originalArgs: args,
     });
-    const mappedArguments = mapArguments(argMappings, args, context);
+    // Templates written by users must not read the server's environment or
+    // the session, e.g. its token
+    const trusted = await this.isTrustedCreator(actualTool.creator);
+    const mappedArguments = trusted
+      ? mapArguments(argMappings, args, context)
+      : mapArguments(
+          argMappings,
+          args,
+          {
+            user: {
+              email: userEmail,
+              name: context.user?.name,
+              roles: context.user?.roles ?? [],
+            },
+          },
+          { env: false },
+        );
     const mergedArgs = { ...mappedArguments, ...args };
     logger.debug(`Arguments prepared for tool execution`, { mergedArgs });
 
-    // Always pass four arguments: args, context, config, progress
-    const result = await handlerInstance(
-      mergedArgs,
-      context,
-      actualTool.handler.config,
-      progress,
+    // Always pass five arguments: args, context, config, progress, signal.
+    // The context carries the resolved tool and the handler span, so packages
+    // can key data by tool and add child spans.
+    const result = await withSpan(
+      `tool.handler ${actualTool.name}`,
+      { "mcp.tool.name": actualTool.name, "mcp.handler.type": handlerType },
+      () =>
+        this.runWithAbort(
+          actualTool.name,
+          actualTool.timeoutMs,
+          signal,
+          (handlerSignal) =>
+            handlerInstance(
+              mergedArgs,
+              {
+                ...context,
+                tool: { name: actualTool.name, creator: actualTool.creator, trusted },
+                traceContext: otelContext.active(),
+              },
+              actualTool.handler.config,
+              progress,
+              handlerSignal,
+            ),
+        ),
     );
     logger.debug(`Handler execution completed for tool: ${actualTool.name}`, {
       result,
     });
+
+    // Tools with an outputSchema must return a conforming structured result
+    if (actualTool.outputSchema) {
+      const output = result && typeof result === "object" ? result : { result };
+      output.structuredContent = validateToolOutput(
+        actualTool.name,
+        actualTool.outputSchema,
+        output.structuredContent ?? output.result,
+      );
+      return output;
+    }
     return result;
   }
 
+  /**
+   * Whether a tool's templates may use environment variables and the whole
+   * context, and its http requests the caller's stored credentials: built-in
+   * tools, created by "system" or a handler package, and tools created by an
+   * admin
+   */
+  private async isTrustedCreator(creator: string | undefined): Promise<boolean> {
+    if (!creator) {
+      return false;
+    }
+    if (this.isBuiltInCreator(creator)) {
+      return true;
+    }
+    const user = await this.userRepository.findByEmail(creator);
+    return !!user?.roles?.includes("admin");
+  }
+
+  /**
+   * Whether a tool comes with the server: created by "system" or a handler
+   * package
+   */
+  private isBuiltInCreator(creator: string | undefined): boolean {
+    return (
+      creator === "system" || (!!creator && !!this.mcpServer.getHandler(creator))
+    );
+  }
+
+  /**
+   * Run a tool as a step of the pipeline tool in context.tool. The step is
+   * recorded in the metrics, usage statistics and audit log like a call
+   * from the client.
+   */
+  public async executePipelineStep(
+    tool: RecordedTool & { handler: { type: string; config?: any } },
+    args: any,
+    context: any,
+    signal?: AbortSignal,
+  ) {
+    const name = `${tool.creator}:${tool.name}`;
+    const call: ToolCallInfo = {
+      name,
+      userEmail: context.user?.email,
+      args,
+      sessionId: context.sessionId,
+      pipeline: context.tool
+        ? `${context.tool.creator}:${context.tool.name}`
+        : undefined,
+    };
+    const startTime = Date.now();
+    try {
+      const result = await this.executeTool(
+        { name, handler: tool.handler },
+        args,
+        context,
+        undefined,
+        signal,
+      );
+      this.recordCall(call, "success", Date.now() - startTime, tool);
+      return result;
+    } catch (error) {
+      this.recordCall(
+        call,
+        error instanceof ToolAccessError ? "denied" : "error",
+        Date.now() - startTime,
+        tool,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Run a handler with a signal that aborts when the caller's signal does or
+   * the tool's timeout expires. The call fails as soon as the signal aborts,
+   * even if the handler ignores it.
+   */
+  private async runWithAbort(
+    toolName: string,
+    timeoutMs: number | undefined,
+    signal: AbortSignal | undefined,
+    run: (signal: AbortSignal) => any,
+  ): Promise<any> {
+    const controller = new AbortController();
+    const onAbort = () =>
+      controller.abort(
+        new Error(
+          `Tool '${toolName}' was cancelled${
+            signal?.reason ? `: ${signal.reason}` : ""
+          }`,
+        ),
+      );
+    if (signal?.aborted) {
+      onAbort();
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const timer = timeoutMs
+      ? setTimeout(() => {
+          logger.warn(`[TOOLSERVICE] Tool ${toolName} timed out after ${timeoutMs}ms`);
+          controller.abort(
+            new Error(
+              `Tool '${toolName}' timed out after ${timeoutMs}ms and was aborted. Try again with a smaller request, or ask the administrator to raise its timeoutMs.`,
+            ),
+          );
+        }, timeoutMs)
+      : undefined;
+
+    try {
+      return await new Promise((resolve, reject) => {
+        if (controller.signal.aborted) {
+          reject(controller.signal.reason);
+          return;
+        }
+        controller.signal.addEventListener(
+          "abort",
+          () => reject(controller.signal.reason),
+          { once: true },
+        );
+        Promise.resolve()
+          .then(() => run(controller.signal))
+          .then(resolve, reject);
+      });
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
   private async resolveToolForExecution(
     toolName: string,
     userEmail: string,
@@ -342,8 +824,17 @@ export class ToolService {
     const tools = await this.userRepository.getUserTools(userEmail);
     logger.debug(`User has access to ${tools.length} tools total`);
 
-    // Find tools matching the simple name
-    const matchingTools = tools.filter((t: any) => t.name === toolName);
+    // Find tools matching the simple name, or the one creator's tool for a
+    // namespaced name such as "user-management:list-users"
+    const separator = toolName.lastIndexOf(":");
+    const matchingTools =
+      separator === -1
+        ? tools.filter((t: any) => t.name === toolName)
+        : tools.filter(
+            (t: any) =>
+              t.creator === toolName.slice(0, separator) &&
+              t.name === toolName.slice(separator + 1),
+          );
     logger.debug(
       `Found ${matchingTools.length} tools matching name: ${toolName}`,
       {
@@ -437,6 +928,14 @@ export class ToolService {
       tool.creator,
       tool.rolesPermitted,
     );
+
+    // A script's per-user state would otherwise be inherited by a new tool
+    // of the same name
+    if (tool.handler?.type === "script") {
+      await new ScriptStateRepository().deleteTool(
+        `${tool.creator}:${tool.name}`,
+      );
+    }
   }
 
   private async authorizeToolCall(
@@ -493,6 +992,86 @@ export class ToolService {
     return { authorized: true };
   }
 
+  /**
+   * Record the outcome of a tool call in the metrics, the usage statistics
+   * and the audit log
+   */
+  private recordCall(
+    call: ToolCallInfo,
+    outcome: AuditOutcome,
+    durationMs: number,
+    tool?: RecordedTool,
+    error?: unknown,
+  ): void {
+    const handler = tool?.handler?.type ?? "unknown";
+    // Names of tools that did not resolve come from the client, and names of
+    // user-authored tools from their creators; either would add a label value
+    // per name
+    const label = !tool
+      ? "unknown"
+      : this.isBuiltInCreator(tool.creator)
+        ? call.name
+        : "user";
+    toolCalls.inc({ tool: label, handler, outcome });
+    if (outcome !== "denied") {
+      toolCallDuration.observe({ tool: label, handler }, durationMs / 1000);
+    }
+    if (tool && outcome !== "denied") {
+      this.recordUsage({
+        kind: "tool",
+        name: tool.name,
+        creator: tool.creator,
+        userEmail: call.userEmail,
+        durationMs,
+        error: outcome === "error",
+      });
+    }
+    this.recordToolCall({
+      timestamp: new Date(),
+      userEmail: call.userEmail,
+      tool: call.name,
+      handler: tool?.handler?.type,
+      sessionId: call.sessionId,
+      clientName: call.clientName,
+      clientVersion: call.clientVersion,
+      pipeline: call.pipeline,
+      arguments: redactArguments(call.args ?? {}),
+      outcome,
+      durationMs,
+      ...(error !== undefined
+        ? { error: error instanceof Error ? error.message : String(error) }
+        : {}),
+    });
+  }
+
+  /**
+   * Persist a tool call to the audit log without delaying the response
+   */
+  private recordToolCall(
+    event: Parameters<AuditEventRepository["record"]>[0],
+  ): void {
+    this.auditEvents.record(event).catch((error) => {
+      logger.warn(
+        `[AUDIT] Failed to record call of ${event.tool} by ${event.userEmail}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    });
+  }
+
+  /**
+   * Update the usage statistics of a tool without delaying the response
+   */
+  private recordUsage(usage: UsageRecord): void {
+    this.usageStats.recordUsage(usage).catch((error) => {
+      logger.warn(
+        `[TOOLSERVICE] Failed to record usage of ${usage.name}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    });
+  }
+
   private auditLog(
     event: string,
     userEmail: string | undefined,
@@ -502,6 +1081,9 @@ export class ToolService {
     logger.debug(
       `[AUDIT] event=${event} user=${userEmail} tool=${toolName} status=${status}`,
     );
+    if (event === "authorization_failed") {
+      authorizationFailures.inc({ reason: status });
+    }
   }
 
   /**
@@ -533,6 +1115,12 @@ export class ToolService {
     updates: Partial<ToolDefinition>,
   ): Promise<any> {
     const toolRepo = new ToolRepository();
+    const existing = await toolRepo.findByName(toolName);
+    if (!existing) {
+      return null;
+    }
+    // The updated tool must pass the same checks as a new one
+    this.validateToolDefinition({ ...existing, ...updates } as ToolDefinition);
     return await toolRepo.updateTool(toolName, updates);
   }
 }
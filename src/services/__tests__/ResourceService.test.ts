@@ -0,0 +1,183 @@
+import { jest } from "@jest/globals";
+import {
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { ResourceService } from "../ResourceService.js";
+import { ResourceRepository } from "../../db/repositories/ResourceRepository.js";
+
+describe("ResourceService", () => {
+  let resourceService: ResourceService;
+  let handlers: Map<unknown, (request: any, extra: any) => Promise<any>>;
+  let mockMcpServer: any;
+  let mockUserRepository: any;
+  let sessionInfo: any;
+  const resourceHandler = jest.fn(async (args: any) => ({
+    contents: [{ text: `page ${args.page} of ${args.space}` }],
+  }));
+
+  const resources = [
+    {
+      uri: "docs://handbook",
+      name: "handbook",
+      mimeType: "text/markdown",
+      handler: { type: "docs", config: { action: "handbook" } },
+      creator: "docs",
+    },
+    {
+      uriTemplate: "docs://{space}/{page}",
+      name: "page",
+      mimeType: "text/markdown",
+      handler: { type: "docs", config: { action: "page" } },
+      creator: "docs",
+    },
+  ];
+
+  const call = (schema: unknown, params: any = {}, sessionId = "s1") =>
+    handlers.get(schema)!({ params }, { sessionId });
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    resourceHandler.mockClear();
+    handlers = new Map();
+    sessionInfo = { user: { email: "user@example.com" } };
+    mockMcpServer = {
+      getSessionInfo: () => sessionInfo,
+      getHandler: (type: string) => (type === "docs" ? resourceHandler : undefined),
+      notifyResourceListChanged: jest.fn(),
+      sendNotificationToSession: jest.fn(),
+    };
+    mockUserRepository = {
+      findByEmail: jest.fn(async (email: string) => ({ email, roles: ["user"] })),
+    };
+    jest
+      .spyOn(ResourceRepository.prototype, "getResourcesForUser")
+      .mockResolvedValue(resources as any);
+    resourceService = new ResourceService(
+      { setRequestHandler: (schema: unknown, handler: any) => handlers.set(schema, handler) } as any,
+      mockMcpServer,
+      mockUserRepository,
+    );
+    resourceService.registerRequestHandlers((resourceService as any).server);
+  });
+
+  it("lists resources and resource templates separately", async () => {
+    const listed = await call(ListResourcesRequestSchema);
+    expect(listed.resources).toEqual([
+      expect.objectContaining({ uri: "docs://handbook", name: "handbook" }),
+    ]);
+    const templates = await call(ListResourceTemplatesRequestSchema);
+    expect(templates.resourceTemplates).toEqual([
+      expect.objectContaining({ uriTemplate: "docs://{space}/{page}", name: "page" }),
+    ]);
+  });
+
+  it("reads a templated resource through its handler", async () => {
+    const result = await call(ReadResourceRequestSchema, {
+      uri: "docs://eng/onboarding",
+    });
+    expect(resourceHandler).toHaveBeenCalledWith(
+      { space: "eng", page: "onboarding", uri: "docs://eng/onboarding" },
+      expect.objectContaining({ user: sessionInfo.user }),
+      { action: "page" },
+    );
+    expect(result.contents).toEqual([
+      {
+        uri: "docs://eng/onboarding",
+        mimeType: "text/markdown",
+        text: "page onboarding of eng",
+      },
+    ]);
+  });
+
+  it("reports resources the user cannot access as not found", async () => {
+    await expect(
+      call(ReadResourceRequestSchema, { uri: "secret://payroll" }),
+    ).rejects.toMatchObject({ code: -32002 });
+  });
+
+  it("hides resources outside the API key scope", async () => {
+    sessionInfo.apiKeyScope = { handlers: ["tool-management"] };
+    expect((await call(ListResourcesRequestSchema)).resources).toEqual([]);
+  });
+
+  it("notifies subscribed sessions until they unsubscribe or close", async () => {
+    await call(SubscribeRequestSchema, { uri: "docs://handbook" }, "s1");
+    await call(SubscribeRequestSchema, { uri: "docs://handbook" }, "s2");
+    await resourceService.notifyResourceUpdated("docs://handbook");
+    expect(mockMcpServer.sendNotificationToSession).toHaveBeenCalledTimes(2);
+    expect(mockMcpServer.sendNotificationToSession).toHaveBeenCalledWith("s1", {
+      method: "notifications/resources/updated",
+      params: { uri: "docs://handbook" },
+    });
+
+    mockMcpServer.sendNotificationToSession.mockClear();
+    resourceService.unsubscribe("docs://handbook", "s1");
+    resourceService.removeSubscriptions("s2");
+    await resourceService.notifyResourceUpdated("docs://handbook");
+    expect(mockMcpServer.sendNotificationToSession).not.toHaveBeenCalled();
+  });
+
+  it("only lets the creator or an admin share a resource", async () => {
+    jest
+      .spyOn(ResourceRepository.prototype, "findByUri")
+      .mockImplementation(async (uri) =>
+        uri === "notes://mine"
+          ? ({ ...resources[0], uri, creator: "power@example.com" } as any)
+          : null,
+      );
+    mockUserRepository.findByEmail = jest.fn(async (email: string) => ({
+      email,
+      roles: email === "admin@example.com" ? ["admin"] : ["power-user"],
+    }));
+    mockUserRepository.shareResource = jest.fn(async (email: string) => ({ email }));
+    mockUserRepository.unshareResource = jest.fn(async (email: string) => ({ email }));
+
+    await expect(
+      resourceService.shareResource("notes://mine", "user@example.com", "other@example.com"),
+    ).rejects.toThrow("Only the creator of resource 'notes://mine' or an admin can share it");
+    await expect(
+      resourceService.shareResource("secret://payroll", "user@example.com", "admin@example.com"),
+    ).rejects.toThrow("Resource 'secret://payroll' not found");
+    await expect(
+      resourceService.unshareResource("notes://mine", "user@example.com", "other@example.com"),
+    ).rejects.toThrow(/or an admin can share it/);
+    expect(mockUserRepository.shareResource).not.toHaveBeenCalled();
+    expect(mockUserRepository.unshareResource).not.toHaveBeenCalled();
+
+    await resourceService.shareResource("notes://mine", "user@example.com", "power@example.com");
+    await resourceService.unshareResource("notes://mine", "user@example.com", "admin@example.com");
+    expect(mockUserRepository.shareResource).toHaveBeenCalledWith(
+      "user@example.com",
+      "notes://mine",
+      "power@example.com",
+    );
+    expect(mockUserRepository.unshareResource).toHaveBeenCalledWith(
+      "user@example.com",
+      "notes://mine",
+    );
+    expect(mockMcpServer.notifyResourceListChanged).toHaveBeenCalledWith("user@example.com");
+  });
+
+  it("validates resource definitions", async () => {
+    const upsert = jest
+      .spyOn(ResourceRepository.prototype, "upsert")
+      .mockResolvedValue(undefined);
+    await expect(
+      resourceService.addResource(
+        { name: "both", uri: "a://b", uriTemplate: "a://{b}", handler: { type: "docs", config: {} } },
+        "docs",
+      ),
+    ).rejects.toThrow(/exactly one of uri or uriTemplate/);
+    await resourceService.addResource(
+      { name: "handbook", uri: "docs://handbook", handler: { type: "docs", config: {} } },
+      "docs",
+    );
+    expect(upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ uri: "docs://handbook", creator: "docs" }),
+    );
+    expect(mockMcpServer.notifyResourceListChanged).toHaveBeenCalled();
+  });
+});
@@ -2,6 +2,7 @@ import { jest } from "@jest/globals";
 import { ToolService } from "../ToolService.js";
 import { UserRepository } from "../../db/repositories/UserRepository.js";
 import { ToolRepository } from "../../db/repositories/ToolRepository.js";
+import { ScriptStateRepository } from "../../db/repositories/ScriptStateRepository.js";
 import { DynamicMcpServer } from "../../mcp/server.js";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 
@@ -66,6 +67,22 @@ describe("ToolService.removeTool", () => {
     );
   });
 
+  it("should remove the state of a script tool", async () => {
+    const deleteStateSpy = jest
+      .spyOn(ScriptStateRepository.prototype, "deleteTool")
+      .mockResolvedValue(3);
+    findByNameAndCreatorSpy.mockResolvedValue({
+      name: "counter",
+      creator: "creator@example.com",
+      rolesPermitted: ["user"],
+      handler: { type: "script", config: { code: "return 1;" } },
+    });
+
+    await toolService.removeTool("counter", "creator@example.com");
+
+    expect(deleteStateSpy).toHaveBeenCalledWith("creator@example.com:counter");
+  });
+
   it("should remove tool by namespaced name", async () => {
     const namespacedName = "creator@example.com:test-tool";
     const mockTool = {
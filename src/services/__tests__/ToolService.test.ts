@@ -3,7 +3,12 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { DynamicMcpServer } from "../../mcp/server.js";
 import { UserRepository } from "../../db/repositories/UserRepository.js";
 import { ToolRepository } from "../../db/repositories/ToolRepository.js";
+import { AuditEventRepository } from "../../db/repositories/AuditEventRepository.js";
+import { UsageStatRepository } from "../../db/repositories/UsageStatRepository.js";
+import { CallToolRequestSchema } from "@modelcontextprotocol/sdk/types.js";
 import { ToolDefinition } from "../../mcp/types.js";
+import { pipelineHandlerPackage } from "../../handlers/pipelineHandler/index.js";
+import { metricsRegistry } from "../../utils/metrics.js";
 import { jest } from "@jest/globals";
 
 describe("ToolService", () => {
@@ -42,6 +47,111 @@ describe("ToolService", () => {
     upsertManyMock.mockRestore();
   });
 
+  it("rejects http tools without a url before storing them", async () => {
+    const upsertManyMock = jest.spyOn(ToolRepository.prototype, "upsertMany");
+    await expect(
+      toolService.addTool(
+        {
+          name: "rest-tool",
+          description: "desc",
+          inputSchema: { type: "object", properties: {} },
+          handler: { type: "http", config: { method: "GET" } },
+        },
+        "user@example.com",
+      ),
+    ).rejects.toThrow(
+      "Tool 'rest-tool': handler.config.url must be a URL template string",
+    );
+    expect(upsertManyMock).not.toHaveBeenCalled();
+    upsertManyMock.mockRestore();
+  });
+
+  it("rejects script tools that do not compile before storing them", async () => {
+    const upsertManyMock = jest.spyOn(ToolRepository.prototype, "upsertMany");
+    await expect(
+      toolService.addTool(
+        {
+          name: "script-tool",
+          description: "desc",
+          inputSchema: { type: "object", properties: {} },
+          handler: { type: "script", config: { code: "return {" } },
+        },
+        "user@example.com",
+      ),
+    ).rejects.toThrow("Tool 'script-tool': The script does not compile");
+    expect(upsertManyMock).not.toHaveBeenCalled();
+    upsertManyMock.mockRestore();
+  });
+
+  it("checks the updated definition before storing an update", async () => {
+    jest.spyOn(ToolRepository.prototype, "findByName").mockResolvedValue({
+      name: "script-tool",
+      description: "desc",
+      inputSchema: { type: "object", properties: {} },
+      handler: { type: "script", config: { code: "return 1;" } },
+      creator: "user@example.com",
+    } as any);
+    const updateToolMock = jest
+      .spyOn(ToolRepository.prototype, "updateTool")
+      .mockResolvedValue({ name: "script-tool" } as any);
+
+    await expect(
+      toolService.updateTool("script-tool", {
+        handler: { type: "script", config: { code: "return {" } },
+      }),
+    ).rejects.toThrow("Tool 'script-tool': The script does not compile");
+    expect(updateToolMock).not.toHaveBeenCalled();
+
+    await toolService.updateTool("script-tool", { description: "new" });
+    expect(updateToolMock).toHaveBeenCalledWith("script-tool", { description: "new" });
+    jest.restoreAllMocks();
+  });
+
+  it("stores tools imported from an OpenAPI document under the creator", async () => {
+    const upsertManyMock = jest
+      .spyOn(ToolRepository.prototype, "upsertMany")
+      .mockResolvedValue(undefined);
+    const document = JSON.stringify({
+      openapi: "3.0.0",
+      servers: [{ url: "https://api.example.com" }],
+      paths: { "/status": { get: { operationId: "getStatus" } } },
+    });
+    const tools = await toolService.importOpenApiTools(
+      { document },
+      {},
+      "power@example.com",
+    );
+    expect(tools.map((tool) => tool.name)).toEqual(["get-status"]);
+    expect(upsertManyMock).toHaveBeenCalledWith([
+      expect.objectContaining({
+        name: "get-status",
+        creator: "power@example.com",
+        handler: {
+          type: "http",
+          config: { method: "GET", url: "https://api.example.com/status" },
+        },
+      }),
+    ]);
+    upsertManyMock.mockRestore();
+  });
+
+  it("only lets trusted creators import tools that send stored credentials", async () => {
+    (toolService as any).mcpServer = { getHandler: () => undefined };
+    jest
+      .spyOn(mockUserRepo, "findByEmail")
+      .mockResolvedValue({ email: "power@example.com", roles: ["power-user"] } as any);
+    const upsertManyMock = jest.spyOn(ToolRepository.prototype, "upsertMany");
+    await expect(
+      toolService.importOpenApiTools(
+        { document: "{}" },
+        { auth: { appKey: "crm" } },
+        "power@example.com",
+      ),
+    ).rejects.toThrow(/Only administrators can import tools that send stored credentials/);
+    expect(upsertManyMock).not.toHaveBeenCalled();
+    jest.restoreAllMocks();
+  });
+
   it("should provide a no-op progress function if no token or sessionId", () => {
     const progressFn = (toolService as any).createProgressFunction(
       undefined,
@@ -111,4 +221,595 @@ describe("ToolService", () => {
       expect.objectContaining({ method: "notifications/progress" }),
     );
   });
+
+  it("rejects tools outside the session's API key scope", async () => {
+    const fakeHandler = jest.fn();
+    (toolService as any).mcpServer = { getHandler: () => fakeHandler };
+    jest.spyOn(mockUserRepo, "getUserTools").mockResolvedValue([
+      {
+        name: "mytool",
+        creator: "a@b.com",
+        handler: { type: "fake", config: {} },
+        inputSchema: { type: "object", properties: {} },
+      },
+    ] as any);
+    const context = {
+      user: { email: "a@b.com" },
+      apiKeyScope: { tools: ["other-tool"] },
+    };
+    await expect(
+      toolService.executeTool(
+        { name: "mytool", handler: { type: "fake", config: {} } },
+        {},
+        context,
+      ),
+    ).rejects.toThrow(/scope of the API key/);
+    expect(fakeHandler).not.toHaveBeenCalled();
+  });
+
+  it("resolves a namespaced name to that creator's tool", async () => {
+    const fakeHandler = jest.fn(async () => ({ result: "ok" }));
+    (toolService as any).mcpServer = { getHandler: () => fakeHandler };
+    jest.spyOn(mockUserRepo, "getUserTools").mockResolvedValue([
+      { name: "mytool", creator: "a@b.com", handler: { type: "fake", config: { owner: "a" } } },
+      { name: "mytool", creator: "c@d.com", handler: { type: "fake", config: { owner: "c" } } },
+    ] as any);
+    jest
+      .spyOn(toolService as any, "authorizeToolCall")
+      .mockResolvedValue({ authorized: true });
+    const context = { user: { email: "a@b.com" } };
+
+    await toolService.executeTool(
+      { name: "c@d.com:mytool", handler: { type: "fake" } },
+      {},
+      context,
+    );
+    expect(fakeHandler).toHaveBeenCalledWith(
+      {},
+      expect.objectContaining({
+        tool: expect.objectContaining({ name: "mytool", creator: "c@d.com" }),
+      }),
+      { owner: "c" },
+      undefined,
+      expect.any(AbortSignal),
+    );
+
+    await expect(
+      toolService.executeTool(
+        { name: "e@f.com:mytool", handler: { type: "fake" } },
+        {},
+        context,
+      ),
+    ).rejects.toThrow("Tool e@f.com:mytool not found or not authorized for user.");
+  });
+
+  it("renders the argMappings of user tools without the environment or the session", async () => {
+    const fakeHandler = jest.fn(async (args: any, _context: any) => ({ result: args }));
+    (toolService as any).mcpServer = {
+      getHandler: (name: string) => (name === "fake" ? fakeHandler : undefined),
+    };
+    const argMappings = {
+      home: "{{HOME}}",
+      token: "{{token}}",
+      email: "{{user.email}}",
+    };
+    jest.spyOn(mockUserRepo, "getUserTools").mockResolvedValue([
+      { name: "mine", creator: "a@b.com", handler: { type: "fake", config: { argMappings } } },
+      { name: "admins", creator: "root@b.com", handler: { type: "fake", config: { argMappings } } },
+    ] as any);
+    jest
+      .spyOn(mockUserRepo, "findByEmail")
+      .mockImplementation(async (email: string) =>
+        (email === "root@b.com"
+          ? { email, roles: ["admin"] }
+          : { email, roles: ["power-user"] }) as any,
+      );
+    jest
+      .spyOn(toolService as any, "authorizeToolCall")
+      .mockResolvedValue({ authorized: true });
+    const context = { user: { email: "a@b.com" }, token: "session-token" };
+
+    await expect(
+      toolService.executeTool({ name: "mine", handler: { type: "fake" } }, {}, context),
+    ).resolves.toEqual({ result: { home: "", token: "", email: "a@b.com" } });
+    await expect(
+      toolService.executeTool({ name: "admins", handler: { type: "fake" } }, {}, context),
+    ).resolves.toEqual({
+      result: { home: process.env.HOME, token: "session-token", email: "a@b.com" },
+    });
+    // Handlers can tell the two apart, e.g. to only send stored credentials for admin tools
+    expect(fakeHandler.mock.calls.map(([, handlerContext]) => handlerContext.tool.trusted)).toEqual([
+      false,
+      true,
+    ]);
+  });
+
+  it("validates arguments against the inputSchema before running the handler", async () => {
+    const fakeHandler = jest.fn(async (args: any) => ({ result: args }));
+    (toolService as any).mcpServer = { getHandler: () => fakeHandler };
+    jest.spyOn(mockUserRepo, "getUserTools").mockResolvedValue([
+      {
+        name: "mytool",
+        creator: "a@b.com",
+        handler: { type: "fake", config: {} },
+        inputSchema: {
+          type: "object",
+          properties: {
+            city: { type: "string" },
+            units: { type: "string", enum: ["metric", "imperial"], default: "metric" },
+          },
+          required: ["city"],
+        },
+      },
+    ] as any);
+    jest
+      .spyOn(toolService as any, "authorizeToolCall")
+      .mockResolvedValue({ authorized: true });
+    const toolDef = { name: "mytool", handler: { type: "fake", config: {} } };
+    const context = { user: { email: "a@b.com" } };
+
+    await expect(
+      toolService.executeTool(toolDef, { units: "kelvin" }, context),
+    ).rejects.toThrow(/'city': is required\n- 'units': must be one of/);
+    expect(fakeHandler).not.toHaveBeenCalled();
+
+    await toolService.executeTool(toolDef, { city: "Oslo" }, context);
+    expect(fakeHandler).toHaveBeenCalledWith(
+      { city: "Oslo", units: "metric" },
+      {
+        ...context,
+        tool: expect.objectContaining({ name: "mytool", creator: "a@b.com" }),
+        traceContext: expect.anything(),
+      },
+      {},
+      undefined,
+      expect.any(AbortSignal),
+    );
+  });
+
+  describe("cancellation and timeouts", () => {
+    const context = { user: { email: "a@b.com" } };
+    const toolDef = { name: "slow", handler: { type: "fake", config: {} } };
+    let handlerSignal: AbortSignal | undefined;
+
+    const useSlowTool = (timeoutMs?: number) => {
+      handlerSignal = undefined;
+      const slowHandler = (
+        _args: any,
+        _context: any,
+        _config: any,
+        _progress: any,
+        signal: AbortSignal,
+      ) => {
+        handlerSignal = signal;
+        // Never settles: the call must end through the signal
+        return new Promise(() => {});
+      };
+      (toolService as any).mcpServer = { getHandler: () => slowHandler };
+      jest.spyOn(mockUserRepo, "getUserTools").mockResolvedValue([
+        {
+          name: "slow",
+          creator: "a@b.com",
+          handler: { type: "fake", config: {} },
+          inputSchema: { type: "object", properties: {} },
+          timeoutMs,
+        },
+      ] as any);
+      jest
+        .spyOn(toolService as any, "authorizeToolCall")
+        .mockResolvedValue({ authorized: true });
+    };
+
+    it("aborts the handler and fails when the tool's timeout expires", async () => {
+      useSlowTool(20);
+      await expect(
+        toolService.executeTool(toolDef, {}, context),
+      ).rejects.toThrow("Tool 'slow' timed out after 20ms and was aborted");
+      expect(handlerSignal?.aborted).toBe(true);
+    });
+
+    it("aborts the handler when the caller's signal aborts", async () => {
+      useSlowTool();
+      const controller = new AbortController();
+      const call = toolService.executeTool(
+        toolDef,
+        {},
+        context,
+        undefined,
+        controller.signal,
+      );
+      await new Promise((resolve) => setImmediate(resolve));
+      controller.abort("client cancelled");
+      await expect(call).rejects.toThrow(
+        "Tool 'slow' was cancelled: client cancelled",
+      );
+      expect(handlerSignal?.aborted).toBe(true);
+    });
+
+    it("aborts in-flight calls when their session closes", () => {
+      const controller = (toolService as any).trackCall(
+        "session-1",
+        new AbortController().signal,
+      );
+      const other = (toolService as any).trackCall(
+        "session-2",
+        new AbortController().signal,
+      );
+
+      toolService.abortSessionCalls("session-1");
+      expect(controller.signal.aborted).toBe(true);
+      expect(other.signal.aborted).toBe(false);
+    });
+
+    it("aborts a tracked call when its request is cancelled", () => {
+      const requestController = new AbortController();
+      const controller = (toolService as any).trackCall(
+        "session-1",
+        requestController.signal,
+      );
+      requestController.abort("cancelled by client");
+      expect(controller.signal.aborted).toBe(true);
+      expect(controller.signal.reason).toBe("cancelled by client");
+    });
+
+    it("waits for in-flight calls to finish when draining", async () => {
+      const controller = (toolService as any).trackCall(
+        undefined,
+        new AbortController().signal,
+      );
+      const drained = toolService.drainCalls(60 * 1000);
+      (toolService as any).untrackCall(undefined, controller);
+
+      await expect(drained).resolves.toBe(0);
+      expect(controller.signal.aborted).toBe(false);
+    });
+
+    it("aborts calls still running when the drain deadline passes", async () => {
+      const controller = (toolService as any).trackCall(
+        "session-1",
+        new AbortController().signal,
+      );
+
+      await expect(toolService.drainCalls(10)).resolves.toBe(1);
+      expect(controller.signal.aborted).toBe(true);
+      expect(controller.signal.reason).toBe("the server is shutting down");
+    });
+  });
+
+  describe("audit log", () => {
+    const callTool = async (name: string, args: Record<string, unknown>) => {
+      const server = {
+        setRequestHandler: jest.fn(),
+        getClientVersion: () => ({ name: "test-client", version: "1.2.3" }),
+      } as any;
+      toolService.registerRequestHandlers(server);
+      const [, callHandler] = server.setRequestHandler.mock.calls.find(
+        ([schema]: any[]) => schema === CallToolRequestSchema,
+      );
+      return callHandler(
+        { method: "tools/call", params: { name, arguments: args } },
+        { sessionId: "session-1", signal: new AbortController().signal },
+      );
+    };
+
+    let recordUsage: any;
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+      recordUsage = jest
+        .spyOn(UsageStatRepository.prototype, "recordUsage")
+        .mockResolvedValue();
+      (toolService as any).mcpServer = {
+        getSessionInfo: () => ({ user: { email: "a@b.com" } }),
+        getHandler: () => async () => ({ result: "ok" }),
+      };
+      jest.spyOn(mockUserRepo, "getUserTools").mockResolvedValue([
+        {
+          name: "add-user",
+          creator: "system",
+          handler: { type: "user-management", config: {} },
+          inputSchema: { type: "object", properties: {} },
+        },
+      ] as any);
+    });
+
+    it("records successful calls with redacted arguments", async () => {
+      const record = jest
+        .spyOn(AuditEventRepository.prototype, "record")
+        .mockResolvedValue();
+      jest
+        .spyOn(toolService as any, "authorizeToolCall")
+        .mockResolvedValue({ authorized: true });
+
+      await callTool("add-user", { email: "b@b.com", apiKey: "secret" });
+
+      expect(record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userEmail: "a@b.com",
+          tool: "add-user",
+          handler: "user-management",
+          sessionId: "session-1",
+          clientName: "test-client",
+          clientVersion: "1.2.3",
+          arguments: { email: "b@b.com", apiKey: "[REDACTED]" },
+          outcome: "success",
+        }),
+      );
+      expect(recordUsage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          kind: "tool",
+          name: "add-user",
+          creator: "system",
+          userEmail: "a@b.com",
+          error: false,
+        }),
+      );
+    });
+
+    it("records denied calls", async () => {
+      const record = jest
+        .spyOn(AuditEventRepository.prototype, "record")
+        .mockResolvedValue();
+      jest
+        .spyOn(toolService as any, "authorizeToolCall")
+        .mockResolvedValue({ authorized: false, error: "Not for you" });
+
+      const response = await callTool("add-user", {});
+
+      expect(response.isError).toBe(true);
+      expect(record).toHaveBeenCalledWith(
+        expect.objectContaining({ outcome: "denied", error: "Not for you" }),
+      );
+      expect(recordUsage).not.toHaveBeenCalled();
+    });
+
+    it("records each step of a pipeline as a call of its own", async () => {
+      const record = jest
+        .spyOn(AuditEventRepository.prototype, "record")
+        .mockResolvedValue();
+      jest
+        .spyOn(toolService as any, "authorizeToolCall")
+        .mockResolvedValue({ authorized: true });
+      const addUser = {
+        name: "add-user",
+        creator: "system",
+        handler: { type: "user-management", config: {} },
+        inputSchema: { type: "object", properties: {} },
+      };
+      jest.spyOn(mockUserRepo, "getUserTools").mockResolvedValue([
+        addUser,
+        {
+          name: "add-users",
+          creator: "a@b.com",
+          handler: {
+            type: "pipeline",
+            config: {
+              steps: [
+                { id: "first", tool: "system:add-user", args: { email: "c@b.com" } },
+                { id: "second", tool: "system:add-user", args: { email: "d@b.com" } },
+              ],
+            },
+          },
+          inputSchema: { type: "object", properties: {} },
+        },
+      ] as any);
+      jest
+        .spyOn(ToolRepository.prototype, "findByNamespacedName")
+        .mockResolvedValue(addUser as any);
+      (toolService as any).mcpServer = {
+        getSessionInfo: () => ({
+          sessionId: "session-1",
+          user: { email: "a@b.com" },
+          mcpServer: { toolService },
+        }),
+        getHandler: (type: string) =>
+          type === "pipeline"
+            ? pipelineHandlerPackage.handler
+            : async () => ({ result: "ok" }),
+      };
+
+      const response = await callTool("add-users", {});
+
+      expect(response.isError).toBeFalsy();
+      expect(record).toHaveBeenCalledTimes(3);
+      for (const email of ["c@b.com", "d@b.com"]) {
+        expect(record).toHaveBeenCalledWith(
+          expect.objectContaining({
+            tool: "system:add-user",
+            handler: "user-management",
+            sessionId: "session-1",
+            pipeline: "a@b.com:add-users",
+            arguments: { email },
+            outcome: "success",
+          }),
+        );
+      }
+      expect(record).toHaveBeenCalledWith(
+        expect.objectContaining({ tool: "add-users", outcome: "success" }),
+      );
+      expect(recordUsage).toHaveBeenCalledWith(
+        expect.objectContaining({ name: "add-user", creator: "system" }),
+      );
+    });
+
+    it("records a call whose output cannot be formatted once, as an error", async () => {
+      const record = jest
+        .spyOn(AuditEventRepository.prototype, "record")
+        .mockResolvedValue();
+      jest
+        .spyOn(toolService as any, "authorizeToolCall")
+        .mockResolvedValue({ authorized: true });
+      (toolService as any).mcpServer.getHandler = () => async () => ({
+        content: [{ type: "bogus" }],
+      });
+
+      const response = await callTool("add-user", {});
+
+      expect(response.isError).toBe(true);
+      expect(record).toHaveBeenCalledTimes(1);
+      expect(record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          outcome: "error",
+          error: expect.stringContaining("unknown type 'bogus'"),
+        }),
+      );
+      expect(recordUsage).toHaveBeenCalledTimes(1);
+      expect(recordUsage).toHaveBeenCalledWith(
+        expect.objectContaining({ error: true }),
+      );
+    });
+
+    it("labels the metrics of tools that do not resolve as unknown", async () => {
+      jest.spyOn(AuditEventRepository.prototype, "record").mockResolvedValue();
+
+      const response = await callTool("made-up-tool-name", {});
+
+      expect(response.isError).toBe(true);
+      const metrics = await metricsRegistry.metrics();
+      expect(metrics).toContain(
+        'mcp_tool_calls_total{tool="unknown",handler="unknown",outcome="denied"}',
+      );
+      expect(metrics).not.toContain("made-up-tool-name");
+    });
+
+    it("labels the metrics of user-authored tools as user", async () => {
+      jest.spyOn(AuditEventRepository.prototype, "record").mockResolvedValue();
+      jest
+        .spyOn(toolService as any, "authorizeToolCall")
+        .mockResolvedValue({ authorized: true });
+      jest.spyOn(mockUserRepo, "getUserTools").mockResolvedValue([
+        {
+          name: "my-private-tool",
+          creator: "a@b.com",
+          handler: { type: "user-management", config: {} },
+          inputSchema: { type: "object", properties: {} },
+        },
+      ] as any);
+      (toolService as any).mcpServer.getHandler = (type: string) =>
+        type === "user-management" ? async () => ({ result: "ok" }) : undefined;
+
+      const response = await callTool("my-private-tool", {});
+
+      expect(response.isError).toBeFalsy();
+      const metrics = await metricsRegistry.metrics();
+      expect(metrics).toContain(
+        'mcp_tool_calls_total{tool="user",handler="user-management",outcome="success"}',
+      );
+      expect(metrics).not.toContain("my-private-tool");
+    });
+
+    it("still answers when the audit log cannot be written", async () => {
+      jest
+        .spyOn(AuditEventRepository.prototype, "record")
+        .mockRejectedValue(new Error("db down"));
+      jest
+        .spyOn(toolService as any, "authorizeToolCall")
+        .mockResolvedValue({ authorized: true });
+
+      const response = await callTool("add-user", {});
+      expect(response.isError).toBeFalsy();
+    });
+  });
+
+  describe("structured content", () => {
+    const weatherTool = {
+      name: "weather",
+      creator: "a@b.com",
+      handler: { type: "fake", config: {} },
+      inputSchema: { type: "object", properties: {} },
+      outputSchema: {
+        type: "object",
+        properties: { temperature: { type: "number" } },
+        required: ["temperature"],
+      },
+    };
+    const context = { user: { email: "a@b.com" } };
+    const toolDef = { name: "weather", handler: { type: "fake", config: {} } };
+
+    const useHandler = (output: any) => {
+      (toolService as any).mcpServer = { getHandler: () => async () => output };
+      jest
+        .spyOn(mockUserRepo, "getUserTools")
+        .mockResolvedValue([weatherTool] as any);
+      jest
+        .spyOn(toolService as any, "authorizeToolCall")
+        .mockResolvedValue({ authorized: true });
+    };
+
+    it("returns the validated result as structured content alongside the text", async () => {
+      useHandler({ result: { temperature: 21 }, message: "Sunny" });
+      const output = await toolService.executeTool(toolDef, {}, context);
+      expect(output.structuredContent).toEqual({ temperature: 21 });
+
+      const response = (toolService as any).formatToolOutput(output);
+      expect(response.structuredContent).toEqual({ temperature: 21 });
+      expect(JSON.parse(response.content[0].text)).toMatchObject({
+        result: { temperature: 21 },
+        message: "Sunny",
+      });
+    });
+
+    it("rejects structured content that does not match the outputSchema", async () => {
+      useHandler({
+        result: "21 degrees",
+        structuredContent: { temperature: "21" },
+      });
+      await expect(
+        toolService.executeTool(toolDef, {}, context),
+      ).rejects.toThrow(/'temperature': must be of type number/);
+    });
+
+    it("leaves results without structured content unchanged", () => {
+      const response = (toolService as any).formatToolOutput({ result: "ok" });
+      expect(response).not.toHaveProperty("structuredContent");
+    });
+  });
+
+  describe("rich content", () => {
+    const format = (output: any) =>
+      (toolService as any).formatToolOutput(output);
+
+    it("keeps the single text block for the classic output shape", () => {
+      expect(format({ result: 1, message: "done" })).toEqual({
+        content: [
+          { type: "text", text: JSON.stringify({ result: 1, message: "done" }) },
+        ],
+      });
+    });
+
+    it("passes content items through after the text rendering", () => {
+      const image = { type: "image", data: "iVBORw0KGgo=", mimeType: "image/png" };
+      const link = {
+        type: "resource_link",
+        uri: "file:///reports/q3.pdf",
+        name: "q3.pdf",
+        mimeType: "application/pdf",
+      };
+      const embedded = {
+        type: "resource",
+        resource: { uri: "file:///data.csv", blob: "YSxi", mimeType: "text/csv" },
+      };
+      const response = format({
+        message: "Rendered chart",
+        content: [image, link, embedded],
+      });
+      expect(response.content).toHaveLength(4);
+      expect(response.content[0].type).toBe("text");
+      expect(response.content.slice(1)).toEqual([image, link, embedded]);
+
+      expect(format({ content: [image] }).content).toEqual([image]);
+    });
+
+    it("rejects malformed content items", () => {
+      expect(() => format({ content: [{ type: "video", data: "x" }] })).toThrow(
+        /index 0: unknown type 'video'/,
+      );
+      expect(() =>
+        format({ content: [{ type: "text", text: "ok" }, { type: "image", data: "x" }] }),
+      ).toThrow(/index 1: .*mimeType: Required/);
+    });
+  });
 });
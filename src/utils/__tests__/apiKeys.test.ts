@@ -0,0 +1,68 @@
+import {
+  generateApiKey,
+  getApiKeyPrefix,
+  hashApiKey,
+  redactApiKey,
+  verifyApiKey,
+  isApiKeyExpired,
+  isToolInScope,
+  API_KEY_PREFIX_LENGTH,
+} from "../apiKeys.js";
+
+describe("apiKeys utility", () => {
+  it("hashes keys with a random salt and verifies them", async () => {
+    const apiKey = generateApiKey();
+    const first = await hashApiKey(apiKey);
+    const second = await hashApiKey(apiKey);
+    expect(first).not.toContain(apiKey);
+    expect(first).not.toEqual(second);
+    expect(await verifyApiKey(apiKey, first)).toBe(true);
+    expect(await verifyApiKey(apiKey, second)).toBe(true);
+    expect(await verifyApiKey(generateApiKey(), first)).toBe(false);
+  });
+
+  it("rejects missing or malformed hashes", async () => {
+    expect(await verifyApiKey("key", undefined)).toBe(false);
+    expect(await verifyApiKey("key", "plaintext-key")).toBe(false);
+  });
+
+  it("derives a short lookup prefix", () => {
+    const apiKey = generateApiKey();
+    expect(getApiKeyPrefix(apiKey)).toHaveLength(API_KEY_PREFIX_LENGTH);
+    expect(apiKey.startsWith(getApiKeyPrefix(apiKey))).toBe(true);
+  });
+
+  it("redacts everything but the prefix", () => {
+    const apiKey = "1234abcd-0000-0000-0000-000000000000";
+    expect(redactApiKey(apiKey)).toBe("1234abcd…[REDACTED]");
+    expect(redactApiKey(undefined)).toBe("[none]");
+  });
+
+  it("detects expired keys", () => {
+    const now = new Date("2026-01-01T00:00:00Z");
+    expect(isApiKeyExpired({}, now)).toBe(false);
+    expect(isApiKeyExpired({ expiresAt: "2025-12-31T00:00:00Z" }, now)).toBe(
+      true,
+    );
+    expect(isApiKeyExpired({ expiresAt: new Date("2026-02-01") }, now)).toBe(
+      false,
+    );
+  });
+
+  it("matches tools against a key scope", () => {
+    const tool = {
+      name: "list-users",
+      creator: "user-management",
+      handler: { type: "user-management" },
+    };
+    expect(isToolInScope(undefined, tool)).toBe(true);
+    expect(isToolInScope({ tools: [] }, tool)).toBe(true);
+    expect(isToolInScope({ tools: ["list-users"] }, tool)).toBe(false);
+    expect(
+      isToolInScope({ tools: ["user-management:list-users"] }, tool),
+    ).toBe(true);
+    expect(isToolInScope({ handlers: ["user-management"] }, tool)).toBe(true);
+    expect(isToolInScope({ tools: ["list-tools"] }, tool)).toBe(false);
+    expect(isToolInScope({ handlers: ["tool-management"] }, tool)).toBe(false);
+  });
+});
@@ -0,0 +1,52 @@
+import { auditEventsToCsv, redactArguments, REDACTED } from "../audit.js";
+
+describe("redactArguments", () => {
+  it("redacts secret-looking keys at any depth", () => {
+    expect(
+      redactArguments({
+        email: "a@example.com",
+        apiKey: "1234",
+        auth: { password: "hunter2", user: "a" },
+        headers: [{ Authorization: "Bearer x" }],
+      }),
+    ).toEqual({
+      email: "a@example.com",
+      apiKey: REDACTED,
+      auth: { password: REDACTED, user: "a" },
+      headers: [{ Authorization: REDACTED }],
+    });
+  });
+
+  it("truncates long strings and deep nesting", () => {
+    const redacted = redactArguments({
+      text: "x".repeat(600),
+      a: { b: { c: { d: { e: { f: 1 } } } } },
+    });
+    expect(redacted.text).toHaveLength(500 + "…[truncated]".length);
+    expect(redacted.a.b.c.d.e).toBe("[truncated]");
+  });
+});
+
+describe("auditEventsToCsv", () => {
+  it("renders a header and quotes fields that need it", () => {
+    const csv = auditEventsToCsv([
+      {
+        timestamp: new Date("2026-01-02T03:04:05.000Z"),
+        userEmail: "a@example.com",
+        tool: "add-user",
+        handler: "user-management",
+        outcome: "error",
+        error: 'User "b" already exists, try update-user',
+        durationMs: 12,
+        arguments: { email: "b@example.com" },
+      },
+    ]);
+    const [header, row] = csv.split("\n");
+    expect(header).toBe(
+      "timestamp,userEmail,tool,handler,outcome,durationMs,error,sessionId,clientName,clientVersion,arguments",
+    );
+    expect(row).toBe(
+      '2026-01-02T03:04:05.000Z,a@example.com,add-user,user-management,error,12,"User ""b"" already exists, try update-user",,,,"{""email"":""b@example.com""}"',
+    );
+  });
+});
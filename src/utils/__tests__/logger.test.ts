@@ -51,6 +51,16 @@ describe("logger utility", () => {
     expect(log).toMatch(/error: {}/);
   });
 
+  it("redacts API keys in messages and args", () => {
+    const apiKey = "1234abcd-5678-90ef-1234-567890abcdef";
+    logger.info(`connect url=/mcp?apiKey=${apiKey}&x=1`, {
+      args: { apiKey },
+    });
+    const log = logs.find((l) => l.includes("connect url"));
+    expect(log).not.toContain(apiKey);
+    expect(log).toContain("apiKey=1234abcd…[REDACTED]");
+  });
+
   it("respects config.logging.level", () => {
     expect(logger.level).toBe(config.logging.level);
   });
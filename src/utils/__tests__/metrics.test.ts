@@ -0,0 +1,20 @@
+import { EventEmitter } from "events";
+import { instrumentMongoClient, metricsRegistry } from "../metrics.js";
+
+describe("metrics", () => {
+  it("records the latency of MongoDB commands", async () => {
+    const client = new EventEmitter();
+    instrumentMongoClient(client);
+
+    client.emit("commandSucceeded", { commandName: "find", duration: 3 });
+    client.emit("commandFailed", { commandName: "insert", duration: 40 });
+
+    const metrics = await metricsRegistry.metrics();
+    expect(metrics).toContain(
+      'mcp_mongodb_operation_duration_seconds_count{operation="find",outcome="success"} 1',
+    );
+    expect(metrics).toContain(
+      'mcp_mongodb_operation_duration_seconds_bucket{le="0.05",operation="insert",outcome="error"} 1',
+    );
+  });
+});
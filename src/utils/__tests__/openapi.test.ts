@@ -0,0 +1,173 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  loadOpenApiDocument,
+  openApiToTools,
+  parseOpenApiDocument,
+} from "../openapi.js";
+
+const spec = `
+openapi: 3.0.3
+info:
+  title: Pet Store
+  version: 1.0.0
+servers:
+  - url: https://pets.example.com/v1/
+paths:
+  /pets:
+    get:
+      operationId: listPets
+      summary: List pets
+      tags: [pets]
+      parameters:
+        - name: limit
+          in: query
+          schema: { type: integer }
+          description: How many pets to return
+    post:
+      operationId: createPet
+      summary: Create a pet
+      tags: [pets]
+      requestBody:
+        required: true
+        content:
+          application/json:
+            schema:
+              $ref: "#/components/schemas/Pet"
+  /pets/{petId}:
+    parameters:
+      - name: petId
+        in: path
+        required: true
+        schema: { type: string }
+    delete:
+      tags: [admin]
+      parameters:
+        - name: X-Reason
+          in: header
+          schema: { type: string }
+components:
+  schemas:
+    Pet:
+      type: object
+      required: [name]
+      properties:
+        name: { type: string }
+        parent: { $ref: "#/components/schemas/Pet" }
+`;
+
+describe("openApiToTools", () => {
+  const doc = parseOpenApiDocument(spec);
+
+  it("generates one http tool per operation", () => {
+    const tools = openApiToTools(doc);
+    expect(tools.map((tool) => tool.name)).toEqual([
+      "list-pets",
+      "create-pet",
+      "delete-pets-pet-id",
+    ]);
+
+    const [list, create, remove] = tools;
+    expect(list).toMatchObject({
+      description: "List pets",
+      inputSchema: {
+        type: "object",
+        properties: {
+          limit: { type: "integer", description: "How many pets to return" },
+        },
+      },
+      annotations: { title: "List pets", readOnlyHint: true, idempotentHint: true },
+      rolesPermitted: [],
+      handler: {
+        type: "http",
+        config: {
+          method: "GET",
+          url: "https://pets.example.com/v1/pets",
+          query: { limit: "{{limit}}" },
+        },
+      },
+    });
+    expect(create.inputSchema.required).toEqual(["body"]);
+    expect(create.inputSchema.properties!.body).toMatchObject({
+      type: "object",
+      required: ["name"],
+      properties: { name: { type: "string" }, parent: {} },
+    });
+    expect(create.handler.config.body).toBe("{{body}}");
+    expect(create.annotations).toMatchObject({
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+    });
+    expect(remove).toMatchObject({
+      description: "DELETE /pets/{petId}",
+      inputSchema: { required: ["petId"] },
+      annotations: { destructiveHint: true },
+      handler: {
+        config: {
+          method: "DELETE",
+          url: "https://pets.example.com/v1/pets/{{petId}}",
+          headers: { "X-Reason": "{{X-Reason}}" },
+        },
+      },
+    });
+  });
+
+  it("imports only the selected operations and tags", () => {
+    expect(
+      openApiToTools(doc, { operations: ["createPet", "delete /pets/{petId}"] }).map(
+        (tool) => tool.name,
+      ),
+    ).toEqual(["create-pet", "delete-pets-pet-id"]);
+    expect(
+      openApiToTools(doc, { tags: ["admin"], namePrefix: "store-" }).map((tool) => tool.name),
+    ).toEqual(["store-delete-pets-pet-id"]);
+  });
+
+  it("passes the base URL, auth and roles through", () => {
+    const [tool] = openApiToTools(doc, {
+      operations: ["listPets"],
+      baseUrl: "http://localhost:8080",
+      auth: { appKey: "pets", type: "bearer" },
+      rolesPermitted: ["admin"],
+    });
+    expect(tool.rolesPermitted).toEqual(["admin"]);
+    expect(tool.handler.config).toMatchObject({
+      url: "http://localhost:8080/pets",
+      auth: { appKey: "pets", type: "bearer" },
+    });
+  });
+
+  it("needs a base URL when the document has no absolute server", () => {
+    expect(() =>
+      openApiToTools({ ...doc, servers: [{ url: "/v1" }] }),
+    ).toThrow("Pass baseUrl");
+  });
+});
+
+describe("parseOpenApiDocument", () => {
+  it("accepts JSON and rejects other documents", () => {
+    expect(
+      parseOpenApiDocument('{"openapi":"3.1.0","paths":{}}').openapi,
+    ).toBe("3.1.0");
+    expect(() => parseOpenApiDocument('swagger: "2.0"\npaths: {}')).toThrow(
+      "the 'openapi' version field is missing",
+    );
+    expect(() => parseOpenApiDocument("{ not json")).toThrow(
+      "not valid JSON or YAML",
+    );
+  });
+
+  it("reads a document from a file", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "openapi-"));
+    try {
+      const path = join(dir, "spec.yaml");
+      await writeFile(path, spec);
+      const doc = await loadOpenApiDocument({ path });
+      expect(doc.info?.title).toBe("Pet Store");
+    } finally {
+      await rm(dir, { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,43 @@
+import { mapArguments } from "../templates.js";
+
+describe("mapArguments", () => {
+  afterEach(() => {
+    delete process.env.TEMPLATE_TEST_SECRET;
+  });
+
+  it("fills placeholders from arguments, then context, then the environment", () => {
+    process.env.TEMPLATE_TEST_SECRET = "s3cret";
+    expect(
+      mapArguments(
+        { q: "{{city}}, {{ country }}", user: "{{email}}", key: "{{TEMPLATE_TEST_SECRET}}" },
+        { city: "Paris" },
+        { country: "FR", email: "a@b.com" },
+      ),
+    ).toEqual({ q: "Paris, FR", user: "a@b.com", key: "s3cret" });
+  });
+
+  it("reads dotted paths and leaves unknown fields empty", () => {
+    expect(
+      mapArguments(["{{ auth.token }}", "{{ missing }}"], {}, { auth: { token: "t" } }),
+    ).toEqual(["t", ""]);
+  });
+
+  it("skips the environment when disabled", () => {
+    process.env.TEMPLATE_TEST_SECRET = "s3cret";
+    expect(mapArguments("{{TEMPLATE_TEST_SECRET}}", {}, {}, { env: false })).toBe("");
+  });
+
+  it("keeps the type of single placeholders when asked", () => {
+    const args = { count: 3, tags: ["a", "b"] };
+    expect(
+      mapArguments({ count: "{{count}}", tags: "{{ tags }}", label: "n={{count}}" }, args, {}, { preserveTypes: true }),
+    ).toEqual({ count: 3, tags: ["a", "b"], label: "n=3" });
+    expect(mapArguments("{{count}}", args)).toBe("3");
+  });
+
+  it("encodes the values it places in strings when asked", () => {
+    expect(
+      mapArguments("/users/{{id}}", { id: "a/b?c" }, {}, { encode: encodeURIComponent }),
+    ).toBe("/users/a%2Fb%3Fc");
+  });
+});
@@ -0,0 +1,129 @@
+import { jest } from "@jest/globals";
+import Ajv from "ajv";
+import {
+  MAX_CACHED_VALIDATORS,
+  ToolArgumentsError,
+  ToolOutputError,
+  validateToolArguments,
+  validateToolOutput,
+} from "../toolSchemas.js";
+
+describe("validateToolArguments", () => {
+  const schema = {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    type: "object",
+    properties: {
+      email: { type: "string" },
+      role: { type: "string", enum: ["user", "admin"], default: "user" },
+      limit: { type: "number" },
+      options: {
+        type: "object",
+        properties: { notify: { type: "boolean" } },
+        required: ["notify"],
+      },
+    },
+    required: ["email"],
+  };
+
+  it("returns a copy of the arguments with defaults filled in", () => {
+    const args = { email: "a@b.com" };
+    expect(validateToolArguments("add-user", schema, args)).toEqual({
+      email: "a@b.com",
+      role: "user",
+    });
+    expect(args).toEqual({ email: "a@b.com" });
+  });
+
+  it("lists every violation", () => {
+    let error: ToolArgumentsError | undefined;
+    try {
+      validateToolArguments("add-user", schema, {
+        role: "owner",
+        limit: "ten",
+        options: {},
+      });
+    } catch (e) {
+      error = e as ToolArgumentsError;
+    }
+    expect(error).toBeInstanceOf(ToolArgumentsError);
+    expect(error!.violations).toEqual(
+      expect.arrayContaining([
+        { path: "email", message: "is required" },
+        { path: "role", message: 'must be one of: "user", "admin"' },
+        { path: "limit", message: "must be of type number" },
+        { path: "options.notify", message: "is required" },
+      ]),
+    );
+    expect(error!.violations).toHaveLength(4);
+    expect(error!.message).toContain("Invalid arguments for tool 'add-user'");
+    expect(error!.message).toContain("- 'email': is required");
+  });
+
+  it("treats missing arguments as an empty object", () => {
+    expect(() => validateToolArguments("add-user", schema, undefined)).toThrow(
+      /'email': is required/,
+    );
+    expect(
+      validateToolArguments("list", { type: "object", properties: {} }, null),
+    ).toEqual({});
+  });
+
+  it("keeps a bounded number of compiled schemas, dropping the least recently used", () => {
+    const compile = jest.spyOn(Ajv.prototype, "compile");
+    const removeSchema = jest.spyOn(Ajv.prototype, "removeSchema");
+    const schemaOf = (i: number) => ({
+      type: "object",
+      properties: { [`field${i}`]: { type: "string" } },
+    });
+    try {
+      for (let i = 0; i < MAX_CACHED_VALIDATORS; i++) {
+        validateToolArguments("tool", schemaOf(i), {});
+      }
+      // Schemas of the earlier tests were the first to go
+      removeSchema.mockClear();
+      // Using the first schema again makes the second the least recently used
+      validateToolArguments("tool", schemaOf(0), {});
+      validateToolArguments("tool", schemaOf(MAX_CACHED_VALIDATORS), {});
+      expect(removeSchema).toHaveBeenCalledTimes(1);
+      expect(removeSchema).toHaveBeenCalledWith(schemaOf(1));
+
+      compile.mockClear();
+      validateToolArguments("tool", schemaOf(0), {});
+      expect(compile).not.toHaveBeenCalled();
+      validateToolArguments("tool", schemaOf(1), {});
+      expect(compile).toHaveBeenCalledTimes(1);
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  it("skips validation when the schema cannot be compiled", () => {
+    const invalid = { type: "object", properties: { a: { type: "nope" } } };
+    expect(validateToolArguments("broken", invalid, { a: 1 })).toEqual({
+      a: 1,
+    });
+  });
+});
+
+describe("validateToolOutput", () => {
+  const outputSchema = {
+    type: "object",
+    properties: { temperature: { type: "number" }, unit: { type: "string" } },
+    required: ["temperature"],
+  };
+
+  it("accepts a conforming result", () => {
+    expect(
+      validateToolOutput("weather", outputSchema, { temperature: 21, unit: "C" }),
+    ).toEqual({ temperature: 21, unit: "C" });
+  });
+
+  it("reports every mismatch as a tool fault", () => {
+    expect(() =>
+      validateToolOutput("weather", outputSchema, { unit: 1 }),
+    ).toThrow(ToolOutputError);
+    expect(() => validateToolOutput("weather", outputSchema, undefined)).toThrow(
+      /does not match its outputSchema:\n- result: must be of type object/,
+    );
+  });
+});
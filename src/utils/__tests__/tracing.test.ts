@@ -0,0 +1,100 @@
+import { EventEmitter } from "events";
+import express from "express";
+import supertest from "supertest";
+import { SpanStatusCode, trace } from "@opentelemetry/api";
+import {
+  InMemorySpanExporter,
+  NodeTracerProvider,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-node";
+import { traceMongoClient, traceRequests, withSpan } from "../tracing.js";
+
+describe("tracing", () => {
+  const exporter = new InMemorySpanExporter();
+  const provider = new NodeTracerProvider({
+    spanProcessors: [new SimpleSpanProcessor(exporter)],
+  });
+
+  beforeAll(() => {
+    provider.register();
+  });
+
+  afterEach(() => {
+    exporter.reset();
+  });
+
+  afterAll(async () => {
+    await provider.shutdown();
+  });
+
+  const spanNamed = (name: string) =>
+    exporter.getFinishedSpans().find((span) => span.name === name)!;
+
+  it("nests spans and records errors", async () => {
+    await expect(
+      withSpan("outer", {}, () =>
+        withSpan("inner", { "mcp.tool.name": "echo" }, async () => {
+          throw new Error("boom");
+        }),
+      ),
+    ).rejects.toThrow("boom");
+
+    const outer = spanNamed("outer");
+    const inner = spanNamed("inner");
+    expect(inner.parentSpanContext?.spanId).toBe(outer.spanContext().spanId);
+    expect(inner.attributes["mcp.tool.name"]).toBe("echo");
+    expect(inner.status).toEqual({
+      code: SpanStatusCode.ERROR,
+      message: "boom",
+    });
+  });
+
+  it("continues the caller's trace for HTTP requests", async () => {
+    const app = express();
+    app.use(traceRequests());
+    let activeTraceId: string | undefined;
+    app.get("/ping", (_req, res) => {
+      activeTraceId = trace.getActiveSpan()?.spanContext().traceId;
+      res.status(200).send("pong");
+    });
+    const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+
+    await supertest(app)
+      .get("/ping")
+      .set("traceparent", `00-${traceId}-00f067aa0ba902b7-01`);
+
+    const span = spanNamed("GET /ping");
+    expect(span.spanContext().traceId).toBe(traceId);
+    expect(activeTraceId).toBe(traceId);
+    expect(span.attributes["http.response.status_code"]).toBe(200);
+  });
+
+  it("opens a span per MongoDB command under the active span", async () => {
+    const client = new EventEmitter();
+    traceMongoClient(client as any);
+
+    await withSpan("query", {}, async () => {
+      client.emit("commandStarted", {
+        requestId: 1,
+        commandName: "find",
+        databaseName: "mcp",
+        command: { find: "tools" },
+      });
+      client.emit("commandStarted", {
+        requestId: 2,
+        commandName: "ping",
+        databaseName: "admin",
+        command: { ping: 1 },
+      });
+    });
+    client.emit("commandSucceeded", { requestId: 1 });
+    client.emit("commandSucceeded", { requestId: 2 });
+
+    const find = spanNamed("mongodb.find");
+    expect(find.parentSpanContext?.spanId).toBe(
+      spanNamed("query").spanContext().spanId,
+    );
+    expect(find.attributes["db.collection.name"]).toBe("tools");
+    expect(spanNamed("mongodb.ping")).toBeUndefined();
+  });
+});
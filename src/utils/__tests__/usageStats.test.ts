@@ -0,0 +1,33 @@
+import {
+  LATENCY_BUCKETS_MS,
+  latencyBucket,
+  latencyPercentile,
+  mergeLatencyBuckets,
+} from "../usageStats.js";
+
+describe("usage statistics", () => {
+  it("puts durations in the first bucket that covers them", () => {
+    expect(latencyBucket(0)).toBe(0);
+    expect(latencyBucket(10)).toBe(0);
+    expect(latencyBucket(11)).toBe(1);
+    expect(latencyBucket(120_000)).toBe(LATENCY_BUCKETS_MS.length);
+  });
+
+  it("estimates percentiles as bucket upper bounds", () => {
+    // 90 calls up to 100ms, 10 calls up to 2500ms
+    const buckets = { [latencyBucket(80)]: 90, [latencyBucket(2000)]: 10 };
+    expect(latencyPercentile(buckets, 50)).toBe(100);
+    expect(latencyPercentile(buckets, 95)).toBe(2500);
+    expect(latencyPercentile({}, 95)).toBeNull();
+    expect(
+      latencyPercentile({ [LATENCY_BUCKETS_MS.length]: 1 }, 50),
+    ).toBe(60000);
+  });
+
+  it("merges histograms", () => {
+    expect(mergeLatencyBuckets([{ 0: 1, 3: 2 }, { 3: 1 }])).toEqual({
+      0: 1,
+      3: 3,
+    });
+  });
+});
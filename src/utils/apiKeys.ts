@@ -0,0 +1,105 @@
+import { randomBytes, randomUUID, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+) => Promise<Buffer>;
+
+const HASH_ALGORITHM = "scrypt";
+const SALT_BYTES = 16;
+const KEY_LENGTH = 32;
+
+/** Number of leading characters of a key stored in clear for lookup */
+export const API_KEY_PREFIX_LENGTH = 8;
+
+export function generateApiKey(): string {
+  return randomUUID();
+}
+
+export function getApiKeyPrefix(apiKey: string): string {
+  return apiKey.slice(0, API_KEY_PREFIX_LENGTH);
+}
+
+/**
+ * Hash an API key with a random salt.
+ * Format: `scrypt$<salt hex>$<hash hex>`
+ */
+export async function hashApiKey(apiKey: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const hash = await scryptAsync(apiKey, salt, KEY_LENGTH);
+  return `${HASH_ALGORITHM}$${salt.toString("hex")}$${hash.toString("hex")}`;
+}
+
+/**
+ * Check an API key against a hash produced by hashApiKey (constant-time).
+ */
+export async function verifyApiKey(
+  apiKey: string,
+  storedHash: string | undefined,
+): Promise<boolean> {
+  if (!storedHash) return false;
+  const [algorithm, saltHex, hashHex] = storedHash.split("$");
+  if (algorithm !== HASH_ALGORITHM || !saltHex || !hashHex) return false;
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scryptAsync(
+    apiKey,
+    Buffer.from(saltHex, "hex"),
+    expected.length,
+  );
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * Safe representation of an API key for logs and listings.
+ */
+export function redactApiKey(apiKey: string | undefined | null): string {
+  if (!apiKey) return "[none]";
+  return `${getApiKeyPrefix(String(apiKey))}…[REDACTED]`;
+}
+
+export function isApiKeyExpired(
+  key: { expiresAt?: Date | string },
+  now: Date = new Date(),
+): boolean {
+  return !!key.expiresAt && new Date(key.expiresAt).getTime() <= now.getTime();
+}
+
+/**
+ * Whether a tool may be used under an API key scope. A tool is in scope if its
+ * namespaced name (creator:name) or handler package is listed; bare names are
+ * not matched, since different creators may use the same name.
+ * A missing or empty scope allows every tool.
+ */
+export function isToolInScope(
+  scope: { tools?: string[]; handlers?: string[] } | undefined,
+  tool: { name: string; creator?: string; handler?: { type?: string } },
+): boolean {
+  const tools = scope?.tools || [];
+  const handlers = scope?.handlers || [];
+  if (tools.length === 0 && handlers.length === 0) {
+    return true;
+  }
+  return (
+    (!!tool.creator && tools.includes(`${tool.creator}:${tool.name}`)) ||
+    (!!tool.handler?.type && handlers.includes(tool.handler.type))
+  );
+}
+
+/**
+ * Whether a resource may be used under an API key scope. Resources are in
+ * scope if their handler package is listed; a missing or empty scope allows
+ * every resource.
+ */
+export function isResourceInScope(
+  scope: { tools?: string[]; handlers?: string[] } | undefined,
+  resource: { handler?: { type?: string } },
+): boolean {
+  const tools = scope?.tools || [];
+  const handlers = scope?.handlers || [];
+  if (tools.length === 0 && handlers.length === 0) {
+    return true;
+  }
+  return !!resource.handler?.type && handlers.includes(resource.handler.type);
+}
@@ -0,0 +1,73 @@
+import type { IAuditEvent } from "../db/models/AuditEvent.js";
+
+/** Argument names whose values never reach the audit log */
+const SECRET_KEY_PATTERN =
+  /(api[-_]?key|secret|token|password|passwd|authorization|credential|private[-_]?key)/i;
+const MAX_STRING_LENGTH = 500;
+const MAX_DEPTH = 5;
+
+export const REDACTED = "[REDACTED]";
+
+/**
+ * Copy of tool arguments that is safe to persist: values of secret-looking
+ * keys are replaced, long strings are truncated and deep nesting is cut off.
+ */
+export function redactArguments(args: unknown, depth = 0): any {
+  if (typeof args === "string") {
+    return args.length > MAX_STRING_LENGTH
+      ? `${args.slice(0, MAX_STRING_LENGTH)}…[truncated]`
+      : args;
+  }
+  if (args === null || typeof args !== "object") {
+    return args;
+  }
+  if (depth >= MAX_DEPTH) {
+    return "[truncated]";
+  }
+  if (Array.isArray(args)) {
+    return args.map((item) => redactArguments(item, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(args).map(([key, value]) => [
+      key,
+      SECRET_KEY_PATTERN.test(key) ? REDACTED : redactArguments(value, depth + 1),
+    ]),
+  );
+}
+
+const CSV_COLUMNS: (keyof IAuditEvent)[] = [
+  "timestamp",
+  "userEmail",
+  "tool",
+  "handler",
+  "outcome",
+  "durationMs",
+  "error",
+  "sessionId",
+  "clientName",
+  "clientVersion",
+  "arguments",
+];
+
+function toCsvField(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  const text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render audit events as CSV with a header row.
+ */
+export function auditEventsToCsv(events: IAuditEvent[]): string {
+  const rows = events.map((event) =>
+    CSV_COLUMNS.map((column) => toCsvField(event[column])).join(","),
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\n");
+}
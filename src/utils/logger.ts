@@ -1,5 +1,6 @@
 import winston from "winston";
 import { config } from "../config/index.js";
+import { redactApiKey } from "./apiKeys.js";
 
 // Define log levels
 const levels = {
@@ -22,6 +23,18 @@ const colors = {
 // Add colors to Winston
 winston.addColors(colors);
 
+// Matches API keys in messages and serialized metadata, e.g. "apiKey=..." or "\"apikey\":\"...\""
+const API_KEY_PATTERN = /(api[-_]?key["']?\s*[=:]\s*["']?)([^\s&"',;}]+)/gi;
+
+/**
+ * Mask API key values so they never reach a log transport.
+ */
+export function redactSecrets(text: string): string {
+  return text.replace(API_KEY_PATTERN, (_match, label: string, value: string) =>
+    value.includes("[REDACTED]") ? `${label}${value}` : `${label}${redactApiKey(value)}`,
+  );
+}
+
 // Define the format for logs
 const format = winston.format.combine(
   winston.format.timestamp({ format: "YYYY-MM-DD HH:mm:ss:ms" }),
@@ -36,14 +49,15 @@ const format = winston.format.combine(
       output += ` error: ${JSON.stringify(info.error)}`;
     }
 
-    return output;
+    return redactSecrets(output);
   }),
 );
 
 // Define which transports to use based on environment
+const consoleTransport = new winston.transports.Console();
 const transports: winston.transport[] = [
   // Always log to console
-  new winston.transports.Console(),
+  consoleTransport,
 ];
 
 // Create the logger
@@ -54,4 +68,17 @@ const logger = winston.createLogger({
   transports,
 });
 
+/**
+ * Write all console logs to stderr, keeping stdout free for the stdio transport.
+ */
+export function logToStderr(): void {
+  if (!logger.transports.includes(consoleTransport)) {
+    return;
+  }
+  logger.remove(consoleTransport);
+  logger.add(
+    new winston.transports.Console({ stderrLevels: Object.keys(levels) }),
+  );
+}
+
 export default logger;
@@ -0,0 +1,103 @@
+import {
+  collectDefaultMetrics,
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+} from "prom-client";
+
+/**
+ * Registry for the server's Prometheus metrics, kept apart from prom-client's
+ * global registry so that an embedding application's metrics don't clash.
+ */
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry });
+
+const LATENCY_BUCKETS_SECONDS = [
+  0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60,
+];
+
+export const activeSessions = new Gauge({
+  name: "mcp_active_sessions",
+  help: "Live MCP sessions served by this process",
+  labelNames: ["client_name", "transport"] as const,
+  registers: [metricsRegistry],
+});
+
+export const toolCalls = new Counter({
+  name: "mcp_tool_calls_total",
+  help: "Tool calls by tool, handler type and outcome (success, error, denied)",
+  labelNames: ["tool", "handler", "outcome"] as const,
+  registers: [metricsRegistry],
+});
+
+export const toolCallDuration = new Histogram({
+  name: "mcp_tool_call_duration_seconds",
+  help: "Duration of tool calls",
+  labelNames: ["tool", "handler"] as const,
+  buckets: LATENCY_BUCKETS_SECONDS,
+  registers: [metricsRegistry],
+});
+
+export const promptRequests = new Counter({
+  name: "mcp_prompt_requests_total",
+  help: "Prompt requests by prompt and outcome (success, error)",
+  labelNames: ["prompt", "outcome"] as const,
+  registers: [metricsRegistry],
+});
+
+export const promptRequestDuration = new Histogram({
+  name: "mcp_prompt_request_duration_seconds",
+  help: "Duration of prompt requests",
+  labelNames: ["prompt"] as const,
+  buckets: LATENCY_BUCKETS_SECONDS,
+  registers: [metricsRegistry],
+});
+
+export const authorizationFailures = new Counter({
+  name: "mcp_authorization_failures_total",
+  help: "Rejected requests and tool calls by reason",
+  labelNames: ["reason"] as const,
+  registers: [metricsRegistry],
+});
+
+export const notificationFailures = new Counter({
+  name: "mcp_notification_failures_total",
+  help: "Notifications that could not be sent to a session, by method",
+  labelNames: ["method"] as const,
+  registers: [metricsRegistry],
+});
+
+export const mongoOperationDuration = new Histogram({
+  name: "mcp_mongodb_operation_duration_seconds",
+  help: "Duration of MongoDB commands by command name and outcome",
+  labelNames: ["operation", "outcome"] as const,
+  buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+  registers: [metricsRegistry],
+});
+
+/** The command monitoring events of a MongoClient (monitorCommands: true) */
+interface CommandMonitor {
+  on(
+    event: "commandSucceeded" | "commandFailed",
+    listener: (event: { commandName: string; duration: number }) => void,
+  ): unknown;
+}
+
+/**
+ * Record the latency of every MongoDB command sent by a client.
+ */
+export function instrumentMongoClient(client: CommandMonitor): void {
+  client.on("commandSucceeded", ({ commandName, duration }) => {
+    mongoOperationDuration.observe(
+      { operation: commandName, outcome: "success" },
+      duration / 1000,
+    );
+  });
+  client.on("commandFailed", ({ commandName, duration }) => {
+    mongoOperationDuration.observe(
+      { operation: commandName, outcome: "error" },
+      duration / 1000,
+    );
+  });
+}
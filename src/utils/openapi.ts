@@ -0,0 +1,257 @@
+import { readFile } from "node:fs/promises";
+import { parse as parseYaml } from "yaml";
+import type { ToolDefinition } from "../mcp/types.js";
+import type { HttpHandlerConfig } from "../handlers/httpHandler/request.js";
+
+/** The parts of an OpenAPI 3 document the importer reads */
+export interface OpenApiDocument {
+  openapi: string;
+  info?: { title?: string; version?: string };
+  servers?: { url: string }[];
+  paths: Record<string, Record<string, any>>;
+  components?: Record<string, any>;
+}
+
+export interface OpenApiImportOptions {
+  /** Base URL of the API; defaults to the document's first server */
+  baseUrl?: string;
+  /** operationIds or "METHOD /path" of the operations to import; all if empty */
+  operations?: string[];
+  /** Only import operations with one of these tags */
+  tags?: string[];
+  /** Prepended to every tool name, e.g. "billing-" */
+  namePrefix?: string;
+  /** Credentials the generated tools send, see the http handler */
+  auth?: HttpHandlerConfig["auth"];
+  /** Roles that may call the generated tools (default none: only the creator and users it is shared with) */
+  rolesPermitted?: string[];
+}
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "patch", "head"];
+
+// What each HTTP method implies about a tool, per RFC 9110 semantics
+const METHOD_ANNOTATIONS: Record<
+  string,
+  { readOnlyHint: boolean; destructiveHint: boolean; idempotentHint: boolean }
+> = {
+  get: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
+  head: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
+  post: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+  put: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+  patch: { readOnlyHint: false, destructiveHint: true, idempotentHint: false },
+  delete: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+};
+
+/**
+ * Parse an OpenAPI 3 document from JSON or YAML text
+ */
+export function parseOpenApiDocument(text: string): OpenApiDocument {
+  let doc: any;
+  try {
+    doc = text.trim().startsWith("{") ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new Error(
+      `The OpenAPI document is not valid JSON or YAML: ${
+        error instanceof Error ? error.message.split("\n")[0] : error
+      }`,
+    );
+  }
+  if (!doc || typeof doc !== "object" || typeof doc.openapi !== "string") {
+    throw new Error(
+      "Not an OpenAPI document: the 'openapi' version field is missing",
+    );
+  }
+  if (!doc.openapi.startsWith("3.")) {
+    throw new Error(
+      `OpenAPI ${doc.openapi} is not supported. Convert the document to OpenAPI 3 first.`,
+    );
+  }
+  if (!doc.paths || typeof doc.paths !== "object") {
+    throw new Error("The OpenAPI document has no paths");
+  }
+  return doc;
+}
+
+/**
+ * Read an OpenAPI 3 document from a file or from pasted text
+ */
+export async function loadOpenApiDocument(source: {
+  path?: string;
+  document?: string;
+}): Promise<OpenApiDocument> {
+  if (source.document) {
+    return parseOpenApiDocument(source.document);
+  }
+  if (source.path) {
+    return parseOpenApiDocument(await readFile(source.path, "utf8"));
+  }
+  throw new Error("Provide the OpenAPI document or the path of a file holding it");
+}
+
+// Resolve local "#/components/..." references, leaving cycles unexpanded
+function resolveRefs(doc: OpenApiDocument, value: any, seen: string[] = []): any {
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveRefs(doc, item, seen));
+  }
+  if (!value || typeof value !== "object") {
+    return value;
+  }
+  if (typeof value.$ref === "string") {
+    const ref: string = value.$ref;
+    if (!ref.startsWith("#/") || seen.includes(ref)) {
+      return {};
+    }
+    const target = ref
+      .slice(2)
+      .split("/")
+      .map((key) => key.replace(/~1/g, "/").replace(/~0/g, "~"))
+      .reduce<any>((node, key) => node?.[key], doc);
+    if (target === undefined) {
+      throw new Error(`Unresolved reference in the OpenAPI document: ${ref}`);
+    }
+    return resolveRefs(doc, target, [...seen, ref]);
+  }
+  const resolved: any = {};
+  for (const [key, child] of Object.entries(value)) {
+    resolved[key] = resolveRefs(doc, child, seen);
+  }
+  return resolved;
+}
+
+// Tool names must be unique, readable and free of ':'
+function toolName(prefix: string, method: string, path: string, operationId?: string): string {
+  const base =
+    operationId ||
+    `${method}-${path.replace(/[{}]/g, "")}`;
+  const slug = base
+    .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+    .replace(/[^A-Za-z0-9_-]+/g, "-")
+    .replace(/-+/g, "-")
+    .replace(/^-|-$/g, "")
+    .toLowerCase();
+  return `${prefix}${slug}`;
+}
+
+function isSelected(
+  options: OpenApiImportOptions,
+  method: string,
+  path: string,
+  operation: any,
+): boolean {
+  if (options.operations?.length) {
+    const key = `${method.toUpperCase()} ${path}`;
+    if (
+      !options.operations.includes(operation.operationId) &&
+      !options.operations.some((selected) => selected.toUpperCase() === key.toUpperCase())
+    ) {
+      return false;
+    }
+  }
+  if (options.tags?.length) {
+    return (operation.tags || []).some((tag: string) => options.tags!.includes(tag));
+  }
+  return true;
+}
+
+/**
+ * Generate one tool per selected operation, calling the API through the
+ * built-in http handler. Parameters become arguments of the same name and a
+ * JSON request body becomes the "body" argument.
+ */
+export function openApiToTools(
+  doc: OpenApiDocument,
+  options: OpenApiImportOptions = {},
+): ToolDefinition[] {
+  const baseUrl = (options.baseUrl || doc.servers?.[0]?.url || "").replace(/\/$/, "");
+  if (!/^https?:\/\//.test(baseUrl)) {
+    throw new Error(
+      "The OpenAPI document has no absolute server URL. Pass baseUrl, e.g. https://api.example.com",
+    );
+  }
+
+  const tools: ToolDefinition[] = [];
+  for (const [path, pathItem] of Object.entries(doc.paths)) {
+    const resolvedPathItem = resolveRefs(doc, pathItem);
+    for (const method of HTTP_METHODS) {
+      const operation = resolvedPathItem[method];
+      if (!operation || !isSelected(options, method, path, operation)) {
+        continue;
+      }
+
+      const properties: Record<string, any> = {};
+      const required: string[] = [];
+      const query: Record<string, string> = {};
+      const headers: Record<string, string> = {};
+      // Operation parameters override path-level ones with the same name and location
+      const parameters = new Map<string, any>();
+      for (const parameter of [
+        ...(resolvedPathItem.parameters || []),
+        ...(operation.parameters || []),
+      ]) {
+        parameters.set(`${parameter.in}:${parameter.name}`, parameter);
+      }
+      for (const parameter of parameters.values()) {
+        if (!["path", "query", "header"].includes(parameter.in)) {
+          continue;
+        }
+        properties[parameter.name] = {
+          ...(parameter.schema || { type: "string" }),
+          ...(parameter.description ? { description: parameter.description } : {}),
+        };
+        if (parameter.required || parameter.in === "path") {
+          required.push(parameter.name);
+        }
+        if (parameter.in === "query") {
+          query[parameter.name] = `{{${parameter.name}}}`;
+        } else if (parameter.in === "header") {
+          headers[parameter.name] = `{{${parameter.name}}}`;
+        }
+      }
+
+      const jsonBody = operation.requestBody?.content?.["application/json"];
+      if (jsonBody) {
+        properties.body = {
+          ...(jsonBody.schema || { type: "object" }),
+          description: operation.requestBody.description || "The JSON request body",
+        };
+        if (operation.requestBody.required) {
+          required.push("body");
+        }
+      }
+
+      const config: HttpHandlerConfig = {
+        method: method.toUpperCase() as HttpHandlerConfig["method"],
+        url: `${baseUrl}${path.replace(/{([^}]+)}/g, "{{$1}}")}`,
+      };
+      if (Object.keys(query).length) config.query = query;
+      if (Object.keys(headers).length) config.headers = headers;
+      if (jsonBody) config.body = "{{body}}";
+      if (options.auth) config.auth = options.auth;
+
+      const summary: string | undefined = operation.summary;
+      let name = toolName(options.namePrefix || "", method, path, operation.operationId);
+      for (let n = 2; tools.some((tool) => tool.name === name); n++) {
+        name = `${toolName(options.namePrefix || "", method, path, operation.operationId)}-${n}`;
+      }
+      tools.push({
+        name,
+        description:
+          [summary, operation.description].filter(Boolean).join("\n\n") ||
+          `${method.toUpperCase()} ${path}`,
+        inputSchema: {
+          type: "object",
+          properties,
+          ...(required.length ? { required } : {}),
+        },
+        annotations: {
+          title: summary || `${method.toUpperCase()} ${path}`,
+          ...METHOD_ANNOTATIONS[method],
+          openWorldHint: true,
+        },
+        rolesPermitted: options.rolesPermitted ?? [],
+        handler: { type: "http", config },
+      });
+    }
+  }
+  return tools;
+}
@@ -0,0 +1,77 @@
+export interface TemplateOptions {
+  /** Fall back to environment variables for unknown fields (default true) */
+  env?: boolean;
+  /**
+   * Keep the type of a value that is a single placeholder, e.g. "{{ count }}"
+   * resolves to the number rather than its string (default false)
+   */
+  preserveTypes?: boolean;
+  /** Applied to each value placed into a string, e.g. encodeURIComponent */
+  encode?: (value: string) => string;
+}
+
+const PLACEHOLDER = /{{\s*([^}]+?)\s*}}/g;
+const SINGLE_PLACEHOLDER = /^{{\s*([^}]+?)\s*}}$/;
+
+// Look a field up by name, then as a dotted path such as "auth.token"
+function lookup(source: any, field: string): any {
+  if (source == null) {
+    return undefined;
+  }
+  if (source[field] !== undefined) {
+    return source[field];
+  }
+  return field
+    .split(".")
+    .reduce((value, key) => (value == null ? undefined : value[key]), source);
+}
+
+function resolveField(
+  field: string,
+  inputArgs: any,
+  context: any,
+  options: TemplateOptions,
+): any {
+  return (
+    lookup(inputArgs, field) ??
+    lookup(context, field) ??
+    (options.env === false ? undefined : process.env[field])
+  );
+}
+
+/**
+ * Replace {{ field }} placeholders in strings, arrays and objects with tool
+ * arguments, then context values, then environment variables. Unknown fields
+ * become empty strings.
+ */
+export function mapArguments(
+  argMappings: any,
+  inputArgs: any,
+  context: any = {},
+  options: TemplateOptions = {},
+): any {
+  if (typeof argMappings === "string") {
+    const single = options.preserveTypes
+      ? argMappings.match(SINGLE_PLACEHOLDER)
+      : null;
+    if (single) {
+      return resolveField(single[1], inputArgs, context, options) ?? "";
+    }
+    return argMappings.replace(PLACEHOLDER, (_, field) => {
+      const value = resolveField(field, inputArgs, context, options) ?? "";
+      const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+      return options.encode ? options.encode(text) : text;
+    });
+  } else if (Array.isArray(argMappings)) {
+    return argMappings.map((item) =>
+      mapArguments(item, inputArgs, context, options),
+    );
+  } else if (typeof argMappings === "object" && argMappings !== null) {
+    const resolved: any = {};
+    for (const [key, value] of Object.entries(argMappings)) {
+      resolved[key] = mapArguments(value, inputArgs, context, options);
+    }
+    return resolved;
+  }
+  return argMappings;
+}
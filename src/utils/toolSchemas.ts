@@ -0,0 +1,182 @@
+import Ajv from "ajv";
+import logger from "./logger.js";
+
+export interface SchemaViolation {
+  /** Dotted path of the offending value ("" for the whole object) */
+  path: string;
+  message: string;
+}
+
+const formatViolations = (violations: SchemaViolation[], root: string) =>
+  violations
+    .map((v) => `- ${v.path ? `'${v.path}'` : root}: ${v.message}`)
+    .join("\n");
+
+/**
+ * Thrown when tool call arguments do not match the tool's inputSchema.
+ * The message lists every violation so the caller can fix them in one go.
+ */
+export class ToolArgumentsError extends Error {
+  public readonly toolName: string;
+  public readonly violations: SchemaViolation[];
+
+  constructor(toolName: string, violations: SchemaViolation[]) {
+    super(
+      `Invalid arguments for tool '${toolName}':\n` +
+        formatViolations(violations, "arguments") +
+        "\nCall the tool again with arguments that match its inputSchema.",
+    );
+    this.name = "ToolArgumentsError";
+    this.toolName = toolName;
+    this.violations = violations;
+  }
+}
+
+/**
+ * Thrown when a tool's structured result does not match its outputSchema.
+ * This is a fault of the tool, not of the caller.
+ */
+export class ToolOutputError extends Error {
+  public readonly toolName: string;
+  public readonly violations: SchemaViolation[];
+
+  constructor(toolName: string, violations: SchemaViolation[]) {
+    super(
+      `Tool '${toolName}' returned a result that does not match its outputSchema:\n` +
+        formatViolations(violations, "result"),
+    );
+    this.name = "ToolOutputError";
+    this.toolName = toolName;
+    this.violations = violations;
+  }
+}
+
+const ajv = new Ajv({
+  allErrors: true,
+  useDefaults: true,
+  jsonPointers: true,
+  // Tool schemas come from many authors; don't reject them for unknown formats
+  unknownFormats: "ignore",
+});
+
+/** Most compiled validators kept; the least recently used are dropped first */
+export const MAX_CACHED_VALIDATORS = 500;
+
+interface CachedValidator {
+  /** The schema as compiled, to remove it from ajv's own cache */
+  schema: object;
+  /** undefined if the schema could not be compiled */
+  validate?: Ajv.ValidateFunction;
+}
+
+// Compiled validators by schema, in least recently used order. Keyed by the
+// schema itself, so an updated tool gets a new entry and the old one ages out.
+const validators = new Map<string, CachedValidator>();
+
+function getValidator(schema: any): Ajv.ValidateFunction | undefined {
+  const key = JSON.stringify(schema);
+  let cached = validators.get(key);
+  if (cached) {
+    validators.delete(key);
+  } else {
+    // Validate with draft-07 whatever draft the schema declares
+    const { $schema, ...rest } = schema;
+    cached = { schema: rest };
+    try {
+      cached.validate = ajv.compile(rest);
+    } catch (error) {
+      logger.warn(
+        `[TOOLSERVICE] Skipping validation against invalid schema: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+    if (validators.size >= MAX_CACHED_VALIDATORS) {
+      const [oldestKey, oldest] = validators.entries().next().value!;
+      validators.delete(oldestKey);
+      if (oldest.validate) {
+        ajv.removeSchema(oldest.schema);
+      }
+    }
+  }
+  validators.set(key, cached);
+  return cached.validate;
+}
+
+function toPath(pointer: string): string {
+  return pointer
+    .split("/")
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .join(".");
+}
+
+function toViolation(error: Ajv.ErrorObject): SchemaViolation {
+  const path = toPath(error.dataPath);
+  const params = error.params as any;
+  const join = (parent: string, child: string) =>
+    parent ? `${parent}.${child}` : child;
+  switch (error.keyword) {
+    case "required":
+      return {
+        path: join(path, params.missingProperty),
+        message: "is required",
+      };
+    case "additionalProperties":
+      return {
+        path: join(path, params.additionalProperty),
+        message: "is not a recognized argument",
+      };
+    case "type":
+      return { path, message: `must be of type ${params.type}` };
+    case "enum":
+      return {
+        path,
+        message: `must be one of: ${params.allowedValues
+          .map((value: unknown) => JSON.stringify(value))
+          .join(", ")}`,
+      };
+    default:
+      return { path, message: error.message || `fails '${error.keyword}'` };
+  }
+}
+
+/**
+ * Validate tool call arguments against the tool's inputSchema (JSON Schema).
+ * Returns a copy of the arguments with schema defaults filled in.
+ * Throws a ToolArgumentsError listing every violation.
+ */
+export function validateToolArguments(
+  toolName: string,
+  inputSchema: any,
+  args: any,
+): any {
+  const validated =
+    args === undefined || args === null ? {} : structuredClone(args);
+  if (!inputSchema || typeof inputSchema !== "object") {
+    return validated;
+  }
+  const validate = getValidator(inputSchema);
+  if (!validate || validate(validated)) {
+    return validated;
+  }
+  throw new ToolArgumentsError(toolName, (validate.errors || []).map(toViolation));
+}
+
+/**
+ * Validate a tool's structured result against its outputSchema.
+ * Returns a copy of the result with schema defaults filled in.
+ * Throws a ToolOutputError listing every violation.
+ */
+export function validateToolOutput(
+  toolName: string,
+  outputSchema: any,
+  structuredContent: any,
+): any {
+  const validated = structuredClone(structuredContent);
+  const validate = getValidator(outputSchema);
+  if (!validate || validate(validated)) {
+    return validated;
+  }
+  throw new ToolOutputError(toolName, (validate.errors || []).map(toViolation));
+}
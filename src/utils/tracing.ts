@@ -0,0 +1,197 @@
+import {
+  Attributes,
+  context,
+  propagation,
+  Span,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+} from "@opentelemetry/api";
+import {
+  BatchSpanProcessor,
+  NodeTracerProvider,
+} from "@opentelemetry/sdk-trace-node";
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import type { RequestHandler } from "express";
+import logger from "./logger.js";
+
+/**
+ * Tracer for the server's spans. Spans are no-ops until tracing is started
+ * (or the embedding application registers its own tracer provider).
+ */
+export const tracer = trace.getTracer("dynamic-mcp-server");
+
+export interface TracingConfig {
+  /** OTLP/HTTP traces endpoint, e.g. http://collector:4318/v1/traces; tracing is off without it */
+  otlpUrl: string;
+  /** Extra headers for the exporter, e.g. for authentication */
+  otlpHeaders: Record<string, string>;
+  serviceName: string;
+  serviceVersion: string;
+}
+
+let provider: NodeTracerProvider | undefined;
+
+/**
+ * Register a tracer provider exporting spans over OTLP/HTTP, with W3C trace
+ * context propagation. Does nothing without an OTLP URL or when already started.
+ */
+export function startTracing(tracingConfig: TracingConfig): boolean {
+  if (provider || !tracingConfig.otlpUrl) {
+    return false;
+  }
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      "service.name": tracingConfig.serviceName,
+      "service.version": tracingConfig.serviceVersion,
+    }),
+    spanProcessors: [
+      new BatchSpanProcessor(
+        new OTLPTraceExporter({
+          url: tracingConfig.otlpUrl,
+          headers: tracingConfig.otlpHeaders,
+        }),
+      ),
+    ],
+  });
+  provider.register();
+  logger.info(`[TRACING] Exporting spans to ${tracingConfig.otlpUrl}`);
+  return true;
+}
+
+/**
+ * Flush pending spans and stop exporting.
+ */
+export async function stopTracing(): Promise<void> {
+  if (!provider) {
+    return;
+  }
+  const current = provider;
+  provider = undefined;
+  await current.shutdown();
+}
+
+/**
+ * Run a function in a new active span, recording errors and ending the span
+ * when the function settles.
+ */
+export function withSpan<T>(
+  name: string,
+  attributes: Attributes,
+  fn: (span: Span) => Promise<T> | T,
+): Promise<T> {
+  return tracer.startActiveSpan(name, { attributes }, async (span) => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      span.recordException(
+        error instanceof Error ? error : new Error(String(error)),
+      );
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Express middleware opening a server span per HTTP request, continuing the
+ * caller's trace when it sends a traceparent header.
+ */
+export function traceRequests(): RequestHandler {
+  return (req, res, next) => {
+    const parent = propagation.extract(context.active(), req.headers);
+    const span = tracer.startSpan(
+      `${req.method} ${req.path}`,
+      {
+        kind: SpanKind.SERVER,
+        attributes: {
+          "http.request.method": req.method,
+          "url.path": req.path,
+          ...(req.headers["mcp-session-id"]
+            ? { "mcp.session.id": String(req.headers["mcp-session-id"]) }
+            : {}),
+        },
+      },
+      parent,
+    );
+    res.once("close", () => {
+      span.setAttribute("http.response.status_code", res.statusCode);
+      if (res.statusCode >= 500) {
+        span.setStatus({ code: SpanStatusCode.ERROR });
+      }
+      span.end();
+    });
+    context.with(trace.setSpan(parent, span), next);
+  };
+}
+
+/** MongoDB command monitoring events of a MongoClient (monitorCommands: true) */
+interface CommandEvents {
+  on(
+    event: "commandStarted",
+    listener: (event: {
+      requestId: number;
+      commandName: string;
+      databaseName: string;
+      command: Record<string, any>;
+    }) => void,
+  ): unknown;
+  on(
+    event: "commandSucceeded" | "commandFailed",
+    listener: (event: {
+      requestId: number;
+      failure?: Error;
+    }) => void,
+  ): unknown;
+}
+
+// Handshake and session housekeeping, not worth a span
+const UNTRACED_COMMANDS = new Set(["hello", "isMaster", "ping", "endSessions"]);
+
+/**
+ * Open a client span for every MongoDB command, as a child of the span that
+ * issued it.
+ */
+export function traceMongoClient(client: CommandEvents): void {
+  const spans = new Map<number, Span>();
+  client.on("commandStarted", (event) => {
+    if (UNTRACED_COMMANDS.has(event.commandName)) {
+      return;
+    }
+    const collection = event.command?.[event.commandName];
+    spans.set(
+      event.requestId,
+      tracer.startSpan(`mongodb.${event.commandName}`, {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          "db.system": "mongodb",
+          "db.namespace": event.databaseName,
+          "db.operation.name": event.commandName,
+          ...(typeof collection === "string"
+            ? { "db.collection.name": collection }
+            : {}),
+        },
+      }),
+    );
+  });
+  const end = (event: { requestId: number; failure?: Error }) => {
+    const span = spans.get(event.requestId);
+    if (!span) {
+      return;
+    }
+    spans.delete(event.requestId);
+    if (event.failure) {
+      span.recordException(event.failure);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: event.failure.message });
+    }
+    span.end();
+  };
+  client.on("commandSucceeded", end);
+  client.on("commandFailed", end);
+}
@@ -0,0 +1,52 @@
+/**
+ * Upper bounds (ms) of the latency histogram buckets. Calls slower than the
+ * last bound fall into an overflow bucket.
+ */
+export const LATENCY_BUCKETS_MS = [
+  10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000,
+];
+
+/** Index of the histogram bucket a call of this duration falls into */
+export function latencyBucket(durationMs: number): number {
+  const index = LATENCY_BUCKETS_MS.findIndex((bound) => durationMs <= bound);
+  return index === -1 ? LATENCY_BUCKETS_MS.length : index;
+}
+
+/**
+ * Estimate a latency percentile from histogram counts, as the upper bound of
+ * the bucket holding it. Returns null without calls; the overflow bucket is
+ * reported as the largest bound.
+ */
+export function latencyPercentile(
+  buckets: Record<string, number>,
+  percentile: number,
+): number | null {
+  const counts = LATENCY_BUCKETS_MS.map((_, i) => buckets[i] || 0);
+  counts.push(buckets[LATENCY_BUCKETS_MS.length] || 0);
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total === 0) {
+    return null;
+  }
+  const rank = Math.ceil((percentile / 100) * total);
+  let seen = 0;
+  for (let i = 0; i < counts.length; i++) {
+    seen += counts[i];
+    if (seen >= rank) {
+      return LATENCY_BUCKETS_MS[Math.min(i, LATENCY_BUCKETS_MS.length - 1)];
+    }
+  }
+  return LATENCY_BUCKETS_MS[LATENCY_BUCKETS_MS.length - 1];
+}
+
+/** Sum histogram counts bucket by bucket */
+export function mergeLatencyBuckets(
+  histograms: Record<string, number>[],
+): Record<string, number> {
+  const merged: Record<string, number> = {};
+  for (const histogram of histograms) {
+    for (const [bucket, count] of Object.entries(histogram || {})) {
+      merged[bucket] = (merged[bucket] || 0) + count;
+    }
+  }
+  return merged;
+}